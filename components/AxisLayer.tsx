@@ -1,23 +1,25 @@
 import React, { useMemo } from 'react';
 import { AxisConfig } from '../types';
+import { formatAxisValue } from '../utils/axes';
 
 interface AxisLayerProps {
   config: AxisConfig;
   width: number;
   height: number;
-  pixelsPerUnit: number; // Receive exact scale from parent
-  overrideOrigin?: { x: number; y: number }; // Optional fixed origin
+  gridSize: number; // Pixels per grid square, from the parent's axis mapping
+  overrideOrigin?: { x: number; y: number }; // Optional fixed origin (y relative to the top of each page)
   pageCount?: number; // New prop to handle multi-page rendering
   pageHeight?: number; // New prop to handle multi-page rendering
 }
 
-export const AxisLayer: React.FC<AxisLayerProps> = ({ config, width, height, pixelsPerUnit, overrideOrigin, pageCount = 1, pageHeight }) => {
-  const { color, showGrid, visible } = config;
+export const AxisLayer: React.FC<AxisLayerProps> = ({ config, width, height, gridSize, overrideOrigin, pageCount = 1, pageHeight }) => {
+  const { color, showGrid, visible, xStep = 1, yStep = 1, xLabels, yLabels, xName, yName } = config;
   
   // If pageHeight isn't provided, treat the whole height as one page
   const actualPageHeight = pageHeight || height;
   const centerX = overrideOrigin?.x ?? (width / 2);
-  const step = pixelsPerUnit;
+  const step = gridSize;
+  const originOffsetY = overrideOrigin?.y ?? (actualPageHeight / 2);
 
   const elements = useMemo(() => {
     const pagesRender = [];
@@ -25,15 +27,13 @@ export const AxisLayer: React.FC<AxisLayerProps> = ({ config, width, height, pix
     // Iterate through each page to render its own axis system
     for (let p = 0; p < pageCount; p++) {
         const pageTopY = p * actualPageHeight;
-        // The origin Y for THIS page is the middle of this page
-        // Note: overrideOrigin.y usually points to first page center (PAGE_HEIGHT/2).
-        // So we calculate local center dynamically.
-        const localCenterY = pageTopY + (actualPageHeight / 2);
+        // The origin sits at the same place on every page (overrideOrigin.y is measured from the page top)
+        const localCenterY = pageTopY + originOffsetY;
         
         // --- CALC BOUNDS FOR THIS PAGE ---
         const distToLeft = centerX;
         const distToRight = width - centerX;
-        const distToTop = localCenterY - pageTopY; // Should be half page height
+        const distToTop = localCenterY - pageTopY;
         const distToBottom = (pageTopY + actualPageHeight) - localCenterY;
 
         const maxStepsX = Math.ceil(Math.max(distToLeft, distToRight) / step);
@@ -76,11 +76,11 @@ export const AxisLayer: React.FC<AxisLayerProps> = ({ config, width, height, pix
                 const xNeg = centerX - i * step;
                 if (xPos <= width) {
                     pagesRender.push(<line key={`${pageKey}-txp${i}`} x1={xPos} y1={localCenterY - 5} x2={xPos} y2={localCenterY + 5} stroke={color} strokeWidth={2} />);
-                    pagesRender.push(<text key={`${pageKey}-lxp${i}`} x={xPos} y={localCenterY + 20} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{i}</text>);
+                    pagesRender.push(<text key={`${pageKey}-lxp${i}`} x={xPos} y={localCenterY + 20} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{formatAxisValue(i * xStep, xLabels)}</text>);
                 }
                 if (xNeg >= 0) {
                     pagesRender.push(<line key={`${pageKey}-txn${i}`} x1={xNeg} y1={localCenterY - 5} x2={xNeg} y2={localCenterY + 5} stroke={color} strokeWidth={2} />);
-                    pagesRender.push(<text key={`${pageKey}-lxn${i}`} x={xNeg} y={localCenterY + 20} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{-i}</text>);
+                    pagesRender.push(<text key={`${pageKey}-lxn${i}`} x={xNeg} y={localCenterY + 20} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{formatAxisValue(-i * xStep, xLabels)}</text>);
                 }
             }
 
@@ -91,21 +91,25 @@ export const AxisLayer: React.FC<AxisLayerProps> = ({ config, width, height, pix
                 
                 if (yPos >= pageTopY) {
                     pagesRender.push(<line key={`${pageKey}-typ${i}`} x1={centerX - 5} y1={yPos} x2={centerX + 5} y2={yPos} stroke={color} strokeWidth={2} />);
-                    pagesRender.push(<text key={`${pageKey}-lyp${i}`} x={centerX - 20} y={yPos + 4} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{i}</text>);
+                    pagesRender.push(<text key={`${pageKey}-lyp${i}`} x={centerX - 20} y={yPos + 4} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{formatAxisValue(i * yStep, yLabels)}</text>);
                 }
                 if (yNeg <= pageTopY + actualPageHeight) {
                     pagesRender.push(<line key={`${pageKey}-tyn${i}`} x1={centerX - 5} y1={yNeg} x2={centerX + 5} y2={yNeg} stroke={color} strokeWidth={2} />);
-                    pagesRender.push(<text key={`${pageKey}-lyn${i}`} x={centerX - 25} y={yNeg + 4} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{-i}</text>);
+                    pagesRender.push(<text key={`${pageKey}-lyn${i}`} x={centerX - 25} y={yNeg + 4} fill={color} fontSize="12" textAnchor="middle" fontFamily="monospace">{formatAxisValue(-i * yStep, yLabels)}</text>);
                 }
             }
 
             // Origin Label
             pagesRender.push(<text key={`${pageKey}-origin`} x={centerX - 15} y={localCenterY + 20} fill={color} fontSize="12" fontFamily="monospace">0</text>);
+
+            // Axis Names, next to the arrows
+            if (xName) pagesRender.push(<text key={`${pageKey}-name-x`} x={width - 10} y={localCenterY - 12} fill={color} fontSize="14" fontStyle="italic" textAnchor="end" fontFamily="serif">{xName}</text>);
+            if (yName) pagesRender.push(<text key={`${pageKey}-name-y`} x={centerX + 12} y={pageTopY + 16} fill={color} fontSize="14" fontStyle="italic" textAnchor="start" fontFamily="serif">{yName}</text>);
         }
     }
 
     return pagesRender;
-  }, [width, height, centerX, step, visible, showGrid, color, pageCount, actualPageHeight]);
+  }, [width, height, centerX, originOffsetY, step, visible, showGrid, color, pageCount, actualPageHeight, xStep, yStep, xLabels, yLabels, xName, yName]);
 
   return (
     <g className="axis-layer pointer-events-none select-none">
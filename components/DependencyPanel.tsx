@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Network, X, Unlink } from 'lucide-react';
+import { Shape, ShapeType } from '../types';
+import { buildDependencyGraph } from '../utils/dependencyGraph';
+import { getDependents, getRebindCandidates, canDetachFromParent } from '../utils/constraintSystem';
+
+interface DependencyPanelProps {
+  shapes: Shape[];
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  onDetach: (shapeId: string, parentId: string) => void;
+  onRebind: (shapeId: string, oldParentId: string, newParentId: string) => void;
+  onClose: () => void;
+}
+
+// Readable name of a shape: its labels, slider name or text, else its type and a short id
+const describeShape = (s: Shape | undefined): string => {
+  if (!s) return '?';
+  const type = s.type.toLowerCase().replace(/_/g, ' ');
+  if (s.slider) return `slider ${s.slider.name}`;
+  if (s.labels?.some(Boolean)) return `${type} ${s.labels.filter(Boolean).join('')}`;
+  if (s.text && s.type !== ShapeType.IMAGE) return `${type} "${s.text.length > 16 ? s.text.slice(0, 16) + '…' : s.text}"`;
+  return `${type} #${s.id.slice(0, 4)}`;
+};
+
+const ShapeChip = ({ shape, onSelect }: { shape?: Shape; onSelect: (id: string) => void }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); if (shape) onSelect(shape.id); }}
+    className="px-1.5 py-0.5 rounded bg-slate-100 hover:bg-blue-100 hover:text-blue-700 text-slate-600 truncate max-w-[140px]"
+  >
+    {describeShape(shape)}
+  </button>
+);
+
+export const DependencyPanel: React.FC<DependencyPanelProps> = ({ shapes, selectedIds, onSelect, onDetach, onRebind, onClose }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const byId = useMemo(() => new Map(shapes.map(s => [s.id, s])), [shapes]);
+  const graph = useMemo(() => buildDependencyGraph(shapes), [shapes]);
+
+  // Keep the entry of a shape selected on the canvas in view
+  useEffect(() => {
+    if (selectedIds.size !== 1) return;
+    const id = Array.from(selectedIds)[0];
+    listRef.current?.querySelector(`[data-entry-id="${id}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIds]);
+
+  const entries = shapes.filter(s => s.type !== ShapeType.RULER && s.type !== ShapeType.PROTRACTOR);
+
+  return (
+    <div className="absolute top-4 left-4 z-40 w-80 max-h-[70%] bg-white border border-slate-200 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-100 bg-slate-50">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-700"><Network size={16} className="text-blue-600" /> Dependencies</div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close"><X size={16} /></button>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+        {entries.length === 0 && <div className="p-4 text-xs text-slate-400 text-center">No shapes yet</div>}
+        {entries.map(s => {
+          const parents = graph.parents.get(s.id) || [];
+          const children = graph.children.get(s.id) || [];
+          const total = children.length > 0 ? getDependents(shapes, new Set([s.id])).length : 0;
+          const isSelected = selectedIds.has(s.id);
+          return (
+            <div key={s.id} data-entry-id={s.id} onClick={() => onSelect(s.id)} className={`px-3 py-2 text-xs cursor-pointer ${isSelected ? 'bg-blue-50' : 'hover:bg-slate-50'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className={`font-medium truncate ${isSelected ? 'text-blue-700' : 'text-slate-700'}`}>{describeShape(s)}</span>
+                <span className="shrink-0 text-[10px] uppercase tracking-wide text-slate-400">{s.constraint ? s.constraint.type.replace(/_/g, ' ') : 'free'}</span>
+              </div>
+              {parents.length > 0 && (
+                <div className="mt-1.5 space-y-1">
+                  {parents.map(pid => {
+                    const candidates = getRebindCandidates(shapes, s.id, pid);
+                    return (
+                      <div key={pid} className="flex items-center gap-1.5">
+                        <span className="text-slate-400 w-14 shrink-0">parent</span>
+                        <ShapeChip shape={byId.get(pid)} onSelect={onSelect} />
+                        <select
+                          value=""
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => { if (e.target.value) onRebind(s.id, pid, e.target.value); }}
+                          disabled={candidates.length === 0}
+                          className="ml-auto w-20 text-[11px] border border-slate-200 rounded px-1 py-0.5 bg-white disabled:opacity-40"
+                          title="Rebind to another parent"
+                        >
+                          <option value="">Rebind…</option>
+                          {candidates.map(c => <option key={c.id} value={c.id}>{describeShape(c)}</option>)}
+                        </select>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onDetach(s.id, pid); }}
+                          disabled={!canDetachFromParent(s)}
+                          className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                          title="Detach from this parent"
+                        >
+                          <Unlink size={12} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {children.length > 0 && (
+                <div className="mt-1.5 flex flex-wrap items-center gap-1">
+                  <span className="text-slate-400 min-w-[3.5rem] shrink-0">{total > children.length ? `used by (${total})` : 'used by'}</span>
+                  {children.map(cid => <ShapeChip key={cid} shape={byId.get(cid)} onSelect={onSelect} />)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback, useLayoutEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useLayoutEffect, useMemo } from 'react';
 import { ToolType, Shape, ShapeType, Point, AxisConfig, Constraint, TransientState } from '../types';
 import { DEFAULT_SHAPE_PROPS, MATH_SYMBOLS } from '../constants';
 import { AxisLayer } from './AxisLayer';
@@ -6,6 +6,7 @@ import { ShapeRenderer } from './ShapeRenderer';
 import { SelectionOverlay } from './SelectionOverlay';
 import { CompassOverlay } from './ConstructionTools';
 import { TopBar } from './TopBar';
+import { DependencyPanel } from './DependencyPanel';
 import { Sidebar } from './Sidebar';
 import { PropertiesPanel } from './PropertiesPanel';
 import { loadProject, saveProject, isElectron } from '../utils/exportUtils';
@@ -13,13 +14,21 @@ import {
   getSnapPoint, distance, getShapeCenter, 
   getRotatedCorners, rotatePoint, reflectPointAcrossLine, 
   getAngleDegrees, getAngleArcPath, recognizeFreehandShape, 
-  recalculateMarker, getClosestPointOnShape, getPixelsPerUnit, 
-  evaluateQuadratic, mathToScreen, screenToMath, 
-  generateQuadraticPath, getPolygonAngles, 
-  fitShapesToViewport, sanitizeLoadedShapes,
+  recalculateMarker, getClosestPointOnShape, getLengthScale, 
+  evaluateFunctionGraph, isPlottableGraph, mathToScreen, screenToMath, 
+  generateQuadraticPath, generateFunctionPath, generateCurvePath, generateFormulaPath, redrawFormulaShape, getPolygonAngles, 
+  getGraphHandlePoints, dragGraphHandle, fitShapesToViewport, sanitizeLoadedShapes,
   solveTriangleASA, snapToRuler
 } from '../utils/mathUtils';
-import { resolveConstraints, constrainPointToEdge, getDependents, constrainPointToPath } from '../utils/constraintSystem';
+import { resolveConstraints, evaluateConstraint, constrainPointToEdge, getDependents, constrainPointToPath, constrainPointToXAxis, solveDimensionConstraints, detachFromParent, rebindToParent, deleteShapes, DeleteMode } from '../utils/constraintSystem';
+import { validateConstraintEdit, DependencyCycleError } from '../utils/dependencyGraph';
+import { advanceAnimations } from '../utils/animation';
+import { mergeTrails } from '../utils/locusTrace';
+import { generateId } from '../utils/ids';
+import { getAxisMapping } from '../utils/axes';
+import { moveMeasurementLabel, evaluateMeasurement } from '../utils/measurements';
+import { createSlider, getNextSliderName, getSliderKnob, getSliderValueAt, SLIDER_KNOB_RADIUS } from '../utils/sliders';
+import { CONSTRUCTION_TOOLS, CONSTRUCTION_HINTS, ConstructionPick, toConstructionPick, acceptsPick, completeConstruction, createDerivedShape, isConstructionType } from '../utils/constructions';
 import { getHitShape, calculateMovedShape, calculateResizedShape, getSelectionBounds, calculateRotatedShape } from '../utils/shapeOperations';
 import { Plus, Loader2 } from 'lucide-react';
 // Use explicit paths for pdfjs-dist to ensure Vite resolves them correctly
@@ -72,12 +81,13 @@ export function Editor() {
   const [dragHandleIndex, setDragHandleIndex] = useState<number | null>(null); 
   const [activeShapeId, setActiveShapeId] = useState<string | null>(null);
   const [activeLineConstraints, setActiveLineConstraints] = useState<(Constraint | undefined)[]>([]);
-  const [snapIndicator, setSnapIndicator] = useState<(Point & { type?: 'endpoint' | 'midpoint' | 'center' | 'on_edge' }) | null>(null);
+  const [snapIndicator, setSnapIndicator] = useState<(Point & { type?: 'endpoint' | 'midpoint' | 'center' | 'on_edge' | 'intersection' }) | null>(null);
   const [cursorPos, setCursorPos] = useState<Point | null>(null); 
   const cursorPosRef = useRef<Point | null>(null);
   
   // DIRECT DOM MANIPULATION REFS
   const transientStateRef = useRef<TransientState | null>(null);
+  const traceFrameRef = useRef(0); // Pending frame of recordTransientTraces
   const domCacheRef = useRef<Map<string, Element>>(new Map());
   const initialShapeStateRef = useRef<Map<string, Shape>>(new Map()); // Snapshot for resize math
 
@@ -93,6 +103,7 @@ export function Editor() {
   const shapeBoundsCache = useRef<Map<string, { minX: number, minY: number, maxX: number, maxY: number }>>(new Map());
 
   const dragHistorySaved = useRef(false);
+  const sliderDragRef = useRef<string | null>(null); // Slider whose knob is being dragged
 
   const [hoveredShapeId, setHoveredShapeId] = useState<string | null>(null);
   
@@ -103,6 +114,7 @@ export function Editor() {
 
   const [pickingMirrorMode, setPickingMirrorMode] = useState(false);
   const [markingAnglesMode, setMarkingAnglesMode] = useState(false);
+  const [constructionPicks, setConstructionPicks] = useState<ConstructionPick[]>([]);
   const [autoLabelMode, setAutoLabelMode] = useState(false); 
   const [smartSketchMode, setSmartSketchMode] = useState(false);
   const [lockBackground, setLockBackground] = useState(true);
@@ -132,6 +144,8 @@ export function Editor() {
   const lastRotationMouseAngle = useRef<number>(0);
   const svgRef = useRef<SVGSVGElement>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [showDependencies, setShowDependencies] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<Set<string> | null>(null);
   
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -140,15 +154,24 @@ export function Editor() {
   const [pageCount, setPageCount] = useState(1);
   const [loadingState, setLoadingState] = useState<{ active: boolean; message: string }>({ active: false, message: '' });
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [constraintError, setConstraintError] = useState<string | null>(null);
+  const constraintErrorTimer = useRef<number | null>(null);
   // LOGICAL_CANVAS_WIDTH is fixed for coordinate stability
   const LOGICAL_CANVAS_WIDTH = 1600;
   const [canvasSize, setCanvasSize] = useState({ width: LOGICAL_CANVAS_WIDTH, height: window.innerHeight });
   const [zoom, setZoom] = useState(1);
 
-  const originY = pageHeight / 2;
   const svgHeight = Math.max(canvasSize.height, pageCount * pageHeight);
-  const pixelsPerUnit = getPixelsPerUnit(canvasSize.width, canvasSize.height, axisConfig.ticks);
-  const generateId = () => Math.random().toString(36).substr(2, 9);
+  // Memoised so the scale object only changes (and shapes are only redrawn) when the axes do
+  const axisMapping = useMemo(
+      () => getAxisMapping(axisConfig, canvasSize.width, canvasSize.height, pageHeight),
+      [axisConfig.ticks, axisConfig.xStep, axisConfig.yStep, axisConfig.origin?.x, axisConfig.origin?.y, canvasSize.width, canvasSize.height, pageHeight]
+  );
+  const { scale: pixelsPerUnit, originY } = axisMapping;
+  const lengthScale = getLengthScale(pixelsPerUnit); // Pixels per unit of length (rulers, measurements, default sizes)
+  // Snapping onto graphs and their crossings always needs the mapping; grid snapping only while the grid is shown
+  const snapMapping = { width: canvasSize.width, height: svgHeight, ppu: pixelsPerUnit, originY };
+  const snapGridStep = axisConfig.visible && axisConfig.showGrid ? axisMapping.gridStep : undefined;
 
   // Initialize PDF worker locally for offline/Electron support
   useEffect(() => {
@@ -197,6 +220,36 @@ export function Editor() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isDirty]);
 
+  const showConstraintError = (message: string) => {
+      setConstraintError(message);
+      if (constraintErrorTimer.current) window.clearTimeout(constraintErrorTimer.current);
+      constraintErrorTimer.current = window.setTimeout(() => setConstraintError(null), 3000);
+  };
+
+  // Report when an edit leaves dimensional constraints that cannot all be satisfied
+  const failingDimensionCount = useRef(0);
+  useEffect(() => {
+      const failing = shapes.filter(s => s.type === ShapeType.DIMENSION && s.dimension?.satisfied === false).length;
+      if (failing > failingDimensionCount.current) showConstraintError('Constraints are over-determined: some dimensions cannot be satisfied');
+      failingDimensionCount.current = failing;
+  }, [shapes]);
+
+  // Animation loop for constrained points; paused while the user is dragging
+  const isAnimating = !isDragging && shapes.some(s => s.animation?.playing);
+  useEffect(() => {
+      if (!isAnimating) return;
+      let frame = 0;
+      let last = performance.now();
+      const tick = (now: number) => {
+          const dt = Math.min((now - last) / 1000, 0.1);
+          last = now;
+          setShapes(prev => advanceAnimations(prev, dt, canvasSize.width, svgHeight, pixelsPerUnit, originY));
+          frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+  }, [isAnimating, canvasSize.width, svgHeight, pixelsPerUnit, originY]);
+
   const handleSave = async () => {
       const success = await saveProject(shapes, 'project');
       if (success) { 
@@ -236,15 +289,26 @@ export function Editor() {
   }, []);
 
   useEffect(() => {
-      setShapes(prev => prev.map(s => {
-          if (s.type === ShapeType.FUNCTION_GRAPH && s.formulaParams) {
-              const fType = s.functionType || 'quadratic';
-              const newPath = generateQuadraticPath(s.formulaParams, s.functionForm || 'standard', canvasSize.width, svgHeight, pixelsPerUnit, fType, originY);
-              return { ...s, pathData: newPath };
+      setShapes(prev => {
+        const redrawn = prev.map(s => {
+          if (isPlottableGraph(s)) {
+              return { ...s, pathData: generateFunctionPath(s, canvasSize.width, svgHeight, pixelsPerUnit, originY) };
           }
+          if (s.type === ShapeType.PARAMETRIC_CURVE || s.type === ShapeType.IMPLICIT_CURVE || s.type === ShapeType.INEQUALITY_REGION) {
+              return redrawFormulaShape(s, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+          }
+          // Measurements are in grid units, so they change with the scale
+          if (s.type === ShapeType.MEASUREMENT) return evaluateMeasurement(s, id => prev.find(p => p.id === id), getLengthScale(pixelsPerUnit)) || s;
+          // Areas and their bounds are defined in math units
+          if (s.type === ShapeType.AREA_REGION || s.constraint?.type === 'x_axis') return evaluateConstraint(s, id => prev.find(p => p.id === id), canvasSize.width, svgHeight, pixelsPerUnit, originY) || s;
           return s;
-      }));
-  }, [canvasSize.width, svgHeight, axisConfig.ticks, pixelsPerUnit, originY]);
+        });
+        // Points on graphs and curves (and what hangs off them: tangents, key points, areas) follow the axes
+        return redrawn
+            .filter(s => isPlottableGraph(s) || s.type === ShapeType.PARAMETRIC_CURVE || s.constraint?.type === 'x_axis')
+            .reduce((next, s) => resolveConstraints(next, s.id, canvasSize.width, svgHeight, pixelsPerUnit, originY), redrawn);
+      });
+  }, [canvasSize.width, svgHeight, pixelsPerUnit, originY]);
 
   const processImageFile = useCallback((file: File, position?: Point) => {
       const reader = new FileReader();
@@ -375,9 +439,34 @@ export function Editor() {
 
   const undo = () => { if (history.length === 0) return; const previousState = history[history.length - 1]; setHistory(prev => prev.slice(0, -1)); setShapes(previousState); setSelectedIds(new Set<string>()); setActiveShapeId(null); setIsDirty(true); };
 
+  // Shapes that other shapes still depend on ask whether their dependents go with them or stay as free shapes
   const deleteSelected = () => {
-      if (selectedIds.size === 0) return; saveHistory(); const idsToDelete = new Set<string>(Array.from(selectedIds) as string[]);
-      setShapes(prev => prev.filter(s => { if (idsToDelete.has(s.id)) return false; if (s.constraint && idsToDelete.has(s.constraint.parentId || '')) return false; if (s.type === ShapeType.MARKER && s.markerConfig && idsToDelete.has(s.markerConfig.targets[0].shapeId)) return false; return true; })); setSelectedIds(new Set<string>());
+      if (selectedIds.size === 0) return; const idsToDelete = new Set<string>(Array.from(selectedIds) as string[]);
+      if (getDependents(shapes, idsToDelete).length > 0) { setPendingDelete(idsToDelete); return; }
+      confirmDelete(idsToDelete, 'cascade');
+  };
+
+  const confirmDelete = (ids: Set<string>, mode: DeleteMode) => {
+      saveHistory(); setShapes(prev => deleteShapes(prev, ids, mode)); setSelectedIds(new Set<string>()); setPendingDelete(null);
+  };
+
+  // Dependency inspector: cut or move the link between a dependent and one of its parents in place
+  const detachDependency = (shapeId: string, parentId: string) => {
+      saveHistory();
+      setShapes(prev => detachFromParent(prev, shapeId, parentId));
+  };
+
+  const rebindDependency = (shapeId: string, oldParentId: string, newParentId: string) => {
+      let next: Shape[];
+      try {
+          next = rebindToParent(shapesRef.current, shapeId, oldParentId, newParentId, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+      } catch (err) {
+          if (!(err instanceof DependencyCycleError)) throw err;
+          showConstraintError(err.message);
+          return;
+      }
+      saveHistory();
+      setShapes(next);
   };
 
   const clearAll = () => { saveHistory(); setShapes([]); setHistory([]); setSelectedIds(new Set()); };
@@ -458,6 +547,7 @@ export function Editor() {
           const target = e.target as HTMLElement;
           if (target.tagName === 'INPUT') return;
           if (textEditing || angleEditing) return;
+          if (pendingDelete) { if (e.key === 'Escape') setPendingDelete(null); return; }
           if (selectedIds.size > 0 && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
               e.preventDefault(); const step = 1;
               const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0; const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
@@ -481,6 +571,7 @@ export function Editor() {
               if (textEditing) { cancelTextEditing(); return; }
               if (pickingMirrorMode) { setPickingMirrorMode(false); return; }
               if (markingAnglesMode) { setMarkingAnglesMode(false); return; }
+              if (constructionPicks.length > 0) { setConstructionPicks([]); setSelectedIds(new Set()); return; }
               if (activeShapeId) { setShapes(prev => prev.filter(s => s.id !== activeShapeId)); setActiveShapeId(null); setIsDragging(false); setTool(ToolType.SELECT); return; }
               if (tool === ToolType.COMPASS && compassState.center) { setCompassState({ center: null, radiusPoint: null, startAngle: null, accumulatedRotation: 0, lastMouseAngle: 0 }); setCompassPreviewPath(null); return; }
               if (selectedIds.size > 0) { setSelectedIds(new Set()); return; }
@@ -491,7 +582,10 @@ export function Editor() {
       const handleKeyUp = (e: KeyboardEvent) => { if (e.key === 'Alt') setIsAltPressed(false); if (e.key === 'Shift') setIsShiftPressed(false); };
       window.addEventListener('keydown', handleKeyDown); window.addEventListener('keyup', handleKeyUp);
       return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); };
-  }, [selectedIds, textEditing, angleEditing, shapes, history, activeShapeId, pickingMirrorMode, markingAnglesMode, tool, compassState, clipboard, saveHistory]); 
+  }, [selectedIds, textEditing, angleEditing, shapes, history, activeShapeId, pickingMirrorMode, markingAnglesMode, constructionPicks, tool, compassState, clipboard, saveHistory, pendingDelete]); 
+
+  // Picks only make sense for the tool that collected them
+  useEffect(() => { setConstructionPicks([]); }, [tool]);
 
   const getMousePos = (e: React.PointerEvent | PointerEvent | React.MouseEvent | MouseEvent, snap: boolean = true): Point => {
     if (!svgRef.current) return { x: 0, y: 0, p: 0.5 };
@@ -511,16 +605,15 @@ export function Editor() {
             ? [activeShapeId] 
             : (tool === ToolType.SELECT && isDragging && selectedIds.size > 0 ? Array.from(selectedIds) : []);
 
-        const gridSnapConfig = (axisConfig.visible && axisConfig.showGrid) ? { width: canvasSize.width, height: svgHeight, ppu: pixelsPerUnit } : undefined;
-        const { point, snapped, type } = getSnapPoint(raw, shapes, excludeIds, gridSnapConfig);
+        const { point, snapped, type } = getSnapPoint(raw, shapes, excludeIds, snapMapping, snapGridStep);
         
         if (!snapped && hoveredShapeId) {
             const shape = shapes.find(s => s.id === hoveredShapeId);
-            if (shape?.type === ShapeType.FUNCTION_GRAPH && shape.formulaParams) {
+            if (shape && isPlottableGraph(shape)) {
                 const mp = screenToMath(raw, canvasSize.width, svgHeight, pixelsPerUnit, originY);
-                const my = evaluateQuadratic(mp.x, shape.formulaParams, shape.functionForm, shape.functionType || 'quadratic');
+                const my = evaluateFunctionGraph(shape, mp.x);
                 const sp = mathToScreen({ x: mp.x, y: my }, canvasSize.width, svgHeight, pixelsPerUnit, originY);
-                if (Math.abs(sp.y - raw.y) < 20) { setSnapIndicator({ ...sp, type: 'midpoint' }); return { ...sp, p: pressure }; }
+                if (!isNaN(my) && Math.abs(sp.y - raw.y) < 20) { setSnapIndicator({ ...sp, type: 'midpoint' }); return { ...sp, p: pressure }; }
             }
         }
         setSnapIndicator(snapped ? { ...point, type } : null); return { ...point, p: pressure };
@@ -676,8 +769,7 @@ export function Editor() {
 
   // Unified logic to determine if a point should be bound to a shape's edge or another point
   const bindPointToShapes = (pos: Point, excludeIds: string[] = [], isCreatingLine: boolean = false): { point: Point, constraint?: Constraint } => {
-    const gridSnapConfig = (axisConfig.visible && axisConfig.showGrid) ? { width: canvasSize.width, height: svgHeight, ppu: pixelsPerUnit } : undefined;
-    const snapResult = getSnapPoint(pos, shapesRef.current.filter(s => !excludeIds.includes(s.id)), [], gridSnapConfig);
+    const snapResult = getSnapPoint(pos, shapesRef.current.filter(s => !excludeIds.includes(s.id)), [], snapMapping, snapGridStep);
     
     let finalConstraint = snapResult.constraint;
     
@@ -688,12 +780,16 @@ export function Editor() {
         if (!finalConstraint || finalConstraint.type !== 'points_link') {
             const nearPoint = shapesRef.current.find(s => s.type === ShapeType.POINT && !excludeIds.includes(s.id) && distance(pos, s.points[0]) < 10);
             if (nearPoint) finalConstraint = { type: 'points_link', parentId: nearPoint.id };
+            // Crossings only position the endpoint; a line cannot be owned by two curves
+            else if (finalConstraint?.type === 'intersection') finalConstraint = undefined;
         }
     } else {
         // POINTS: Must NEVER link to another POINT. They only link to EDGES or PATHS.
         if (finalConstraint?.type === 'points_link') {
             finalConstraint = undefined; // Reject point-to-point binding
         }
+
+        // A point dropped on the crossing of two shapes keeps the 'intersection' constraint from getSnapPoint
     }
 
     return {
@@ -740,7 +836,7 @@ export function Editor() {
         : { point: rawPos, constraint: undefined };
 
     dragHistorySaved.current = false;
-    if (tool !== ToolType.SELECT && tool !== ToolType.COMPASS && tool !== ToolType.ERASER && tool !== ToolType.RULER && !pickingMirrorMode && !markingAnglesMode) setSelectedIds(new Set());
+    if (tool !== ToolType.SELECT && tool !== ToolType.COMPASS && tool !== ToolType.ERASER && tool !== ToolType.RULER && !CONSTRUCTION_TOOLS[tool] && !pickingMirrorMode && !markingAnglesMode) setSelectedIds(new Set());
     
     if (tool === ToolType.LINE) {
         if (activeShapeId) { 
@@ -774,23 +870,66 @@ export function Editor() {
         }
     }
     if (tool === ToolType.ERASER) { 
-        saveHistory(); setIsDragging(true); 
         const hit = getHitShape(rawPos, getHittableShapes(rawPos), canvasSize.width, svgHeight, pixelsPerUnit, originY, 12); 
-        if (hit && hit.type !== ShapeType.IMAGE) { setShapes(prev => prev.filter(s => (s.id !== hit.id && !(s.constraint?.parentId === hit.id) && !(s.type === ShapeType.MARKER && s.markerConfig?.targets[0].shapeId === hit.id)))); } return; 
+        if (hit && hit.type !== ShapeType.IMAGE && getDependents(shapes, new Set([hit.id])).length > 0) { setPendingDelete(new Set([hit.id])); return; }
+        saveHistory(); setIsDragging(true); 
+        if (hit && hit.type !== ShapeType.IMAGE) { setShapes(prev => deleteShapes(prev, new Set([hit.id]), 'cascade')); } return; 
     }
     if (tool === ToolType.COMPASS) { if (!compassState.center) { setCompassState({ ...compassState, center: pos }); } else { const startAngle = getAngleDegrees(compassState.center, pos); setCompassState({ ...compassState, radiusPoint: pos, startAngle: startAngle, lastMouseAngle: startAngle, accumulatedRotation: 0 }); } return; }
     if (tool === ToolType.RULER) { const existingRuler = shapes.find(s => s.type === ShapeType.RULER); if (existingRuler) { setSelectedIds(new Set([existingRuler.id])); setDragStartPos(rawPos); setIsDragging(true); refreshDomCache(new Set([existingRuler.id])); return; } saveHistory(); const id = generateId(); const width = 400, height = 40; const center = pos; const newShape: Shape = { id, type: ShapeType.RULER, points: [{ x: center.x - width/2, y: center.y - height/2 }, { x: center.x + width/2, y: center.y + height/2 }], fill: 'transparent', stroke: '#94a3b8', strokeWidth: 1, rotation: 0 }; setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([id])); setTool(ToolType.SELECT); return; }
+    if (tool === ToolType.SLIDER) { saveHistory(); const id = generateId(); const newShape = createSlider(id, getNextSliderName(shapes), rawPos, currentStyle.stroke); setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([id])); setTool(ToolType.SELECT); return; }
     if (pickingMirrorMode) { const line = shapes.find(s => (s.type === ShapeType.LINE || s.type === ShapeType.FREEHAND) && distance(pos, getClosestPointOnShape(pos, s)) < 10); if (line) handleFold(line.id); return; }
-    if (tool === ToolType.FUNCTION || tool === ToolType.LINEAR_FUNCTION) { 
+    const constructionKind = CONSTRUCTION_TOOLS[tool];
+    if (constructionKind) {
+        // Collect parents one click at a time; the picked shapes stay selected as feedback
+        const hit = getHitShape(rawPos, getHittableShapes(rawPos), canvasSize.width, svgHeight, pixelsPerUnit, originY, 12);
+        const pick = hit ? toConstructionPick(hit, rawPos) : null;
+        if (!pick || !acceptsPick(constructionKind, constructionPicks, pick)) return;
+        const picks = [...constructionPicks, pick];
+        const constraint = completeConstruction(constructionKind, picks);
+        if (!constraint) { setConstructionPicks(picks); setSelectedIds(new Set(picks.map(p => p.shapeId))); return; }
+
+        setConstructionPicks([]);
+        const newShape = createDerivedShape(generateId(), constraint, id => shapes.find(s => s.id === id), currentStyle);
+        if (!newShape) { setSelectedIds(new Set()); return; }
+        saveHistory(); setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([newShape.id])); return;
+    }
+    if (tool === ToolType.FUNCTION || tool === ToolType.LINEAR_FUNCTION || tool === ToolType.INVERSE_FUNCTION || tool === ToolType.EXPRESSION_FUNCTION) { 
         const hit = getHitShape(rawPos, getHittableShapes(rawPos), canvasSize.width, svgHeight, pixelsPerUnit, originY);
         if (hit && hit.type === ShapeType.FUNCTION_GRAPH) {
             setTool(ToolType.SELECT); setSelectedIds(new Set([hit.id])); setActiveShapeId(null); setDragStartPos(rawPos); setIsDragging(true); refreshDomCache(new Set([hit.id])); return;
         }
-        saveHistory(); const id = generateId(); const isLinear = tool === ToolType.LINEAR_FUNCTION; const params = isLinear ? { k: 1, b: 0 } : { a: 1, b: 0, c: 0, h: 0, k: 0 }; const fType = isLinear ? 'linear' : 'quadratic'; const pathData = generateQuadraticPath(params, 'standard', canvasSize.width, svgHeight, pixelsPerUnit, fType, originY); const newShape: Shape = { id, type: ShapeType.FUNCTION_GRAPH, points: [], formulaParams: params, functionForm: 'standard', functionType: fType, pathData, fill: 'none', stroke: currentStyle.stroke, strokeWidth: currentStyle.strokeWidth, rotation: 0 }; setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([id])); return; 
+        if (tool === ToolType.EXPRESSION_FUNCTION) {
+            const graph: Shape = { id: generateId(), type: ShapeType.FUNCTION_GRAPH, points: [], functionType: 'expression', expression: 'sin(x)', expressionScope: {}, fill: 'none', stroke: currentStyle.stroke, strokeWidth: currentStyle.strokeWidth, rotation: 0 };
+            const newShape = { ...graph, pathData: generateFunctionPath(graph, canvasSize.width, svgHeight, pixelsPerUnit, originY) };
+            saveHistory(); setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([newShape.id])); return;
+        }
+        saveHistory(); const id = generateId(); const isLinear = tool === ToolType.LINEAR_FUNCTION; const isInverse = tool === ToolType.INVERSE_FUNCTION; const params = isLinear ? { k: 1, b: 0 } : isInverse ? { k: 1 } : { a: 1, b: 0, c: 0, h: 0, k: 0 }; const fType = isLinear ? 'linear' : isInverse ? 'inverse' : 'quadratic'; const pathData = generateQuadraticPath(params, 'standard', canvasSize.width, svgHeight, pixelsPerUnit, fType, originY); const newShape: Shape = { id, type: ShapeType.FUNCTION_GRAPH, points: [], formulaParams: params, functionForm: 'standard', functionType: fType, pathData, fill: 'none', stroke: currentStyle.stroke, strokeWidth: currentStyle.strokeWidth, rotation: 0 }; setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([id])); return; 
+    }
+    if (tool === ToolType.CURVE) {
+        // Starts as the circle x = 3cos(t), y = 3sin(t); the formulas are edited in the sidebar
+        const curve: Shape = { id: generateId(), type: ShapeType.PARAMETRIC_CURVE, points: [], curve: { kind: 'parametric', x: '3cos(t)', y: '3sin(t)', tMin: 0, tMax: 2 * Math.PI }, expressionScope: {}, fill: 'none', stroke: currentStyle.stroke, strokeWidth: currentStyle.strokeWidth, rotation: 0 };
+        const newShape = { ...curve, pathData: generateCurvePath(curve, canvasSize.width, svgHeight, pixelsPerUnit, originY) };
+        saveHistory(); setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([newShape.id])); return;
+    }
+    if (tool === ToolType.IMPLICIT_CURVE) {
+        const curve: Shape = { id: generateId(), type: ShapeType.IMPLICIT_CURVE, points: [], equation: 'x^2/9 + y^2/4 = 1', expressionScope: {}, fill: 'none', stroke: currentStyle.stroke, strokeWidth: currentStyle.strokeWidth, rotation: 0 };
+        const newShape = { ...curve, pathData: generateFormulaPath(curve, canvasSize.width, svgHeight, pixelsPerUnit, originY) };
+        saveHistory(); setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([newShape.id])); return;
+    }
+    if (tool === ToolType.INEQUALITY) {
+        // Shaded in the stroke colour; the inequalities are edited in the sidebar
+        const region: Shape = { id: generateId(), type: ShapeType.INEQUALITY_REGION, points: [], inequalities: ['y > 2x + 1'], expressionScope: {}, fill: currentStyle.stroke, stroke: currentStyle.stroke, strokeWidth: currentStyle.strokeWidth, rotation: 0 };
+        const newShape = redrawFormulaShape(region, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+        saveHistory(); setShapes(prev => [...prev, newShape]); setSelectedIds(new Set([newShape.id])); return;
     }
     if (tool === ToolType.SELECT) { 
         const hit = getHitShape(rawPos, getHittableShapes(rawPos), canvasSize.width, svgHeight, pixelsPerUnit, originY); 
 
+        if (hit?.type === ShapeType.SLIDER && hit.slider && distance(rawPos, getSliderKnob(hit)) <= SLIDER_KNOB_RADIUS + 4) {
+            // Dragging the knob changes the value instead of moving the slider
+            saveHistory(); setSelectedIds(new Set([hit.id])); sliderDragRef.current = hit.id; setIsDragging(true); return;
+        }
         if (hit) { 
             let newSelection: Set<string>;
             if (e.shiftKey || e.ctrlKey) { newSelection = new Set(selectedIds); if (newSelection.has(hit.id)) newSelection.delete(hit.id); else newSelection.add(hit.id); } 
@@ -829,15 +968,25 @@ export function Editor() {
     };
     cursorPosRef.current = rawPos;
 
-    // Snapping configuration for detecting constraints
-    const gridSnapConfig = (axisConfig.visible && axisConfig.showGrid) ? { width: canvasSize.width, height: svgHeight, ppu: pixelsPerUnit } : undefined;
+    if (sliderDragRef.current) {
+        const sliderId = sliderDragRef.current;
+        setShapes(prev => {
+            const slider = prev.find(s => s.id === sliderId);
+            if (!slider?.slider) return prev;
+            const value = getSliderValueAt(slider, rawPos);
+            if (value === slider.slider.value) return prev;
+            const next = prev.map(s => s.id === sliderId ? { ...s, slider: { ...s.slider!, value } } : s);
+            return resolveConstraints(next, sliderId, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+        });
+        return;
+    }
     
     // CRITICAL UX FIX: Disable snapping for FREEHAND tool
     const shouldSnap = tool !== ToolType.FREEHAND;
 
     // Detect snapping target (all shapes except current dragging selection and the active shape being drawn)
     const snapResult = shouldSnap 
-        ? getSnapPoint(rawPos, shapesRef.current.filter(s => !selectedIds.has(s.id) && s.id !== activeShapeId), [], gridSnapConfig)
+        ? getSnapPoint(rawPos, shapesRef.current.filter(s => !selectedIds.has(s.id) && s.id !== activeShapeId), [], snapMapping, snapGridStep)
         : { point: rawPos, snapped: false, constraint: undefined, type: undefined };
         
     const pos = snapResult.point;
@@ -861,7 +1010,13 @@ export function Editor() {
         })); 
     }
     if (tool === ToolType.COMPASS && compassState.radiusPoint) { const center = compassState.center!; const radius = distance(center, compassState.radiusPoint); const currentMouseAngle = getAngleDegrees(center, rawPos); let delta = currentMouseAngle - compassState.lastMouseAngle; if (delta > 180) delta -= 360; if (delta < -180) delta += 360; const newAccumulated = compassState.accumulatedRotation + delta; setCompassState(prev => ({ ...prev, lastMouseAngle: currentMouseAngle, accumulatedRotation: newAccumulated })); const startAngle = compassState.startAngle!; const endAngle = startAngle + newAccumulated; setCompassPreviewPath(getAngleArcPath(center, null, null, radius, startAngle, endAngle)); return; }
-    if (tool === ToolType.ERASER && isDragging) { const hit = getHitShape(rawPos, shapes, canvasSize.width, svgHeight, pixelsPerUnit, originY, 12); if (hit && hit.type !== ShapeType.IMAGE) setShapes(prev => prev.filter(s => (s.id !== hit.id && !(s.constraint?.parentId === hit.id) && !(s.type === ShapeType.MARKER && s.markerConfig?.targets[0].shapeId === hit.id)))); return; }
+    if (tool === ToolType.ERASER && isDragging) { 
+        const hit = getHitShape(rawPos, shapes, canvasSize.width, svgHeight, pixelsPerUnit, originY, 12); 
+        if (!hit || hit.type === ShapeType.IMAGE) return;
+        // Swiping over a shape that others depend on stops the swipe and asks, like deleting the selection
+        if (getDependents(shapes, new Set([hit.id])).length > 0) { setIsDragging(false); setPendingDelete(new Set([hit.id])); return; }
+        setShapes(prev => deleteShapes(prev, new Set([hit.id]), 'cascade')); return; 
+    }
     if (tool === ToolType.SELECT && selectionStartRef.current && isDragging && selectionRectRef.current) { const start = selectionStartRef.current; const current = rawPos; const x = Math.min(start.x, current.x); const y = Math.min(start.y, current.y); const w = Math.abs(current.x - start.x); const h = Math.abs(current.y - start.y); selectionRectRef.current.setAttribute('x', x.toString()); selectionRectRef.current.setAttribute('y', y.toString()); selectionRectRef.current.setAttribute('width', w.toString()); selectionRectRef.current.setAttribute('height', h.toString()); return; }
 
     if (isRotating && rotationCenter && activeShapeId === null) { 
@@ -869,6 +1024,7 @@ export function Editor() {
         const delta = currentAngle - lastRotationMouseAngle.current; 
         transientStateRef.current = { rotation: delta, rotationCenter };
         updateTransientVisuals(transientStateRef.current);
+        recordTransientTraces();
         return; 
     }
     
@@ -887,7 +1043,9 @@ export function Editor() {
 
         if (singleShape) {
             const snapshotShape = initialShapesArray.find(s => s.id === singleShape.id) || singleShape;
-            const updatedShape = calculateResizedShape(snapshotShape, pos, dragHandleIndex, isShiftPressed);
+            const updatedShape = snapshotShape.type === ShapeType.FUNCTION_GRAPH
+                ? dragGraphHandle(snapshotShape, dragHandleIndex, pos, canvasSize.width, svgHeight, pixelsPerUnit, originY, axisMapping.gridStep)
+                : calculateResizedShape(snapshotShape, pos, dragHandleIndex, isShiftPressed);
             setShapes(prev => {
                 let nextShapes = prev.map(s => {
                     if (s.id === singleShape.id) return updatedShape;
@@ -957,13 +1115,19 @@ export function Editor() {
         if (isPointDrag) {
              const draggingShape = shapesRef.current.find(s => s.id === singleSelId);
              if (!draggingShape) return;
+             // Intersection, key and construction points are fully determined by their parents and cannot be dragged
+             if (draggingShape.constraint?.type === 'intersection' || draggingShape.constraint?.type === 'key_point' || isConstructionType(draggingShape.constraint?.type)) return;
 
              let newPos = pos;
              let newConstraint = snapResult.constraint;
 
              // 1. Logic for points ALREADY on edges or paths (Stable sliding)
              // CRITICAL: We prioritize the existing constraint over the snap result
-             if (draggingShape.constraint) {
+             if (draggingShape.constraint?.type === 'x_axis') {
+                  const { point: constrainedPos, x } = constrainPointToXAxis(pos, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+                  newPos = constrainedPos;
+                  newConstraint = { ...draggingShape.constraint, paramX: x };
+             } else if (draggingShape.constraint) {
                   const parent = shapesRef.current.find(s => s.id === draggingShape.constraint!.parentId);
                   if (parent) {
                       if (draggingShape.constraint.type === 'on_edge' && draggingShape.constraint.edgeIndex !== undefined) {
@@ -978,12 +1142,24 @@ export function Editor() {
                   }
              }
 
+             // Reject bindings that would make the point depend on itself (e.g. onto a line drawn from it)
+             if (newConstraint && newConstraint !== draggingShape.constraint) {
+                 try {
+                     validateConstraintEdit(shapesRef.current, singleSelId, newConstraint);
+                 } catch (err) {
+                     if (!(err instanceof DependencyCycleError)) throw err;
+                     newConstraint = draggingShape.constraint;
+                     showConstraintError(err.message);
+                 }
+             }
+
              // 2. Hybrid Drive: Update REAL state immediately for point dragging
              // This ensures perfect edge locking and real-time line stretching via resolveConstraints
              setShapes(prev => {
                  const next = prev.map(s => s.id === singleSelId ? { ...s, points: [newPos], constraint: newConstraint } : s);
-                 // Propagate to lines/markers immediately
-                 return resolveConstraints(next, singleSelId, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+                 // Propagate to lines/markers immediately, then keep the dimensions satisfied around the dragged point
+                 const resolved = resolveConstraints(next, singleSelId, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+                 return solveDimensionConstraints(resolved, [{ shapeId: singleSelId, pointIndex: 0 }], canvasSize.width, svgHeight, pixelsPerUnit, originY).shapes;
              });
              
              // Ensure any transient leftovers are cleared
@@ -996,9 +1172,91 @@ export function Editor() {
         const dx = rawPos.x - dragStartPos.x, dy = rawPos.y - dragStartPos.y; 
         transientStateRef.current = { dx, dy };
         updateTransientVisuals(transientStateRef.current);
+        recordTransientTraces();
     }
   };
 
+  // Commits a whole-selection move or rotation (the transient drag state) and resolves everything that depends on it
+  const applyTransientMove = (prev: Shape[], tState: TransientState): Shape[] => {
+      const { dx, dy, rotation, rotationCenter: rotCenter } = tState;
+      let updatedShapes = prev;
+      if ((dx && dx !== 0) || (dy && dy !== 0)) {
+          // 1. Move the shapes that were directly selected
+          updatedShapes = prev.map((s: Shape) => {
+              if (selectedIds.has(s.id)) { 
+                  // Derived constructions, tangents, derivatives, areas (and dimension labels) are fully determined by their parents
+                  if (isConstructionType(s.constraint?.type) || s.constraint?.type === 'tangent' || s.constraint?.type === 'derivative' || s.constraint?.type === 'area' || s.type === ShapeType.DIMENSION) return s;
+                  // Measurement labels remember where they were dropped relative to their target (which carries them along if moved too)
+                  if (s.type === ShapeType.MEASUREMENT) return s.constraint?.parents?.some(pid => pid && selectedIds.has(pid)) ? s : moveMeasurementLabel(s, dx || 0, dy || 0);
+                  const moved = calculateMovedShape(s, dx || 0, dy || 0, pixelsPerUnit, [], canvasSize.width, svgHeight, originY);
+                  
+                  // Handle special point binding on release (for free points)
+                  if (s.type === ShapeType.POINT) {
+                      if (s.constraint?.type === 'intersection' || s.constraint?.type === 'key_point') return s;
+                      if (s.constraint?.type === 'x_axis') {
+                          const { point: constrainedPos, x } = constrainPointToXAxis(moved.points[0], canvasSize.width, svgHeight, pixelsPerUnit, originY);
+                          return { ...moved, points: [constrainedPos], constraint: { ...s.constraint, paramX: x } };
+                      }
+                      if (s.constraint && (s.constraint.type === 'on_edge' || s.constraint.type === 'on_path')) {
+                          const parent = prev.find(p => p.id === s.constraint!.parentId);
+                          if (parent) {
+                              if (s.constraint.type === 'on_edge' && s.constraint.edgeIndex !== undefined) {
+                                  const { point: constrainedPos, t } = constrainPointToEdge(moved.points[0], parent, s.constraint.edgeIndex);
+                                  return { ...moved, points: [constrainedPos], constraint: { ...s.constraint!, paramT: t } };
+                              } else if (s.constraint.type === 'on_path' && (parent.type === ShapeType.CIRCLE || parent.type === ShapeType.ELLIPSE)) {
+                                  const { point: constrainedPos, angle } = constrainPointToPath(moved.points[0], parent);
+                                  return { ...moved, points: [constrainedPos], constraint: { ...s.constraint!, paramAngle: angle } };
+                              }
+                          }
+                      } else {
+                          // Only attempt NEW binding if it wasn't already constrained
+                          const { point: finalPos, constraint } = bindPointToShapes(moved.points[0], [s.id], false);
+                          return { ...moved, points: [finalPos], constraint };
+                      }
+                  }
+                  return moved;
+              }
+              return s;
+          });
+      }
+      if (rotation && rotCenter) {
+          updatedShapes = updatedShapes.map((s: Shape) => {
+              if (!selectedIds.has(s.id)) return s;
+              return calculateRotatedShape(s, rotation, rotCenter, isShiftPressed);
+          });
+      }
+      
+      // 2. CRITICAL: Recursively resolve ALL constraints.
+      let finalShapes = updatedShapes;
+      
+      // We must resolve starting from each moved item.
+      // If a Point was moved, it will trigger Line update.
+      // If a Triangle was moved, it will trigger Point update, which then triggers Line update.
+      selectedIds.forEach(id => {
+          finalShapes = resolveConstraints(finalShapes, id, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+      });
+
+      return finalShapes.map((s: Shape) => (s.type === ShapeType.MARKER && s.markerConfig && selectedIds.has(s.markerConfig.targets[0].shapeId)) ? (recalculateMarker(s, finalShapes) || s) : s);
+  };
+
+  // Whole-shape drags are only previewed until pointer-up; traced points that follow the selection
+  // still record their locus, once per animation frame, from the positions the move would give them
+  const recordTransientTraces = () => {
+      if (traceFrameRef.current) return;
+      const moved = shapesRef.current.filter(s => selectedIds.has(s.id));
+      if (![...moved, ...getDependents(shapesRef.current, selectedIds)].some(s => s.isTracing)) return;
+      traceFrameRef.current = requestAnimationFrame(flushTransientTraces);
+  };
+
+  // Records the frame recordTransientTraces is waiting for right away (before the move is committed)
+  const flushTransientTraces = () => {
+      if (!traceFrameRef.current) return;
+      cancelAnimationFrame(traceFrameRef.current);
+      traceFrameRef.current = 0;
+      const tState = transientStateRef.current;
+      if (tState) setShapes(prev => mergeTrails(prev, applyTransientMove(prev, tState)));
+  };
+
   const handlePointerUp = (e: React.PointerEvent) => {
       if (isScrollingRef.current) { 
           isScrollingRef.current = false; 
@@ -1006,6 +1264,7 @@ export function Editor() {
           try { (e.currentTarget as Element).releasePointerCapture(e.pointerId); } catch(err) {}
           return; 
       }
+      if (sliderDragRef.current) { sliderDragRef.current = null; setIsDragging(false); return; }
       const rawPos = getMousePos(e, false);
       
       if (tool === ToolType.SELECT && selectionStartRef.current && isDragging) {
@@ -1036,7 +1295,9 @@ export function Editor() {
                 const id = Array.from(selectedIds)[0];
                 const snapshot = snapshots.get(id);
                 if (snapshot) {
-                    const updated = calculateResizedShape(snapshot, finalPos, dragHandleIndex!, isShiftPressed);
+                    const updated = snapshot.type === ShapeType.FUNCTION_GRAPH
+                        ? dragGraphHandle(snapshot, dragHandleIndex!, finalPos, canvasSize.width, svgHeight, pixelsPerUnit, originY, axisMapping.gridStep)
+                        : calculateResizedShape(snapshot, finalPos, dragHandleIndex!, isShiftPressed);
                     let nextShapes = currentShapes.map((s) => {
                         if (s.id === id) return updated;
                         // Update attached markers
@@ -1045,7 +1306,10 @@ export function Editor() {
                         }
                         return s;
                     });
-                    return resolveConstraints(nextShapes, id, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+                    nextShapes = resolveConstraints(nextShapes, id, canvasSize.width, svgHeight, pixelsPerUnit, originY);
+                    // Vertex handles pin the dragged vertex; the solver moves the rest of the figure
+                    const pinned = dragHandleIndex! >= 0 && dragHandleIndex! < updated.points.length ? [{ shapeId: id, pointIndex: dragHandleIndex! }] : [];
+                    return solveDimensionConstraints(nextShapes, pinned, canvasSize.width, svgHeight, pixelsPerUnit, originY).shapes;
                 }
              }
 
@@ -1076,59 +1340,9 @@ export function Editor() {
 
       const tState = transientStateRef.current;
       if (tState) {
+          flushTransientTraces();
           saveHistory();
-          const { dx, dy, rotation, rotationCenter: rotCenter } = tState;
-          setShapes((prev: Shape[]) => {
-              let updatedShapes = prev;
-              if ((dx && dx !== 0) || (dy && dy !== 0)) {
-                  // 1. Move the shapes that were directly selected
-                  updatedShapes = prev.map((s: Shape) => {
-                      if (selectedIds.has(s.id)) { 
-                          const moved = calculateMovedShape(s, dx || 0, dy || 0, pixelsPerUnit, [], canvasSize.width, svgHeight, originY);
-                          
-                          // Handle special point binding on release (for free points)
-                          if (s.type === ShapeType.POINT) {
-                              if (s.constraint && (s.constraint.type === 'on_edge' || s.constraint.type === 'on_path')) {
-                                  const parent = prev.find(p => p.id === s.constraint!.parentId);
-                                  if (parent) {
-                                      if (s.constraint.type === 'on_edge' && s.constraint.edgeIndex !== undefined) {
-                                          const { point: constrainedPos, t } = constrainPointToEdge(moved.points[0], parent, s.constraint.edgeIndex);
-                                          return { ...moved, points: [constrainedPos], constraint: { ...s.constraint!, paramT: t } };
-                                      } else if (s.constraint.type === 'on_path' && (parent.type === ShapeType.CIRCLE || parent.type === ShapeType.ELLIPSE)) {
-                                          const { point: constrainedPos, angle } = constrainPointToPath(moved.points[0], parent);
-                                          return { ...moved, points: [constrainedPos], constraint: { ...s.constraint!, paramAngle: angle } };
-                                      }
-                                  }
-                              } else {
-                                  // Only attempt NEW binding if it wasn't already constrained
-                                  const { point: finalPos, constraint } = bindPointToShapes(moved.points[0], [s.id], false);
-                                  return { ...moved, points: [finalPos], constraint };
-                              }
-                          }
-                          return moved;
-                      }
-                      return s;
-                  });
-              }
-              if (rotation && rotCenter) {
-                  updatedShapes = updatedShapes.map((s: Shape) => {
-                      if (!selectedIds.has(s.id)) return s;
-                      return calculateRotatedShape(s, rotation, rotCenter, isShiftPressed);
-                  });
-              }
-              
-              // 2. CRITICAL: Recursively resolve ALL constraints.
-              let finalShapes = updatedShapes;
-              
-              // We must resolve starting from each moved item.
-              // If a Point was moved, it will trigger Line update.
-              // If a Triangle was moved, it will trigger Point update, which then triggers Line update.
-              selectedIds.forEach(id => {
-                  finalShapes = resolveConstraints(finalShapes, id, canvasSize.width, svgHeight, pixelsPerUnit, originY);
-              });
-
-              return finalShapes.map((s: Shape) => (s.type === ShapeType.MARKER && s.markerConfig && selectedIds.has(s.markerConfig.targets[0].shapeId)) ? (recalculateMarker(s, finalShapes) || s) : s);
-          });
+          setShapes((prev: Shape[]) => applyTransientMove(prev, tState));
           updateTransientVisuals(null);
           transientStateRef.current = null;
           domCacheRef.current.clear();
@@ -1168,8 +1382,8 @@ export function Editor() {
           const s = shapes.find(sh => sh.id === activeShapeId);
           if (s && distance(s.points[0], rawPos) < 10) { 
               const cx = rawPos.x, cy = rawPos.y; 
-              if (tool === ToolType.RECTANGLE || tool === ToolType.SQUARE) { const wPx = 2 * pixelsPerUnit, hPx = (tool === ToolType.SQUARE ? 2 : 1) * pixelsPerUnit; setShapes((prev: Shape[]) => prev.map((sh: Shape) => sh.id === activeShapeId ? { ...sh, points: [{ x: cx - wPx/2, y: cy - hPx/2 }, { x: cx + wPx/2, y: cy + hPx/2 }] } : sh)); } 
-              else if (tool === ToolType.TRIANGLE) { const sizePx = 2 * pixelsPerUnit; setShapes((prev: Shape[]) => prev.map((sh: Shape) => sh.id === activeShapeId ? { ...sh, points: [{ x: cx, y: cy - sizePx/2 }, { x: cx + sizePx/2, y: cy + sizePx/2 }, { x: cx - sizePx/2, y: cy + sizePx/2 }] } : sh)); } 
+              if (tool === ToolType.RECTANGLE || tool === ToolType.SQUARE) { const wPx = 2 * lengthScale, hPx = (tool === ToolType.SQUARE ? 2 : 1) * lengthScale; setShapes((prev: Shape[]) => prev.map((sh: Shape) => sh.id === activeShapeId ? { ...sh, points: [{ x: cx - wPx/2, y: cy - hPx/2 }, { x: cx + wPx/2, y: cy + hPx/2 }] } : sh)); } 
+              else if (tool === ToolType.TRIANGLE) { const sizePx = 2 * lengthScale; setShapes((prev: Shape[]) => prev.map((sh: Shape) => sh.id === activeShapeId ? { ...sh, points: [{ x: cx, y: cy - sizePx/2 }, { x: cx + sizePx/2, y: cy + sizePx/2 }, { x: cx - sizePx/2, y: cy + sizePx/2 }] } : sh)); } 
               else if (tool === ToolType.CIRCLE || tool === ToolType.ELLIPSE) { const wHalf = (tool === ToolType.CIRCLE) ? 50 : 75, hHalf = 50; setShapes((prev: Shape[]) => prev.map((sh: Shape) => sh.id === activeShapeId ? { ...sh, points: [{ x: cx - wHalf, y: cy - hHalf }, { x: cx + wHalf, y: cy + hHalf }] } : sh)); } 
           }
           if (tool !== ToolType.FREEHAND) setSelectedIds(new Set([activeShapeId])); 
@@ -1223,17 +1437,17 @@ export function Editor() {
 
   return (
     <div className="flex flex-col h-screen bg-slate-50 relative overflow-hidden select-none">
-        <TopBar shapes={shapes} selectedIds={selectedIds} svgRef={svgRef} fileInputRef={fileInputRef} undo={undo} deleteSelected={deleteSelected} clearAll={clearAll} onSave={handleSave} zoom={zoom} onZoomChange={handleZoomChange} />
+        <TopBar shapes={shapes} selectedIds={selectedIds} svgRef={svgRef} fileInputRef={fileInputRef} undo={undo} deleteSelected={deleteSelected} clearAll={clearAll} onSave={handleSave} zoom={zoom} onZoomChange={handleZoomChange} showDependencies={showDependencies} onToggleDependencies={() => setShowDependencies(v => !v)} />
         <div className="flex flex-1 overflow-hidden relative">
             <Sidebar activeTool={tool} onToolChange={handleToolChange} />
             <div className="flex-1 relative flex flex-col min-w-0 bg-slate-50">
                 <div className={`flex-1 bg-white relative overflow-x-auto overflow-y-auto custom-scrollbar ${tool === ToolType.ERASER ? 'cursor-eraser' : (tool === ToolType.SELECT ? 'cursor-default' : 'cursor-crosshair')}`} ref={containerRef} onDragOver={(e) => {e.preventDefault(); e.dataTransfer.dropEffect = 'copy';}} onDrop={(e) => { e.preventDefault(); const file = e.dataTransfer.files?.[0]; if (!file) return; if (file.type === 'application/pdf') { processPdfFile(file); } else if (file.type.startsWith('image/')) { processImageFile(file, { x: e.clientX - svgRef.current!.getBoundingClientRect().left, y: e.clientY - svgRef.current!.getBoundingClientRect().top }); } else if (file.name.endsWith('.geo') || file.name.endsWith('.json')) { const reader = new FileReader(); reader.onload = (event) => { handleFileLoad(event.target?.result as string); }; reader.readAsText(file); } }}>
                     <svg ref={svgRef} className="mx-auto touch-none block shadow-sm bg-white" style={{ width: canvasSize.width, height: svgHeight, transform: `scale(${zoom})`, transformOrigin: 'top center' }} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerLeave={handlePointerUp} onDoubleClick={handleDoubleClick} onContextMenu={(e) => e.preventDefault()}>
-                        <AxisLayer config={axisConfig} width={canvasSize.width} height={svgHeight} pixelsPerUnit={pixelsPerUnit} overrideOrigin={{ x: canvasSize.width / 2, y: originY }} pageCount={pageCount} pageHeight={pageHeight} />
+                        <AxisLayer config={axisConfig} width={canvasSize.width} height={svgHeight} gridSize={axisMapping.gridSize} overrideOrigin={{ x: pixelsPerUnit.originX ?? canvasSize.width / 2, y: originY }} pageCount={pageCount} pageHeight={pageHeight} />
                         {pageCount > 1 && Array.from({ length: pageCount - 1 }).map((_, i) => ( <g key={`page-break-${i}`} opacity="0.4"> <line x1={0} y1={(i + 1) * pageHeight} x2={canvasSize.width} y2={(i + 1) * pageHeight} stroke="#94a3b8" strokeWidth={1} strokeDasharray="8,8" /> <text x={10} y={(i + 1) * pageHeight - 5} fontSize={10} fill="#94a3b8" fontFamily="sans-serif">Page {i + 1} End</text> </g> ))}
-                                  {shapes.filter(s => !isTool(s)).map(shape => ( <ShapeRenderer key={shape.id} shape={(textEditing?.id === shape.id) ? { ...shape, text: '' } : shape} isSelected={selectedIds.has(shape.id)} tool={tool} pixelsPerUnit={pixelsPerUnit} /> ))}
-                                  {shapes.filter(s => isTool(s)).map(shape => ( <ShapeRenderer key={shape.id} shape={shape} isSelected={selectedIds.has(shape.id)} tool={tool} pixelsPerUnit={pixelsPerUnit} /> ))}                        {tool === ToolType.COMPASS && <CompassOverlay center={compassState.center} cursor={cursorPos || {x:0, y:0}} radiusPoint={compassState.radiusPoint} isDrawing={!!compassState.startAngle} />}
-                        {tool === ToolType.RULER && selectedIds.size === 0 && ( <g style={{ opacity: 0.35, pointerEvents: 'none' }}> <ShapeRenderer shape={{ id: 'ghost-ruler', type: ShapeType.RULER, points: [{ x: (cursorPos?.x || 0) - 200, y: (cursorPos?.y || 0) - 20 }, { x: (cursorPos?.x || 0) + 200, y: (cursorPos?.y || 0) + 20 }], fill: 'transparent', stroke: '#94a3b8', strokeWidth: 1, rotation: 0 }} isSelected={false} tool={tool} pixelsPerUnit={pixelsPerUnit} /> </g> )}
+                                  {shapes.filter(s => !isTool(s)).map(shape => ( <ShapeRenderer key={shape.id} shape={(textEditing?.id === shape.id) ? { ...shape, text: '' } : shape} isSelected={selectedIds.has(shape.id)} tool={tool} pixelsPerUnit={lengthScale} /> ))}
+                                  {shapes.filter(s => isTool(s)).map(shape => ( <ShapeRenderer key={shape.id} shape={shape} isSelected={selectedIds.has(shape.id)} tool={tool} pixelsPerUnit={lengthScale} /> ))}                        {tool === ToolType.COMPASS && <CompassOverlay center={compassState.center} cursor={cursorPos || {x:0, y:0}} radiusPoint={compassState.radiusPoint} isDrawing={!!compassState.startAngle} />}
+                        {tool === ToolType.RULER && selectedIds.size === 0 && ( <g style={{ opacity: 0.35, pointerEvents: 'none' }}> <ShapeRenderer shape={{ id: 'ghost-ruler', type: ShapeType.RULER, points: [{ x: (cursorPos?.x || 0) - 200, y: (cursorPos?.y || 0) - 20 }, { x: (cursorPos?.x || 0) + 200, y: (cursorPos?.y || 0) + 20 }], fill: 'transparent', stroke: '#94a3b8', strokeWidth: 1, rotation: 0 }} isSelected={false} tool={tool} pixelsPerUnit={lengthScale} /> </g> )}
                         {compassPreviewPath && <path d={compassPreviewPath} fill="none" stroke={currentStyle.stroke} strokeWidth={currentStyle.strokeWidth} strokeDasharray="4,4" opacity={0.6} />}
                         {selectedIds.size === 1 && shapes.filter(s => selectedIds.has(s.id)).map(s => (!textEditing || textEditing.id !== s.id) && (
                             <SelectionOverlay 
@@ -1244,6 +1458,7 @@ export function Editor() {
                                 isAltPressed={isAltPressed} 
                                 isMarkingAngles={markingAnglesMode} 
                                 isDragging={isDragging} 
+                                graphHandles={s.type === ShapeType.FUNCTION_GRAPH ? getGraphHandlePoints(s).map(p => mathToScreen(p, canvasSize.width, svgHeight, pixelsPerUnit, originY)) : undefined} 
                                 onResizeStart={(idx, e) => { e.stopPropagation(); saveHistory(); refreshDomCache(); setDragHandleIndex(idx); setIsDragging(true); }} 
                                 onRotateStart={(e) => { 
                                     e.stopPropagation(); 
@@ -1282,6 +1497,11 @@ export function Editor() {
                                         <line x1={-8} y1={0} x2={8} y2={0} stroke="#fbbf24" strokeWidth={1} />
                                         <line x1={0} y1={-8} x2={0} y2={8} stroke="#fbbf24" strokeWidth={1} />
                                     </g>
+                                ) : snapIndicator.type === 'intersection' ? (
+                                    <g>
+                                        <line x1={-6} y1={-6} x2={6} y2={6} stroke="#fbbf24" strokeWidth={2} />
+                                        <line x1={-6} y1={6} x2={6} y2={-6} stroke="#fbbf24" strokeWidth={2} />
+                                    </g>
                                 ) : (
                                     <circle cx={0} cy={0} r={5} fill="none" stroke="#fbbf24" strokeWidth={2} />
                                 )}
@@ -1296,13 +1516,15 @@ export function Editor() {
                         </div>
                     )}
                 </div>
+                {showDependencies && <DependencyPanel shapes={shapes} selectedIds={selectedIds} onSelect={(id) => { if (tool !== ToolType.SELECT) handleToolChange(ToolType.SELECT); setSelectedIds(new Set([id])); }} onDetach={detachDependency} onRebind={rebindDependency} onClose={() => setShowDependencies(false)} />}
+                {CONSTRUCTION_TOOLS[tool] && <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg z-50 text-sm font-medium pointer-events-none">{CONSTRUCTION_HINTS[CONSTRUCTION_TOOLS[tool]!]}{constructionPicks.length > 0 ? ` (${constructionPicks.length} picked)` : ''}</div>}
                 {pickingMirrorMode && <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg z-50 text-sm font-medium animate-bounce pointer-events-none">Select a line to mirror across</div>}
                 <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50"><button onClick={() => setPageCount(p => p + 1)} className="bg-white shadow-lg border border-slate-200 text-slate-600 px-5 py-2.5 rounded-full flex items-center gap-2 hover:bg-blue-50 hover:text-blue-600 hover:border-blue-200 transition-all text-sm font-bold uppercase tracking-wide"><Plus size={18} /> {pageCount > 1 ? `Page ${pageCount} / Add +` : 'Add Page'}</button></div>
             </div>
             <div className={`h-full bg-slate-50 border-l border-slate-200 shadow-xl z-20 transition-all duration-300 ease-in-out flex ${isSidebarOpen ? 'w-[350px]' : 'w-[15px]'}`} onMouseEnter={() => setIsSidebarOpen(true)} onMouseLeave={() => setIsSidebarOpen(false)}>
                 <div className="w-[15px] h-full flex flex-row items-center justify-center gap-[3px] bg-slate-50 hover:bg-slate-100 cursor-pointer shrink-0 border-r border-slate-200 transition-colors"><div className="w-[1px] h-[16px] bg-slate-300 rounded-full"></div><div className="w-[1px] h-[16px] bg-slate-300 rounded-full"></div><div className="w-[1px] h-[16px] bg-slate-300 rounded-full"></div></div>
                 <div className={`flex-1 overflow-hidden transition-opacity duration-300 ${isSidebarOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
-                     <PropertiesPanel selectedShape={selectedShape} shapes={shapes} setShapes={setShapes} selectedIds={selectedIds} axisConfig={axisConfig} setAxisConfig={setAxisConfig} autoLabelMode={autoLabelMode} setAutoLabelMode={setAutoLabelMode} smartSketchMode={smartSketchMode} setSmartSketchMode={setSmartSketchMode} pressureEnabled={pressureEnabled} setPressureEnabled={setPressureEnabled} lockBackground={lockBackground} setLockBackground={setLockBackground} markingAnglesMode={markingAnglesMode} setMarkingAnglesMode={setMarkingAnglesMode} pickingMirrorMode={pickingMirrorMode} setPickingMirrorMode={setPickingMirrorMode} currentStyle={currentStyle} setCurrentStyle={setCurrentStyle} canvasSize={{ width: canvasSize.width, height: svgHeight }} pixelsPerUnit={pixelsPerUnit} originY={originY} onFitToViewport={handleFitToViewport} saveHistory={saveHistory} isDragging={isDragging} />
+                     <PropertiesPanel selectedShape={selectedShape} shapes={shapes} setShapes={setShapes} selectedIds={selectedIds} axisConfig={axisConfig} setAxisConfig={setAxisConfig} autoLabelMode={autoLabelMode} setAutoLabelMode={setAutoLabelMode} smartSketchMode={smartSketchMode} setSmartSketchMode={setSmartSketchMode} pressureEnabled={pressureEnabled} setPressureEnabled={setPressureEnabled} lockBackground={lockBackground} setLockBackground={setLockBackground} markingAnglesMode={markingAnglesMode} setMarkingAnglesMode={setMarkingAnglesMode} pickingMirrorMode={pickingMirrorMode} setPickingMirrorMode={setPickingMirrorMode} currentStyle={currentStyle} setCurrentStyle={setCurrentStyle} canvasSize={{ width: canvasSize.width, height: svgHeight }} pixelsPerUnit={pixelsPerUnit} originY={originY} axisMapping={axisMapping} pageHeight={pageHeight} onFitToViewport={handleFitToViewport} saveHistory={saveHistory} isDragging={isDragging} />
                 </div>
             </div>
         </div>
@@ -1333,6 +1555,30 @@ export function Editor() {
             </div>
         )}
 
+        {pendingDelete && (
+            <div className="absolute inset-0 bg-black/50 z-[100] flex items-center justify-center backdrop-blur-sm" onClick={() => setPendingDelete(null)}>
+                <div className="bg-white p-6 rounded-xl shadow-2xl flex flex-col gap-4 w-[360px]" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex flex-col gap-1">
+                        <h3 className="font-bold text-lg text-slate-800">Delete {pendingDelete.size === 1 ? 'shape' : `${pendingDelete.size} shapes`}?</h3>
+                        <p className="text-slate-500 text-sm">{getDependents(shapes, pendingDelete).length} other shape(s) depend on {pendingDelete.size === 1 ? 'it' : 'them'}.</p>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <button onClick={() => confirmDelete(pendingDelete, 'cascade')} className="w-full px-4 py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white text-sm font-semibold transition-colors">Delete dependents too</button>
+                        <button onClick={() => confirmDelete(pendingDelete, 'freeze')} className="w-full px-4 py-2 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700 text-sm font-semibold transition-colors">Keep dependents as free shapes</button>
+                        <button onClick={() => setPendingDelete(null)} className="w-full px-4 py-2 rounded-lg text-slate-500 hover:bg-slate-50 text-sm font-medium transition-colors">Cancel</button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {constraintError && (
+            <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[100] animate-in fade-in slide-in-from-top-4 duration-300">
+                <div className="bg-red-500 text-white px-6 py-3 rounded-full shadow-2xl font-bold border border-red-400">
+                    {constraintError}
+                </div>
+            </div>
+        )}
+
         {saveMessage && (
             <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[100] animate-in fade-in slide-in-from-top-4 duration-300">
                 <div className="bg-emerald-500 text-white px-6 py-3 rounded-full shadow-2xl font-bold flex items-center gap-2 border border-emerald-400">
@@ -1,11 +1,25 @@
 import React, { useState } from 'react';
-import { Shape, ShapeType, AxisConfig } from '../types';
+import { Shape, ShapeType, Point, AxisConfig, MarkerType, TriangleCenterType, DimensionType, VertexRef, AnimationConfig, SliderConfig, FormulaParamKey, MeasurementConfig, CurveConfig, PixelsPerUnit, AxisLabelStyle } from '../types';
 import { COLORS } from '../constants';
-import { recalculateMarker, generateQuadraticPath, standardToVertex, vertexToStandard } from '../utils/mathUtils';
+import { recalculateMarker, generateFunctionPath, redrawFormulaShape, isPlottableGraph, mathToScreen, screenToMath, curveArgument, standardToVertex, vertexToStandard, getRotatedCorners, getLengthScale } from '../utils/mathUtils';
+import { getTriangleConstructionConstraints, createDerivedShape } from '../utils/constructions';
+import { createDimensionShape, measureDimension, getDimensionLabel, vertexKey } from '../utils/geometricSolver';
+import { solveDimensionConstraints, resolveConstraints } from '../utils/constraintSystem';
+import { setTracing, clearTrail, convertTrailToCurve, findTrail } from '../utils/locusTrace';
+import { isAnimatable, DEFAULT_ANIMATION, getAnimatedParam } from '../utils/animation';
+import { getSliders, findSliderByName, snapSliderValue, renameSlider } from '../utils/sliders';
+import { compileExpression, compileEquation, compileInequality, evaluateConstant, ExpressionError } from '../utils/expressionParser';
+import { createMeasurementShape, evaluateMeasurement, canMeasureArea, MEASUREMENT_PRECISIONS } from '../utils/measurements';
+import { createKeyPoints } from '../utils/keyPoints';
+import { canDrawTangent, createTangentLine, canDifferentiate, createDerivativeGraph } from '../utils/tangents';
+import { createArea } from '../utils/areas';
+import { generateId } from '../utils/ids';
+import { getAxisRanges, fitAxisRange, AxisMapping } from '../utils/axes';
+import { tabulateGraph, fitRegression, createTablePoints, createDataPoints, createRegressionGraph, RegressionKind, RegressionFit } from '../utils/regression';
 import { 
   Radius, FunctionSquare, Grid3X3, Sparkles, CaseUpper, 
   Wand2, FoldHorizontal, Maximize, Minus, Plus, 
-  Fingerprint, ChevronDown, PaintBucket, PenTool, Lock
+  Fingerprint, ChevronDown, PaintBucket, PenTool, Lock, Triangle, Ruler, Footprints, Play, Pause, SlidersHorizontal, Calculator, Equal, Orbit, CircleDashed, Blend, TrendingUp, Table, ScatterChart
 } from 'lucide-react';
 
 interface PropertiesPanelProps {
@@ -40,8 +54,10 @@ interface PropertiesPanelProps {
     strokeType: 'solid' | 'dashed' | 'dotted';
   }>>;
   canvasSize: { width: number; height: number };
-  pixelsPerUnit: number;
+  pixelsPerUnit: PixelsPerUnit;
   originY: number;
+  axisMapping: AxisMapping;
+  pageHeight: number;
   onFitToViewport: () => void;
   saveHistory: () => void;
   isDragging: boolean;
@@ -55,6 +71,132 @@ const PARAM_DESCRIPTIONS: Record<string, string> = {
     k: "Vertical shift of the vertex."
 };
 
+type TriangleOption = TriangleCenterType | 'circumcircle' | 'incircle' | 'median' | 'altitude';
+
+const TRIANGLE_OPTIONS: { id: TriangleOption; label: string }[] = [
+    { id: 'centroid', label: 'Centroid G' },
+    { id: 'circumcenter', label: 'Circumcenter O' },
+    { id: 'incenter', label: 'Incenter I' },
+    { id: 'orthocenter', label: 'Orthocenter H' },
+    { id: 'circumcircle', label: 'Circumcircle' },
+    { id: 'incircle', label: 'Incircle' },
+    { id: 'median', label: 'Medians' },
+    { id: 'altitude', label: 'Altitudes' }
+];
+
+// Does `s` belong to the given triangle construction option?
+const isTriangleOption = (s: Shape, triangleId: string, option: TriangleOption) => {
+    if (s.constraint?.parentId !== triangleId) return false;
+    if (s.constraint.type === 'triangle_center') return s.constraint.triangleCenter === option;
+    return s.constraint.type === option;
+};
+
+interface DimensionOption {
+    key: string;
+    type: DimensionType;
+    label: string;
+    vertices: VertexRef[];
+}
+
+const vertexName = (s: Shape, i: number) => s.labels?.[i] || String.fromCharCode(65 + i);
+
+// Dimensions that can be fixed for the current selection (for three points, selection order defines the angle)
+const getDimensionOptions = (selection: Shape[]): DimensionOption[] => {
+    const ends = (s: Shape): VertexRef[] => [{ shapeId: s.id, pointIndex: 0 }, { shapeId: s.id, pointIndex: 1 }];
+    if (selection.length === 1 && selection[0].type === ShapeType.LINE) {
+        return [{ key: 'length', type: 'length', label: 'Length', vertices: ends(selection[0]) }];
+    }
+    if (selection.length === 2 && selection.every(s => s.type === ShapeType.LINE)) {
+        const vertices = [...ends(selection[0]), ...ends(selection[1])];
+        return [
+            { key: 'parallel', type: 'parallel', label: '∥ Parallel', vertices },
+            { key: 'perpendicular', type: 'perpendicular', label: '⊥ Perpendicular', vertices },
+            { key: 'equal_length', type: 'equal_length', label: '= Equal Length', vertices }
+        ];
+    }
+    if (selection.length === 3 && selection.every(s => s.type === ShapeType.POINT)) {
+        return [{ key: 'angle', type: 'angle', label: '∠ Angle', vertices: selection.map(s => ({ shapeId: s.id, pointIndex: 0 })) }];
+    }
+    if (selection.length === 1 && (selection[0].type === ShapeType.TRIANGLE || selection[0].type === ShapeType.POLYGON)) {
+        const s = selection[0];
+        const n = s.points.length;
+        const options: DimensionOption[] = [];
+        for (let i = 0; i < n; i++) {
+            const next = (i + 1) % n, prevIdx = (i - 1 + n) % n;
+            options.push({ key: `edge-${i}`, type: 'length', label: `${vertexName(s, i)}${vertexName(s, next)}`, vertices: [{ shapeId: s.id, pointIndex: i }, { shapeId: s.id, pointIndex: next }] });
+            options.push({ key: `angle-${i}`, type: 'angle', label: `∠${vertexName(s, i)}`, vertices: [{ shapeId: s.id, pointIndex: prevIdx }, { shapeId: s.id, pointIndex: i }, { shapeId: s.id, pointIndex: next }] });
+        }
+        return options;
+    }
+    return [];
+};
+
+interface MeasurementOption {
+    key: string;
+    label: string;
+    config: MeasurementConfig;
+}
+
+// Measurements that can be shown for the current selection (for three points, selection order defines the angle)
+const getMeasurementOptions = (selection: Shape[]): MeasurementOption[] => {
+    const option = (key: string, label: string, config: Omit<MeasurementConfig, 'precision'>): MeasurementOption => ({ key, label, config: { ...config, precision: 1 } });
+    if (selection.length === 3 && selection.every(s => s.type === ShapeType.POINT)) {
+        return [option('angle', '∠ Angle', { type: 'angle', pointIds: selection.map(s => s.id) })];
+    }
+    if (selection.length !== 1) return [];
+    const s = selection[0];
+    if (s.type === ShapeType.LINE) return [option('length', 'Length', { type: 'length', targetId: s.id })];
+    if (!canMeasureArea(s)) return [];
+    const options = [
+        option('perimeter', s.type === ShapeType.CIRCLE || s.type === ShapeType.ELLIPSE ? 'Circumference' : 'Perimeter', { type: 'perimeter', targetId: s.id }),
+        option('area', 'Area', { type: 'area', targetId: s.id })
+    ];
+    if (s.type === ShapeType.TRIANGLE || s.type === ShapeType.POLYGON) {
+        const n = s.points.length;
+        for (let i = 0; i < n; i++) {
+            options.push(option(`edge-${i}`, `${vertexName(s, i)}${vertexName(s, (i + 1) % n)}`, { type: 'length', targetId: s.id, index: i }));
+            options.push(option(`angle-${i}`, `∠${vertexName(s, i)}`, { type: 'angle', targetId: s.id, index: i }));
+        }
+    }
+    return options;
+};
+
+const isSameMeasurement = (s: Shape, config: MeasurementConfig) => {
+    const m = s.measurement;
+    if (s.type !== ShapeType.MEASUREMENT || !m || m.type !== config.type) return false;
+    return m.targetId === config.targetId && m.index === config.index && (m.pointIds || []).join('|') === (config.pointIds || []).join('|');
+};
+
+// Sides that can carry tick or arrow markers: the segment itself, or each edge of a polygon
+const getMarkableSides = (s: Shape): { key: string; label: string; indices: number[] }[] => {
+    if (s.type === ShapeType.LINE) return [{ key: 'side-0', label: `${vertexName(s, 0)}${vertexName(s, 1)}`, indices: [0, 1] }];
+    if (![ShapeType.TRIANGLE, ShapeType.RECTANGLE, ShapeType.SQUARE, ShapeType.POLYGON].includes(s.type)) return [];
+    const n = getRotatedCorners(s).length;
+    return Array.from({ length: n }, (_, i) => ({ key: `side-${i}`, label: `${vertexName(s, i)}${vertexName(s, (i + 1) % n)}`, indices: [i, (i + 1) % n] }));
+};
+
+const SIDE_MARKS: { type: MarkerType; count: number; label: string }[] = [
+    { type: 'equal_tick', count: 1, label: '|' },
+    { type: 'equal_tick', count: 2, label: '||' },
+    { type: 'equal_tick', count: 3, label: '|||' },
+    { type: 'parallel_arrow', count: 1, label: '›' },
+    { type: 'parallel_arrow', count: 2, label: '››' },
+    { type: 'parallel_arrow', count: 3, label: '›››' }
+];
+
+const isSideMarker = (s: Shape) => s.markerConfig?.type === 'equal_tick' || s.markerConfig?.type === 'parallel_arrow';
+
+const findSideMarker = (shapes: Shape[], targetId: string, indices: number[]) =>
+    shapes.find(m => m.type === ShapeType.MARKER && isSideMarker(m) && m.markerConfig!.targets[0].shapeId === targetId && m.markerConfig!.targets[0].pointIndices.join('|') === indices.join('|'));
+
+// Is `s` the dimension of this type over these vertices (in either direction)?
+const isSameDimension = (s: Shape, type: DimensionType, vertices: VertexRef[]) => {
+    if (s.type !== ShapeType.DIMENSION || s.dimension?.type !== type) return false;
+    const keys = s.dimension.vertices.map(vertexKey).join('|');
+    const target = vertices.map(vertexKey);
+    return keys === target.join('|') || keys === [...target].reverse().join('|');
+};
+
 interface SectionProps {
   title: string;
   icon: any;
@@ -125,8 +267,244 @@ const NumberInput = ({ value, onChange, className, step = "0.1", placeholder, ti
     );
 };
 
+// Range ends are shown rounded (2π is stored as 6.283185...)
+const formatRangeEnd = (value: number) => String(Math.round(value * 10000) / 10000);
+
+// Text field for an expression; applied on Enter or blur, and kept as typed (with the message) while it does not parse
+const ExpressionInput = ({ value, onCommit, placeholder = 'e.g. 2sin(x)+1' }: { value: string, onCommit: (text: string) => string | null, placeholder?: string }) => {
+    const [localValue, setLocalValue] = useState(value);
+    const [error, setError] = useState<string | null>(null);
+
+    React.useEffect(() => {
+        setLocalValue(value);
+        setError(null);
+    }, [value]);
+
+    const commit = () => {
+        if (localValue === value) { setError(null); return; }
+        setError(onCommit(localValue));
+    };
+
+    return (
+        <div>
+            <input 
+                type="text" 
+                value={localValue} 
+                spellCheck={false}
+                onChange={(e) => setLocalValue(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+                className={`w-full bg-slate-50 border rounded px-2 py-1 text-sm font-mono focus:outline-none focus:ring-1 ${error ? 'border-red-400 focus:ring-red-400' : 'focus:border-blue-500 focus:ring-blue-500'}`}
+                placeholder={placeholder}
+            />
+            {error && <div className="text-xs text-red-500 mt-1">{error}</div>}
+        </div>
+    );
+};
+
+// Internal Helper: `x - 2`, `x + 3` or just `x`
+const shifted = (name: string, by: number) => by === 0 ? name : `${name} ${by > 0 ? '-' : '+'} ${Math.abs(by)}`;
+
+// Internal Helper: Coefficient to 6 significant figures, for display (fitted coefficients are kept exact)
+const roundCoefficient = (v: number) => Number(v.toPrecision(6));
+
+// Internal Helper: Right side of y = f(x) for a graph, with parameters bound to sliders written as the slider names;
+// `rounded` shortens the coefficients for display
+const graphFormula = (graph: Shape, rounded = false): string => {
+    if (graph.functionType === 'expression') return graph.expression || '0';
+    const p = graph.formulaParams || {};
+    const value = (key: FormulaParamKey, fallback: number) => rounded ? roundCoefficient(p[key] ?? fallback) : p[key] ?? fallback;
+    const param = (key: FormulaParamKey, fallback: number) => graph.sliderBindings?.[key] || String(value(key, fallback));
+    if (graph.functionType === 'inverse') return `${param('k', 1)}/x`;
+    const h = graph.sliderBindings?.h ? `(x - ${graph.sliderBindings.h})^2` : value('h', 0) === 0 ? 'x^2' : `(${shifted('x', value('h', 0))})^2`;
+    const terms = graph.functionType === 'linear'
+        ? [[param('k', 1), 'x'], [param('b', 0), '']]
+        : graph.functionForm === 'vertex'
+            ? [[param('a', 1), h], [param('k', 0), '']]
+            : [[param('a', 1), 'x^2'], [param('b', 0), 'x'], [param('c', 0), '']];
+    return terms.filter(([c]) => c !== '0').map(([c, v], i) => {
+        const negative = c.startsWith('-');
+        const size = negative ? c.slice(1) : c;
+        const term = !v ? size : size === '1' ? v : `${size}${/[A-Za-z]$/.test(size) ? ' ' : ''}${v}`;
+        return i === 0 ? `${negative ? '-' : ''}${term}` : ` ${negative ? '-' : '+'} ${term}`;
+    }).join('') || '0';
+};
+
+// Internal Helper: `y = …` name of a graph for pickers
+const graphName = (graph: Shape) => `y = ${graph.differentiate ? `d/dx (${graph.expression || '0'})` : graphFormula(graph, true)}`;
+
+const GraphTools = ({ onShowKeyPoints, onShade, onDerivative, onArea, otherGraphs = [] }: { 
+    onShowKeyPoints: () => void, 
+    onShade?: (relation: '<' | '>') => void, 
+    onDerivative?: () => void, 
+    onArea?: (otherId?: string) => void, 
+    otherGraphs?: Shape[] 
+}) => {
+    const [areaWith, setAreaWith] = useState('');
+    return (
+        <div className="space-y-2 mt-3">
+            <button onClick={onShowKeyPoints} className="w-full py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600" title="Intercepts, vertex and intersections with other graphs">Show key points</button>
+            {onDerivative && <button onClick={onDerivative} className="w-full py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600" title="Graph of the slope, kept in sync with this graph">Plot derivative f′(x)</button>}
+            {onShade && (
+                <div className="flex gap-2">
+                    <button onClick={() => onShade('>')} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600">Shade y &gt; f(x)</button>
+                    <button onClick={() => onShade('<')} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600">Shade y &lt; f(x)</button>
+                </div>
+            )}
+            {onArea && (
+                <div className="flex gap-2">
+                    <button onClick={() => onArea(otherGraphs.some(g => g.id === areaWith) ? areaWith : undefined)} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600" title="Shade and measure the area between two bounds on the x-axis">Area</button>
+                    <select 
+                        value={areaWith} 
+                        onChange={(e) => setAreaWith(e.target.value)} 
+                        className="flex-1 min-w-0 bg-slate-50 border rounded px-1 py-1 text-xs text-slate-600 focus:border-blue-500 focus:outline-none"
+                    >
+                        <option value="">to the x-axis</option>
+                        {otherGraphs.map(g => <option key={g.id} value={g.id}>to {graphName(g)}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Builds the equation of the parabola with a given focus and directrix (points as far from both)
+const FocusDirectrixForm = ({ onApply }: { onApply: (equation: string) => void }) => {
+    const [focus, setFocus] = useState({ x: 0, y: 1 });
+    const [directrix, setDirectrix] = useState<{ axis: 'x' | 'y'; value: number }>({ axis: 'y', value: -1 });
+    const degenerate = focus[directrix.axis] === directrix.value;
+    const inputClass = "w-full bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <span className="w-16 text-xs font-bold text-slate-500">Focus</span>
+                <NumberInput value={focus.x} onChange={(x) => setFocus(f => ({ ...f, x }))} className={inputClass} title="x of the focus" />
+                <NumberInput value={focus.y} onChange={(y) => setFocus(f => ({ ...f, y }))} className={inputClass} title="y of the focus" />
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="w-16 text-xs font-bold text-slate-500">Directrix</span>
+                <select 
+                    value={directrix.axis} 
+                    onChange={(e) => setDirectrix(d => ({ ...d, axis: e.target.value as 'x' | 'y' }))} 
+                    className="bg-slate-50 border rounded px-1 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                >
+                    <option value="y">y =</option>
+                    <option value="x">x =</option>
+                </select>
+                <NumberInput value={directrix.value} onChange={(value) => setDirectrix(d => ({ ...d, value }))} className={inputClass} title="Position of the directrix" />
+            </div>
+            <button 
+                onClick={() => onApply(`(${shifted('x', focus.x)})^2 + (${shifted('y', focus.y)})^2 = (${shifted(directrix.axis, directrix.value)})^2`)}
+                disabled={degenerate}
+                className="w-full py-1.5 text-xs font-medium rounded border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                title={degenerate ? 'The focus must not lie on the directrix' : undefined}
+            >
+                Use this parabola
+            </button>
+        </div>
+    );
+};
+
+// Internal Helper: Table cell value, rounded for display
+const formatTableValue = (v: number) => isFinite(v) ? String(Math.round(v * 10000) / 10000) : 'undefined';
+
+const tableInputClass = "w-full min-w-0 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+// x → y table of a graph; the x values are editable and y follows the graph
+const ValueTable = ({ graph, onPlot }: { graph: Shape, onPlot: (xs: number[]) => void }) => {
+    const [xs, setXs] = useState([-2, -1, 0, 1, 2]);
+    const rows = tabulateGraph(graph, xs);
+
+    return (
+        <div className="space-y-1">
+            <div className="flex gap-2 text-xs font-bold text-slate-500 uppercase"><span className="flex-1">x</span><span className="flex-1">y</span></div>
+            {rows.map((row, i) => (
+                <div key={i} className="flex items-center gap-2">
+                    <div className="flex-1"><NumberInput value={row.x} onChange={(x) => setXs(prev => prev.map((v, j) => j === i ? x : v))} className={tableInputClass} /></div>
+                    <span className="flex-1 px-2 text-sm text-slate-600 font-mono">{formatTableValue(row.y)}</span>
+                    <button onClick={() => setXs(prev => prev.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500" title="Remove row"><Minus size={14} /></button>
+                </div>
+            ))}
+            <div className="flex gap-2 pt-2">
+                <button onClick={() => setXs(prev => [...prev, prev.length > 0 ? prev[prev.length - 1] + 1 : 0])} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-slate-50">+ Row</button>
+                <button onClick={() => onPlot(xs)} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600" title="Points on the graph that follow its coefficients">Plot points</button>
+            </div>
+        </div>
+    );
+};
+
+// (x, y) data typed in or taken from the selected points, plotted and fitted with a line or a parabola
+const DataTable = ({ selectedData, onPlot, onFit }: { 
+    selectedData: Point[], 
+    onPlot: (data: Point[]) => void, 
+    onFit: (data: Point[], kind: RegressionKind) => RegressionFit | null 
+}) => {
+    const [data, setData] = useState<Point[]>([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 4 }]);
+    const [fit, setFit] = useState<{ kind: RegressionKind; r2: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const updateRow = (i: number, row: Partial<Point>) => setData(prev => prev.map((p, j) => j === i ? { ...p, ...row } : p));
+
+    const runFit = (kind: RegressionKind) => {
+        const result = onFit(data, kind);
+        setFit(result ? { kind, r2: result.r2 } : null);
+        setError(result ? null : `A ${kind === 'linear' ? 'line needs 2' : 'parabola needs 3'} or more different x values`);
+    };
+
+    return (
+        <div className="space-y-1">
+            <div className="flex gap-2 text-xs font-bold text-slate-500 uppercase"><span className="flex-1">x</span><span className="flex-1">y</span><span className="w-3.5" /></div>
+            {data.map((row, i) => (
+                <div key={i} className="flex items-center gap-2">
+                    <div className="flex-1"><NumberInput value={row.x} onChange={(x) => updateRow(i, { x })} className={tableInputClass} /></div>
+                    <div className="flex-1"><NumberInput value={row.y} onChange={(y) => updateRow(i, { y })} className={tableInputClass} /></div>
+                    <button onClick={() => setData(prev => prev.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500" title="Remove row"><Minus size={14} /></button>
+                </div>
+            ))}
+            <div className="flex gap-2 pt-2">
+                <button onClick={() => setData(prev => [...prev, { x: prev.length > 0 ? prev[prev.length - 1].x + 1 : 0, y: 0 }])} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-slate-50">+ Row</button>
+                <button 
+                    onClick={() => setData(selectedData)} 
+                    disabled={selectedData.length === 0} 
+                    className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                    title="Replace the table with the coordinates of the selected points"
+                >
+                    From selection
+                </button>
+            </div>
+            <button onClick={() => onPlot(data)} className="w-full py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600">Plot points</button>
+            <div className="flex gap-2">
+                <button onClick={() => runFit('linear')} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600">Fit line</button>
+                <button onClick={() => runFit('quadratic')} className="flex-1 py-1.5 text-xs font-medium rounded border border-slate-200 text-slate-600 hover:bg-blue-50 hover:text-blue-600">Fit parabola</button>
+            </div>
+            {error && <div className="text-xs text-red-500">{error}</div>}
+            {fit && <div className="text-xs text-slate-600">{fit.kind === 'linear' ? 'Line' : 'Parabola'} fitted, R² = {formatTableValue(fit.r2)}</div>}
+        </div>
+    );
+};
+
+const AXIS_LABEL_STYLES: { id: AxisLabelStyle; label: string }[] = [
+    { id: 'decimal', label: '0.5' },
+    { id: 'fraction', label: '1/2' },
+    { id: 'pi', label: 'π/2' }
+];
+
+// Picks the slider a parameter follows ('' = fixed value)
+const SliderSelect = ({ value, names, onChange }: { value?: string, names: string[], onChange: (name: string) => void }) => (
+    <select 
+        value={value || ''} 
+        onChange={(e) => onChange(e.target.value)} 
+        title="Drive this value with a slider"
+        className="w-16 bg-slate-50 border rounded px-1 py-1 text-xs text-slate-600 focus:border-blue-500 focus:outline-none"
+    >
+        <option value="">fixed</option>
+        {names.map(n => <option key={n} value={n}>{n}</option>)}
+    </select>
+);
+
 export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
   selectedShape,
+  shapes,
   setShapes,
   selectedIds,
   axisConfig,
@@ -148,6 +526,8 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
   canvasSize,
   pixelsPerUnit,
   originY,
+  axisMapping,
+  pageHeight,
   onFitToViewport,
   saveHistory,
 }) => {
@@ -172,15 +552,7 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
         ? { 
             ...s, 
             functionForm: newForm, 
-            pathData: generateQuadraticPath(
-                s.formulaParams, 
-                newForm, 
-                canvasSize.width, 
-                canvasSize.height, 
-                pixelsPerUnit, 
-                s.functionType || 'quadratic',
-                originY
-            ) 
+            pathData: generateFunctionPath({ ...s, functionForm: newForm }, canvasSize.width, canvasSize.height, pixelsPerUnit, originY) 
           } 
         : s
     ));
@@ -220,7 +592,8 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
   const updateFunctionParams = (key: string, val: number) => {
       if (!selectedShape) return;
       const roundedVal = Math.round(val * 10) / 10;
-      setShapes(prev => prev.map(s => {
+      // Points on the graph (and its key points) follow the new coefficients
+      setShapes(prev => resolveConstraints(prev.map(s => {
           if (s.id === selectedShape.id && s.formulaParams) {
               const prevParams = s.formulaParams;
               let newParams = { ...prevParams, [key]: roundedVal };
@@ -252,18 +625,395 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
               return { 
                   ...s, 
                   formulaParams: newParams, 
-                  pathData: generateQuadraticPath(
-                      newParams, 
-                      s.functionForm || 'standard', 
-                      canvasSize.width, 
-                      canvasSize.height, 
-                      pixelsPerUnit, 
-                      fType,
-                      originY
-                  ) 
+                  pathData: generateFunctionPath({ ...s, formulaParams: newParams }, canvasSize.width, canvasSize.height, pixelsPerUnit, originY) 
               };
           }
           return s;
+      }), selectedShape.id, canvasSize.width, canvasSize.height, pixelsPerUnit, originY));
+  };
+
+  // Adds the derived shapes for a triangle option, or removes them if they already exist
+  const toggleTriangleOption = (option: TriangleOption) => {
+      if (!selectedShape || selectedShape.type !== ShapeType.TRIANGLE) return;
+      saveHistory();
+      const triangle = selectedShape;
+      setShapes(prev => {
+          if (prev.some(s => isTriangleOption(s, triangle.id, option))) {
+              return prev.filter(s => !isTriangleOption(s, triangle.id, option));
+          }
+          const style = { fill: triangle.stroke, stroke: triangle.stroke, strokeWidth: 1, strokeType: (option === 'median' || option === 'altitude') ? 'dashed' as const : 'solid' as const };
+          const created = getTriangleConstructionConstraints(triangle.id, option)
+              .map(c => createDerivedShape(generateId(), c, id => prev.find(s => s.id === id), style))
+              .filter((s): s is Shape => s !== null);
+          return [...prev, ...created];
+      });
+  };
+
+  const selection = [...selectedIds].map(id => shapes.find(s => s.id === id)).filter((s): s is Shape => !!s);
+  const dimensionOptions = getDimensionOptions(selection);
+
+  // Adds a dimension holding the current measurement, or removes it if it already exists
+  const toggleDimension = (option: DimensionOption) => {
+      saveHistory();
+      setShapes(prev => {
+          const existing = prev.find(s => isSameDimension(s, option.type, option.vertices));
+          if (existing) return prev.filter(s => s.id !== existing.id);
+          const getShape = (id: string) => prev.find(s => s.id === id);
+          const measured = measureDimension(option.type, option.vertices, getShape, getLengthScale(pixelsPerUnit));
+          const value = measured === null ? undefined : Math.round(measured * (option.type === 'angle' ? 10 : 100)) / (option.type === 'angle' ? 10 : 100);
+          const dimension = createDimensionShape(generateId(), option.type, option.vertices, getShape, value);
+          if (!dimension) return prev;
+          return solveDimensionConstraints([...prev, dimension], [], canvasSize.width, canvasSize.height, pixelsPerUnit, originY).shapes;
+      });
+  };
+
+  const updateDimensionValue = (val: number) => {
+      if (!selectedShape?.dimension) return;
+      const type = selectedShape.dimension.type;
+      if (val <= 0 || (type === 'angle' && val >= 180)) return;
+      const id = selectedShape.id;
+      setShapes(prev => solveDimensionConstraints(
+          prev.map(s => (s.id === id && s.dimension) ? { ...s, dimension: { ...s.dimension, value: val } } : s),
+          [], canvasSize.width, canvasSize.height, pixelsPerUnit, originY
+      ).shapes);
+  };
+
+  // Locus tracing applies to a point, or to the point owning the selected trail
+  const tracedPointId = selectedShape?.type === ShapeType.POINT ? selectedShape.id : selectedShape?.traceSourceId;
+  const tracedPoint = tracedPointId ? shapes.find(s => s.id === tracedPointId) : undefined;
+  const tracedTrail = tracedPointId ? findTrail(shapes, tracedPointId) : undefined;
+
+  const animation = selectedShape?.animation || DEFAULT_ANIMATION;
+
+  const updateAnimation = (patch: Partial<AnimationConfig>) => {
+      if (!selectedShape) return;
+      const id = selectedShape.id;
+      setShapes(prev => prev.map(s => s.id === id ? { ...s, animation: { ...(s.animation || DEFAULT_ANIMATION), ...patch } } : s));
+  };
+
+  const sliderNames = getSliders(shapes).map(s => s.slider!.name);
+
+  // Re-runs everything that depends on a slider (function paths, bound constraint parameters)
+  const resolveSlider = (prev: Shape[], name: string) => {
+      const slider = findSliderByName(prev, name);
+      return slider ? resolveConstraints(prev, slider.id, canvasSize.width, canvasSize.height, pixelsPerUnit, originY) : prev;
+  };
+
+  const bindFormulaParam = (key: FormulaParamKey, name: string) => {
+      if (!selectedShape) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const next = prev.map(s => {
+              if (s.id !== id) return s;
+              const sliderBindings = { ...s.sliderBindings };
+              if (name) sliderBindings[key] = name; else delete sliderBindings[key];
+              return { ...s, sliderBindings: Object.keys(sliderBindings).length > 0 ? sliderBindings : undefined };
+          });
+          return name ? resolveSlider(next, name) : next;
+      });
+  };
+
+  const bindConstraintParam = (name: string) => {
+      if (!selectedShape?.constraint) return;
+      const param = getAnimatedParam(selectedShape);
+      if (!param) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const next = prev.map(s => (s.id === id && s.constraint) ? { ...s, constraint: { ...s.constraint, sliderBindings: name ? { [param]: name } : undefined } } : s);
+          return name ? resolveSlider(next, name) : next;
+      });
+  };
+
+  // Stores new formulas on the selected graph or curve, reading the given sliders, and redraws it
+  const commitFormulas = (patch: Partial<Shape>, variables: string[]) => {
+      if (!selectedShape) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const expressionScope: Record<string, number> = {};
+          variables.forEach(name => { expressionScope[name] = findSliderByName(prev, name)?.slider?.value ?? 0; });
+          const next = prev.map(s => {
+              if (s.id !== id) return s;
+              const updated = { ...s, ...patch, expressionScope };
+              return redrawFormulaShape(updated, canvasSize.width, canvasSize.height, pixelsPerUnit, originY);
+          });
+          return resolveConstraints(next, id, canvasSize.width, canvasSize.height, pixelsPerUnit, originY);
+      });
+  };
+
+  const describeExpressionError = (e: unknown) => {
+      if (e instanceof ExpressionError) return `${e.message} (at ${e.position + 1})`;
+      throw e;
+  };
+
+  // Applies a new expression to the selected graph; returns the parse error to show, if any
+  const updateExpression = (text: string): string | null => {
+      try {
+          commitFormulas({ expression: text.trim() }, compileExpression(text, sliderNames).variables);
+          return null;
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  // Applies new formulas or a new range to the selected curve; returns the error to show, if any
+  const updateCurve = (patch: Partial<CurveConfig>): string | null => {
+      if (!selectedShape?.curve) return null;
+      const curve = { ...selectedShape.curve, ...patch };
+      if (curve.r) curve.r = curve.r.replace(/theta/g, 'θ');
+      if (!(curve.tMax > curve.tMin)) return 'The range must end after it starts';
+      const argument = curveArgument(curve);
+      try {
+          const variables = (curve.kind === 'polar' ? [curve.r] : [curve.x, curve.y])
+              .flatMap(text => compileExpression(text || '', sliderNames, argument).variables);
+          commitFormulas({ curve }, Array.from(new Set(variables)));
+          return null;
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  const updateCurveRange = (key: 'tMin' | 'tMax', text: string): string | null => {
+      try {
+          return updateCurve({ [key]: evaluateConstant(text) });
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  // Applies a new equation to the selected implicit curve; returns the parse error to show, if any
+  const updateEquation = (text: string): string | null => {
+      try {
+          commitFormulas({ equation: text.trim() }, compileEquation(text, sliderNames).variables);
+          return null;
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  // Replaces (or with `index` past the end, adds) an inequality of the selected region, or removes it when `text` is null
+  const updateInequality = (index: number, text: string | null): string | null => {
+      if (!selectedShape?.inequalities) return null;
+      const inequalities = [...selectedShape.inequalities];
+      if (text === null) inequalities.splice(index, 1);
+      else if (text.trim()) inequalities[index] = text.trim();
+      else return 'Enter an inequality, e.g. y < 4';
+      try {
+          const variables = inequalities.flatMap(t => compileInequality(t, sliderNames).variables);
+          commitFormulas({ inequalities }, Array.from(new Set(variables)));
+          return null;
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  // Adds labelled points at the intercepts, vertex and intersections of the selected graph
+  const showKeyPoints = () => {
+      if (!selectedShape) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const graph = prev.find(s => s.id === id);
+          return graph ? [...prev, ...createKeyPoints(graph, prev, canvasSize.width, canvasSize.height, pixelsPerUnit, originY, generateId)] : prev;
+      });
+  };
+
+  // Adds the derivative of the selected graph, which follows its coefficients
+  const plotDerivative = () => {
+      if (!selectedShape) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const graph = prev.find(s => s.id === id);
+          const derivative = graph ? createDerivativeGraph(generateId(), graph, canvasSize.width, canvasSize.height, pixelsPerUnit, originY) : null;
+          return derivative ? [...prev, derivative] : prev;
+      });
+  };
+
+  const otherGraphs = selectedShape?.type === ShapeType.FUNCTION_GRAPH ? shapes.filter(s => s.id !== selectedShape.id && isPlottableGraph(s)) : [];
+
+  // Adds the area under the selected graph (or between it and another one), with its bounds on the x-axis
+  const showArea = (otherId?: string) => {
+      if (!selectedShape) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const graph = prev.find(s => s.id === id);
+          const other = otherId ? prev.find(s => s.id === otherId) : undefined;
+          return graph ? [...prev, ...createArea(graph, other, canvasSize.width, canvasSize.height, pixelsPerUnit, originY, generateId)] : prev;
+      });
+  };
+
+  const areaBounds = selectedShape?.type === ShapeType.AREA_REGION
+      ? (selectedShape.constraint?.parents || []).slice(2).map(id => shapes.find(s => s.id === id))
+      : [];
+
+  // Moves a bound of the selected area along the x-axis
+  const updateAreaBound = (boundId: string, x: number) => {
+      const point = mathToScreen({ x, y: 0 }, canvasSize.width, canvasSize.height, pixelsPerUnit, originY);
+      setShapes(prev => resolveConstraints(
+          prev.map(s => (s.id === boundId && s.constraint?.type === 'x_axis') ? { ...s, points: [point], constraint: { ...s.constraint, paramX: x } } : s),
+          boundId, canvasSize.width, canvasSize.height, pixelsPerUnit, originY
+      ));
+  };
+
+  // Units per grid square along one axis, typed as an expression so that "pi/2" works
+  const updateAxisStep = (key: 'xStep' | 'yStep', text: string): string | null => {
+      try {
+          const step = evaluateConstant(text);
+          if (!(step > 0) || !isFinite(step)) return 'Must be a positive number';
+          setAxisConfig(prev => ({ ...prev, [key]: step }));
+          return null;
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  const axisRanges = getAxisRanges(axisMapping, canvasSize.width, pageHeight);
+
+  // Moves one end of the range shown along an axis (the other end stays put)
+  const updateAxisRange = (axis: 'x' | 'y', end: 0 | 1, text: string): string | null => {
+      try {
+          const range: [number, number] = [...axisRanges[axis]];
+          range[end] = evaluateConstant(text);
+          const next = fitAxisRange(axisConfig, axis, range, axisMapping, axis === 'x' ? canvasSize.width : pageHeight);
+          if (!next) return 'The range must not be empty';
+          setAxisConfig(next);
+          return null;
+      } catch (e) {
+          return describeExpressionError(e);
+      }
+  };
+
+  // Adds points on the selected graph at the x values of its table
+  const plotTablePoints = (xs: number[]) => {
+      if (!selectedShape) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const graph = prev.find(s => s.id === id);
+          return graph ? [...prev, ...createTablePoints(graph, xs, canvasSize.width, canvasSize.height, pixelsPerUnit, originY, generateId)] : prev;
+      });
+  };
+
+  const selectedPointData = shapes
+      .filter(s => selectedIds.has(s.id) && s.type === ShapeType.POINT && s.points[0])
+      .map(s => screenToMath(s.points[0], canvasSize.width, canvasSize.height, pixelsPerUnit, originY));
+
+  const plotDataPoints = (data: Point[]) => {
+      saveHistory();
+      setShapes(prev => [...prev, ...createDataPoints(data, currentStyle.stroke, canvasSize.width, canvasSize.height, pixelsPerUnit, originY, generateId)]);
+  };
+
+  // Adds the regression line or parabola of the data as a function graph; returns the fit to report
+  const fitData = (data: Point[], kind: RegressionKind): RegressionFit | null => {
+      const fit = fitRegression(data, kind);
+      if (!fit) return null;
+      const graph = createRegressionGraph(generateId(), fit, currentStyle.stroke, canvasSize.width, canvasSize.height, pixelsPerUnit, originY);
+      saveHistory();
+      setShapes(prev => [...prev, graph]);
+      return fit;
+  };
+
+  const tangentLine = selectedShape?.type === ShapeType.POINT ? shapes.find(s => s.constraint?.type === 'tangent' && s.constraint.parentId === selectedShape.id) : undefined;
+
+  // Draws the tangent at the selected point on a graph, or removes it if it already exists
+  const toggleTangent = () => {
+      if (!selectedShape) return;
+      saveHistory();
+      const point = selectedShape;
+      setShapes(prev => {
+          const existing = prev.find(s => s.constraint?.type === 'tangent' && s.constraint.parentId === point.id);
+          if (existing) return prev.filter(s => s.id !== existing.id);
+          const tangent = createTangentLine(generateId(), point, id => prev.find(s => s.id === id), canvasSize.width, canvasSize.height, pixelsPerUnit, originY);
+          return tangent ? [...prev, tangent] : prev;
+      });
+  };
+
+  // Adds a region shaded above or below the selected graph, reading the same sliders
+  const shadeGraph = (relation: '<' | '>') => {
+      if (!selectedShape) return;
+      const inequality = `y ${relation} ${graphFormula(selectedShape)}`;
+      let variables: string[];
+      try {
+          variables = compileInequality(inequality, sliderNames).variables;
+      } catch {
+          return;
+      }
+      saveHistory();
+      setShapes(prev => {
+          const expressionScope: Record<string, number> = {};
+          variables.forEach(name => { expressionScope[name] = findSliderByName(prev, name)?.slider?.value ?? 0; });
+          const region: Shape = { id: generateId(), type: ShapeType.INEQUALITY_REGION, points: [], inequalities: [inequality], expressionScope, fill: selectedShape.stroke, stroke: selectedShape.stroke, strokeWidth: selectedShape.strokeWidth, rotation: 0 };
+          return [...prev, redrawFormulaShape(region, canvasSize.width, canvasSize.height, pixelsPerUnit, originY)];
+      });
+  };
+
+  const setCurveKind = (kind: CurveConfig['kind']) => {
+      if (!selectedShape?.curve || selectedShape.curve.kind === kind) return;
+      updateCurve(kind === 'polar'
+          ? { kind, r: '3sin(2θ)', x: undefined, y: undefined, tMin: 0, tMax: 2 * Math.PI }
+          : { kind, x: '3cos(t)', y: '3sin(t)', r: undefined, tMin: 0, tMax: 2 * Math.PI });
+  };
+
+  const updateSlider = (patch: Partial<SliderConfig>) => {
+      if (!selectedShape?.slider) return;
+      const id = selectedShape.id;
+      setShapes(prev => {
+          const next = prev.map(s => {
+              if (s.id !== id || !s.slider) return s;
+              const config = { ...s.slider, ...patch };
+              return { ...s, slider: { ...config, value: snapSliderValue(config, config.value) } };
+          });
+          return resolveConstraints(next, id, canvasSize.width, canvasSize.height, pixelsPerUnit, originY);
+      });
+  };
+
+  const markableSides = selectedShape ? getMarkableSides(selectedShape) : [];
+
+  // Puts the given ticks/arrows on a side (replacing what was there), or clears it when `type` is null
+  const setSideMarker = (indices: number[], type: MarkerType | null, count: number = 1) => {
+      if (!selectedShape) return;
+      saveHistory();
+      const targetId = selectedShape.id;
+      setShapes(prev => {
+          const existing = findSideMarker(prev, targetId, indices);
+          const rest = existing ? prev.filter(s => s.id !== existing.id) : prev;
+          if (!type) return rest;
+          const marker = recalculateMarker({ id: existing?.id || generateId(), type: ShapeType.MARKER, points: [], fill: 'none', stroke: '#ef4444', strokeWidth: 2, rotation: 0, markerConfig: { type, count, targets: [{ shapeId: targetId, pointIndices: indices }] } }, prev);
+          return marker ? [...rest, marker] : rest;
+      });
+  };
+
+  const updateMarker = (patch: { type?: MarkerType; count?: number }) => {
+      if (!selectedShape?.markerConfig) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(ps => ps.map(s => (s.id === id && s.markerConfig) ? (recalculateMarker({ ...s, markerConfig: { ...s.markerConfig, ...patch } }, ps) || s) : s));
+  };
+
+  const measurementOptions = getMeasurementOptions(selection);
+
+  const toggleMeasurement = (option: MeasurementOption) => {
+      saveHistory();
+      setShapes(prev => {
+          const existing = prev.find(s => isSameMeasurement(s, option.config));
+          if (existing) return prev.filter(s => s.id !== existing.id);
+          const created = createMeasurementShape(generateId(), option.config, id => prev.find(s => s.id === id), getLengthScale(pixelsPerUnit), currentStyle.stroke === 'transparent' ? '#000000' : currentStyle.stroke);
+          return created ? [...prev, created] : prev;
+      });
+  };
+
+  const updateMeasurementPrecision = (precision: number) => {
+      if (!selectedShape?.measurement) return;
+      saveHistory();
+      const id = selectedShape.id;
+      setShapes(prev => prev.map(s => {
+          if (s.id !== id || !s.measurement) return s;
+          const next = { ...s, measurement: { ...s.measurement, precision } };
+          return evaluateMeasurement(next, pid => prev.find(p => p.id === pid), getLengthScale(pixelsPerUnit)) || next;
       }));
   };
 
@@ -282,27 +1032,100 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
             isOpen={activeSection === 'marker'} 
             onToggle={() => handleSectionToggle('marker')}
         >
-          <div className="flex bg-slate-100 p-1 rounded-lg">
-            <button 
-              onClick={() => { saveHistory(); setShapes(ps => ps.map(s => (s.id === selectedShape.id && s.markerConfig) ? (recalculateMarker({ ...s, markerConfig: { ...s.markerConfig, type: 'angle_arc' } }, ps) || s) : s)); }} 
-              className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.markerConfig?.type === 'angle_arc' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
-            >
-              Arc
-            </button>
-            <button 
-              onClick={() => { saveHistory(); setShapes(ps => ps.map(s => (s.id === selectedShape.id && s.markerConfig) ? (recalculateMarker({ ...s, markerConfig: { ...s.markerConfig, type: 'perpendicular' } }, ps) || s) : s)); }} 
-              className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.markerConfig?.type === 'perpendicular' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
-            >
-              Right Angle
-            </button>
+          {isSideMarker(selectedShape) ? (
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              <button 
+                onClick={() => updateMarker({ type: 'equal_tick' })} 
+                className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.markerConfig.type === 'equal_tick' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                Equal Ticks
+              </button>
+              <button 
+                onClick={() => updateMarker({ type: 'parallel_arrow' })} 
+                className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.markerConfig.type === 'parallel_arrow' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                Parallel Arrows
+              </button>
+            </div>
+          ) : (
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              <button 
+                onClick={() => updateMarker({ type: 'angle_arc' })} 
+                className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.markerConfig?.type === 'angle_arc' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                Arc
+              </button>
+              <button 
+                onClick={() => updateMarker({ type: 'perpendicular' })} 
+                className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.markerConfig?.type === 'perpendicular' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                Right Angle
+              </button>
+            </div>
+          )}
+          {selectedShape.markerConfig.type !== 'perpendicular' && (
+            <div className="flex items-center gap-2 mt-3">
+                <span className="w-16 text-xs font-bold text-slate-500">Count</span>
+                <div className="flex flex-1 bg-slate-100 p-1 rounded-lg">
+                  {[1, 2, 3].map(n => (
+                      <button 
+                        key={n}
+                        onClick={() => updateMarker({ count: n })} 
+                        className={`flex-1 py-1 text-xs font-bold rounded-md transition-all ${(selectedShape.markerConfig!.count || 1) === n ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                      >
+                        {n}
+                      </button>
+                  ))}
+                </div>
+            </div>
+          )}
+        </Section>
+      )}
+
+      {/* Contextual: Side Markers (equal sides, parallel sides) */}
+      {markableSides.length > 0 && (
+        <Section 
+            title="Mark Sides" 
+            icon={Equal}
+            isOpen={activeSection === 'sides'}
+            onToggle={() => handleSectionToggle('sides')}
+        >
+          <div className="space-y-2">
+            {markableSides.map(side => {
+                const current = findSideMarker(shapes, selectedShape!.id, side.indices)?.markerConfig;
+                return (
+                    <div key={side.key} className="flex items-center gap-2">
+                        <span className="w-10 text-xs font-bold text-slate-500">{side.label}</span>
+                        <div className="flex flex-1 bg-slate-100 p-1 rounded-lg">
+                          <button 
+                            onClick={() => setSideMarker(side.indices, null)} 
+                            className={`flex-1 py-1 text-xs font-bold rounded-md transition-all ${!current ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                            title="No marker"
+                          >
+                            –
+                          </button>
+                          {SIDE_MARKS.map(mark => (
+                              <button 
+                                key={`${mark.type}-${mark.count}`}
+                                onClick={() => setSideMarker(side.indices, mark.type, mark.count)} 
+                                className={`flex-1 py-1 text-xs font-bold rounded-md transition-all ${current?.type === mark.type && (current.count || 1) === mark.count ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                                title={mark.type === 'equal_tick' ? 'Equal sides' : 'Parallel sides'}
+                              >
+                                {mark.label}
+                              </button>
+                          ))}
+                        </div>
+                    </div>
+                );
+            })}
           </div>
         </Section>
       )}
 
       {/* Contextual: Function Properties */}
-      {selectedShape?.type === ShapeType.FUNCTION_GRAPH && selectedShape.formulaParams && (
+      {selectedShape?.type === ShapeType.FUNCTION_GRAPH && selectedShape.formulaParams && selectedShape.constraint?.type !== 'derivative' && (
         <Section 
-            title={(selectedShape.functionType || 'quadratic') === 'linear' ? 'Linear Function' : 'Quadratic Function'} 
+            title={selectedShape.functionType === 'linear' ? 'Linear Function' : selectedShape.functionType === 'inverse' ? 'Inverse Proportion' : 'Quadratic Function'} 
             icon={FunctionSquare}
             isOpen={activeSection === 'function'}
             onToggle={() => handleSectionToggle('function')}
@@ -327,13 +1150,18 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
                     {(selectedShape.functionForm === 'standard' ? ['a', 'b', 'c'] : ['a', 'h', 'k']).map(p => (
                     <div key={p} className="flex items-center gap-2" title={PARAM_DESCRIPTIONS[p]}>
                         <span className="w-6 font-bold text-slate-500 cursor-help border-b border-dotted border-slate-300">{p}</span>
-                        <NumberInput 
-                            step="0.1" 
-                            value={selectedShape.formulaParams![p as keyof typeof selectedShape.formulaParams] ?? 0} 
-                            onChange={(val) => { saveHistory(); updateFunctionParams(p, val); }}
-                            className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
-                            placeholder={PARAM_DESCRIPTIONS[p]}
-                        />
+                        {selectedShape.sliderBindings?.[p as FormulaParamKey] ? (
+                            <span className="flex-1 px-2 py-1 text-sm text-slate-500 italic">{selectedShape.formulaParams![p as FormulaParamKey] ?? 0}</span>
+                        ) : (
+                            <NumberInput 
+                                step="0.1" 
+                                value={selectedShape.formulaParams![p as keyof typeof selectedShape.formulaParams] ?? 0} 
+                                onChange={(val) => { saveHistory(); updateFunctionParams(p, val); }}
+                                className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                                placeholder={PARAM_DESCRIPTIONS[p]}
+                            />
+                        )}
+                        {sliderNames.length > 0 && <SliderSelect value={selectedShape.sliderBindings?.[p as FormulaParamKey]} names={sliderNames} onChange={(n) => bindFormulaParam(p as FormulaParamKey, n)} />}
                     </div>
                     ))}
                 </div>
@@ -345,33 +1173,501 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
                     )}
                 </div>
               </>
+          ) : selectedShape.functionType === 'inverse' ? (
+              <div className="space-y-3">
+                   <div className="flex items-center gap-2" title="Constant of proportionality (k)">
+                        <span className="w-6 font-bold text-slate-500 italic border-b border-dotted border-slate-300 cursor-help">k</span>
+                        {selectedShape.sliderBindings?.k ? (
+                            <span className="flex-1 px-2 py-1 text-sm text-slate-500 italic">{selectedShape.formulaParams.k ?? 1}</span>
+                        ) : (
+                            <NumberInput 
+                                step="0.1" 
+                                title="Product x·y of every point on the graph"
+                                value={selectedShape.formulaParams.k ?? 1} 
+                                onChange={(val) => { saveHistory(); updateFunctionParams('k', val); }}
+                                className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                            />
+                        )}
+                        {sliderNames.length > 0 && <SliderSelect value={selectedShape.sliderBindings?.k} names={sliderNames} onChange={(n) => bindFormulaParam('k', n)} />}
+                   </div>
+                   <div className="text-xs text-slate-400 mt-2 bg-slate-50 p-2 rounded">
+                       Format: y = k/x (asymptotes x = 0 and y = 0)
+                   </div>
+              </div>
           ) : (
               <div className="space-y-3">
                    <div className="flex items-center gap-2" title="Slope (k)">
                         <span className="w-6 font-bold text-slate-500 italic border-b border-dotted border-slate-300 cursor-help">k</span>
-                        <NumberInput 
-                            step="0.1" 
-                            title="Slope of the line"
-                            value={selectedShape.formulaParams.k ?? 1} 
-                            onChange={(val) => { saveHistory(); updateFunctionParams('k', val); }}
-                            className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
-                        />
+                        {selectedShape.sliderBindings?.k ? (
+                            <span className="flex-1 px-2 py-1 text-sm text-slate-500 italic">{selectedShape.formulaParams.k ?? 1}</span>
+                        ) : (
+                            <NumberInput 
+                                step="0.1" 
+                                title="Slope of the line"
+                                value={selectedShape.formulaParams.k ?? 1} 
+                                onChange={(val) => { saveHistory(); updateFunctionParams('k', val); }}
+                                className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                            />
+                        )}
+                        {sliderNames.length > 0 && <SliderSelect value={selectedShape.sliderBindings?.k} names={sliderNames} onChange={(n) => bindFormulaParam('k', n)} />}
                    </div>
                    <div className="flex items-center gap-2" title="Y-Intercept (b)">
                         <span className="w-6 font-bold text-slate-500 italic border-b border-dotted border-slate-300 cursor-help">b</span>
-                        <NumberInput 
-                            step="0.1" 
-                            title="Y-intercept of the line"
-                            value={selectedShape.formulaParams.b ?? 0} 
-                            onChange={(val) => { saveHistory(); updateFunctionParams('b', val); }}
-                            className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
-                        />
+                        {selectedShape.sliderBindings?.b ? (
+                            <span className="flex-1 px-2 py-1 text-sm text-slate-500 italic">{selectedShape.formulaParams.b ?? 0}</span>
+                        ) : (
+                            <NumberInput 
+                                step="0.1" 
+                                title="Y-intercept of the line"
+                                value={selectedShape.formulaParams.b ?? 0} 
+                                onChange={(val) => { saveHistory(); updateFunctionParams('b', val); }}
+                                className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                            />
+                        )}
+                        {sliderNames.length > 0 && <SliderSelect value={selectedShape.sliderBindings?.b} names={sliderNames} onChange={(n) => bindFormulaParam('b', n)} />}
                    </div>
                    <div className="text-xs text-slate-400 mt-2 bg-slate-50 p-2 rounded">
                        Format: y = kx + b
                    </div>
               </div>
           )}
+          <GraphTools onShowKeyPoints={showKeyPoints} onShade={shadeGraph} onDerivative={plotDerivative} onArea={showArea} otherGraphs={otherGraphs} />
+        </Section>
+      )}
+
+      {selectedShape?.type === ShapeType.FUNCTION_GRAPH && selectedShape.functionType === 'expression' && selectedShape.constraint?.type !== 'derivative' && (
+        <Section 
+            title="Function f(x)" 
+            icon={FunctionSquare}
+            isOpen={activeSection === 'function'}
+            onToggle={() => handleSectionToggle('function')}
+        >
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <span className="font-bold text-slate-500 italic shrink-0">y =</span>
+                <div className="flex-1"><ExpressionInput value={selectedShape.expression || ''} onCommit={updateExpression} /></div>
+            </div>
+            <div className="text-xs text-slate-400 bg-slate-50 p-2 rounded space-y-1">
+                <div>Operators + − * / ^ and |x|; sqrt, sin, cos, tan, ln, log, exp, abs… and the constants pi, e.</div>
+                <div>Piecewise: {'{'}x^2, x &lt; 0; sqrt(x){'}'}</div>
+                {sliderNames.length > 0 && <div>Sliders: {sliderNames.join(', ')}</div>}
+            </div>
+          </div>
+          <GraphTools onShowKeyPoints={showKeyPoints} onShade={shadeGraph} onDerivative={plotDerivative} onArea={showArea} otherGraphs={otherGraphs} />
+        </Section>
+      )}
+
+      {selectedShape?.type === ShapeType.FUNCTION_GRAPH && selectedShape.constraint?.type === 'derivative' && (
+        <Section 
+            title="Derivative f′(x)" 
+            icon={FunctionSquare}
+            isOpen={activeSection === 'function'}
+            onToggle={() => handleSectionToggle('function')}
+        >
+          <div className="text-sm font-bold text-slate-600">
+            {graphName(selectedShape)}
+          </div>
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+            {selectedShape.differentiate ? 'Computed numerically. ' : ''}Follows the graph it was taken from; edit that graph to change it.
+          </div>
+          <GraphTools 
+            onShowKeyPoints={showKeyPoints} 
+            onShade={selectedShape.differentiate ? undefined : shadeGraph} 
+            onDerivative={canDifferentiate(selectedShape) ? plotDerivative : undefined} 
+            onArea={showArea} 
+            otherGraphs={otherGraphs} 
+          />
+        </Section>
+      )}
+
+      {selectedShape?.type === ShapeType.PARAMETRIC_CURVE && selectedShape.curve && (
+        <Section 
+            title="Curve" 
+            icon={Orbit}
+            isOpen={activeSection === 'curve'}
+            onToggle={() => handleSectionToggle('curve')}
+        >
+          <div className="flex bg-slate-100 p-1 rounded-lg mb-4">
+              {(['parametric', 'polar'] as const).map(kind => (
+                  <button 
+                    key={kind}
+                    onClick={() => setCurveKind(kind)} 
+                    className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${selectedShape.curve!.kind === kind ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {kind}
+                  </button>
+              ))}
+          </div>
+          <div className="space-y-3">
+            {(selectedShape.curve.kind === 'polar' ? (['r'] as const) : (['x', 'y'] as const)).map(key => (
+                <div key={key} className="flex items-center gap-2">
+                    <span className="w-10 font-bold text-slate-500 italic shrink-0">{key}({curveArgument(selectedShape.curve!)}) =</span>
+                    <div className="flex-1"><ExpressionInput value={selectedShape.curve![key] || ''} onCommit={(text) => updateCurve({ [key]: text.trim() })} /></div>
+                </div>
+            ))}
+            <div className="flex items-center gap-2">
+                <span className="w-10 font-bold text-slate-500 italic shrink-0">{curveArgument(selectedShape.curve)} ∈</span>
+                <div className="flex-1"><ExpressionInput value={formatRangeEnd(selectedShape.curve.tMin)} onCommit={(text) => updateCurveRange('tMin', text)} /></div>
+                <div className="flex-1"><ExpressionInput value={formatRangeEnd(selectedShape.curve.tMax)} onCommit={(text) => updateCurveRange('tMax', text)} /></div>
+            </div>
+            <div className="text-xs text-slate-400 bg-slate-50 p-2 rounded space-y-1">
+                {selectedShape.curve.kind === 'polar'
+                    ? <div>Drawn as (r cos θ, r sin θ); type θ or theta. Angles are in radians, e.g. 2pi.</div>
+                    : <div>Formulas in t, e.g. a cycloid: x = t − sin(t), y = 1 − cos(t).</div>}
+                {sliderNames.length > 0 && <div>Sliders: {sliderNames.join(', ')}</div>}
+            </div>
+          </div>
+        </Section>
+      )}
+
+      {selectedShape?.type === ShapeType.IMPLICIT_CURVE && (
+        <Section 
+            title="Equation" 
+            icon={CircleDashed}
+            isOpen={activeSection === 'equation'}
+            onToggle={() => handleSectionToggle('equation')}
+        >
+          <div className="space-y-3">
+            <ExpressionInput value={selectedShape.equation || ''} onCommit={updateEquation} />
+            <div className="text-xs text-slate-400 bg-slate-50 p-2 rounded space-y-1">
+                <div>An equation in x and y, e.g. x^2/9 + y^2/4 = 1 or (x-1)^2 + (y+2)^2 = 4.</div>
+                {sliderNames.length > 0 && <div>Sliders: {sliderNames.join(', ')}</div>}
+            </div>
+            <div className="pt-2 border-t border-slate-100">
+                <div className="text-xs font-bold text-slate-500 mb-2">Parabola from focus and directrix</div>
+                <FocusDirectrixForm onApply={(equation) => updateEquation(equation)} />
+            </div>
+          </div>
+        </Section>
+      )}
+
+      {selectedShape?.type === ShapeType.INEQUALITY_REGION && selectedShape.inequalities && (
+        <Section 
+            title="Inequalities" 
+            icon={Blend}
+            isOpen={activeSection === 'inequalities'}
+            onToggle={() => handleSectionToggle('inequalities')}
+        >
+          <div className="space-y-2">
+            {selectedShape.inequalities.map((text, i) => (
+                <div key={i} className="flex items-start gap-1">
+                    <div className="flex-1"><ExpressionInput value={text} onCommit={(t) => updateInequality(i, t)} placeholder="e.g. y > 2x + 1" /></div>
+                    {selectedShape.inequalities!.length > 1 && (
+                        <button onClick={() => updateInequality(i, null)} className="p-1.5 text-slate-400 hover:text-red-600 rounded" title="Remove"><Minus size={14} /></button>
+                    )}
+                </div>
+            ))}
+            {/* Keyed by the count so that it empties once the new inequality is added */}
+            <ExpressionInput key={selectedShape.inequalities.length} value="" onCommit={(t) => updateInequality(selectedShape.inequalities!.length, t)} placeholder="Add another, e.g. y <= 4" />
+            <div className="text-xs text-slate-400 bg-slate-50 p-2 rounded space-y-1">
+                <div>The region where all of them hold is shaded, e.g. y &gt; 2x + 1, y ≤ -x^2 + 4 or -1 &lt; x &lt; 2.</div>
+                <div>Boundaries of &lt; and &gt; are dashed; those of ≤ and ≥ are solid.</div>
+                {sliderNames.length > 0 && <div>Sliders: {sliderNames.join(', ')}</div>}
+            </div>
+          </div>
+        </Section>
+      )}
+
+      {/* Contextual: Triangle Centers */}
+      {selectedShape?.type === ShapeType.TRIANGLE && (
+        <Section 
+            title="Triangle Centers" 
+            icon={Triangle}
+            isOpen={activeSection === 'triangle'}
+            onToggle={() => handleSectionToggle('triangle')}
+        >
+          <div className="grid grid-cols-2 gap-2">
+            {TRIANGLE_OPTIONS.map(opt => {
+                const active = shapes.some(s => isTriangleOption(s, selectedShape.id, opt.id));
+                return (
+                    <button 
+                        key={opt.id} 
+                        onClick={() => toggleTriangleOption(opt.id)} 
+                        className={`p-2 rounded text-xs font-medium border transition-colors ${active ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                    >
+                        {opt.label}
+                    </button>
+                );
+            })}
+          </div>
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+              Derived objects follow the triangle when it is moved, rotated or resized.
+          </div>
+        </Section>
+      )}
+
+      {/* Contextual: Dimensional Constraints */}
+      {(dimensionOptions.length > 0 || (selectedShape?.type === ShapeType.DIMENSION && selectedShape.dimension)) && (
+        <Section 
+            title="Constraints" 
+            icon={Ruler}
+            isOpen={activeSection === 'dimension'}
+            onToggle={() => handleSectionToggle('dimension')}
+        >
+          {selectedShape?.type === ShapeType.DIMENSION && selectedShape.dimension ? (
+              <div className="space-y-3">
+                  {(selectedShape.dimension.type === 'length' || selectedShape.dimension.type === 'angle') ? (
+                      <div className="flex items-center gap-2">
+                          <span className="w-14 text-xs font-bold text-slate-500">{selectedShape.dimension.type === 'length' ? 'Length' : 'Angle °'}</span>
+                          <NumberInput 
+                              step={selectedShape.dimension.type === 'length' ? '0.1' : '1'} 
+                              value={selectedShape.dimension.value ?? 0} 
+                              onChange={(val) => { saveHistory(); updateDimensionValue(val); }}
+                              className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                          />
+                      </div>
+                  ) : (
+                      <div className="text-sm font-bold text-slate-600">{getDimensionLabel(selectedShape.dimension)} {selectedShape.dimension.type.replace('_', ' ')}</div>
+                  )}
+                  <div className={`text-xs p-2 rounded ${selectedShape.dimension.satisfied === false ? 'bg-red-50 text-red-600' : 'bg-slate-50 text-slate-400'}`}>
+                      {selectedShape.dimension.satisfied === false ? 'Over-determined: this constraint conflicts with the others.' : 'Satisfied. The figure keeps this property while its vertices are dragged.'}
+                  </div>
+              </div>
+          ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                    {dimensionOptions.map(opt => {
+                        const existing = shapes.find(s => isSameDimension(s, opt.type, opt.vertices));
+                        return (
+                            <button 
+                                key={opt.key} 
+                                onClick={() => toggleDimension(opt)} 
+                                title={existing ? 'Remove constraint' : 'Fix the current value'}
+                                className={`p-2 rounded text-xs font-medium border transition-colors ${existing ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                            >
+                                {opt.label}{existing && (opt.type === 'length' || opt.type === 'angle') ? ` = ${getDimensionLabel(existing.dimension!)}` : ''}
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+                    Fixed values can be edited by selecting their label on the canvas.
+                </div>
+              </>
+          )}
+        </Section>
+      )}
+
+      {/* Contextual: Slider */}
+      {selectedShape?.type === ShapeType.SLIDER && selectedShape.slider && (
+        <Section 
+            title="Slider" 
+            icon={SlidersHorizontal}
+            isOpen={activeSection === 'slider'}
+            onToggle={() => handleSectionToggle('slider')}
+        >
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <span className="w-12 text-xs font-bold text-slate-500">Name</span>
+                <input 
+                    key={selectedShape.slider.name}
+                    type="text" 
+                    defaultValue={selectedShape.slider.name} 
+                    onBlur={(e) => { const renamed = renameSlider(shapes, selectedShape.id, e.target.value); if (renamed && renamed !== shapes) { saveHistory(); setShapes(renamed); } else e.target.value = selectedShape.slider!.name; }}
+                    onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm italic focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                />
+            </div>
+            {(['value', 'min', 'max', 'step'] as const).map(key => (
+                <div key={key} className="flex items-center gap-2">
+                    <span className="w-12 text-xs font-bold text-slate-500 capitalize">{key}</span>
+                    <NumberInput 
+                        step={key === 'value' ? String(selectedShape.slider!.step || 0.1) : '0.1'} 
+                        value={selectedShape.slider![key]} 
+                        onChange={(val) => { if (key === 'step' && val <= 0) return; saveHistory(); updateSlider({ [key]: val }); }}
+                        className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                    />
+                </div>
+            ))}
+          </div>
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+              Function coefficients and point positions can follow this slider by name.
+          </div>
+        </Section>
+      )}
+
+      {/* Contextual: Table of values of a function graph */}
+      {selectedShape?.type === ShapeType.FUNCTION_GRAPH && isPlottableGraph(selectedShape) && (
+        <Section 
+            title="Table of Values" 
+            icon={Table}
+            isOpen={activeSection === 'table'}
+            onToggle={() => handleSectionToggle('table')}
+        >
+          <ValueTable key={selectedShape.id} graph={selectedShape} onPlot={plotTablePoints} />
+        </Section>
+      )}
+
+      {/* Contextual: Area under or between graphs */}
+      {selectedShape?.type === ShapeType.AREA_REGION && (
+        <Section 
+            title="Area" 
+            icon={Blend}
+            isOpen={activeSection === 'area'}
+            onToggle={() => handleSectionToggle('area')}
+        >
+          <div className="text-sm font-bold text-slate-600 mb-3">{selectedShape.text}</div>
+          <div className="space-y-2">
+            {areaBounds.map((bound, i) => bound?.constraint?.type === 'x_axis' && (
+                <div key={bound.id} className="flex items-center gap-2">
+                    <span className="w-14 text-xs font-bold text-slate-500">{i === 0 ? 'From x' : 'To x'}</span>
+                    <NumberInput 
+                        step="0.1" 
+                        value={Math.round((bound.constraint.paramX ?? 0) * 100) / 100} 
+                        onChange={(val) => { saveHistory(); updateAreaBound(bound.id, val); }}
+                        className="flex-1 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500" 
+                    />
+                </div>
+            ))}
+          </div>
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+            In square grid units, integrated numerically. Drag the bounds along the x-axis to change it.
+          </div>
+        </Section>
+      )}
+
+      {/* Contextual: Tangent at a point on a function graph */}
+      {selectedShape?.type === ShapeType.POINT && canDrawTangent(selectedShape, id => shapes.find(s => s.id === id)) && (
+        <Section 
+            title="Tangent" 
+            icon={TrendingUp}
+            isOpen={activeSection === 'tangent'}
+            onToggle={() => handleSectionToggle('tangent')}
+        >
+          <button 
+            onClick={toggleTangent} 
+            className={`w-full p-2 rounded text-xs font-bold uppercase border transition-colors ${tangentLine ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+          >
+            {tangentLine ? 'Remove tangent' : 'Show tangent line'}
+          </button>
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+            {tangentLine?.isUndefined ? 'The graph has no slope at this point.' : `${tangentLine ? `Slope ${tangentLine.labels?.[1]}. ` : ''}The tangent follows the point as it is dragged or animated.`}
+          </div>
+        </Section>
+      )}
+
+      {/* Contextual: Animation of a bound point */}
+      {selectedShape && isAnimatable(selectedShape) && (
+        <Section 
+            title="Animation" 
+            icon={Play}
+            isOpen={activeSection === 'animation'}
+            onToggle={() => handleSectionToggle('animation')}
+        >
+          <button 
+            onClick={() => { if (!animation.playing) saveHistory(); updateAnimation({ playing: !animation.playing }); }} 
+            className={`w-full flex items-center justify-center gap-2 p-2 mb-3 rounded text-xs font-bold uppercase border transition-colors ${animation.playing ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+          >
+            {animation.playing ? <><Pause size={14} /> Pause</> : <><Play size={14} /> Play</>}
+          </button>
+          <div className="flex bg-slate-100 p-1 rounded-lg mb-3">
+            {(['loop', 'bounce'] as const).map(mode => (
+                <button 
+                  key={mode}
+                  onClick={() => updateAnimation({ mode })} 
+                  className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${animation.mode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {mode === 'loop' ? 'Loop' : 'Bounce'}
+                </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-12 text-xs font-bold text-slate-500">Speed</span>
+            <input 
+                type="range" min="0.1" max="5" step="0.1" 
+                value={animation.speed} 
+                onChange={(e) => updateAnimation({ speed: parseFloat(e.target.value) })} 
+                className="flex-1 accent-blue-500" 
+            />
+            <span className="w-8 text-xs text-slate-500 text-right">{animation.speed.toFixed(1)}×</span>
+          </div>
+          {sliderNames.length > 0 && (
+            <div className="flex items-center gap-2 mt-3">
+              <span className="w-12 text-xs font-bold text-slate-500">Slider</span>
+              <span className="flex-1 text-xs text-slate-400">{getAnimatedParam(selectedShape) === 'paramT' ? 'Position (0–1)' : getAnimatedParam(selectedShape) === 'paramAngle' ? 'Angle (°)' : 'x'}</span>
+              <SliderSelect value={Object.values(selectedShape.constraint?.sliderBindings || {})[0]} names={sliderNames} onChange={bindConstraintParam} />
+            </div>
+          )}
+        </Section>
+      )}
+
+      {/* Contextual: Measurements */}
+      {(measurementOptions.length > 0 || (selectedShape?.type === ShapeType.MEASUREMENT && selectedShape.measurement)) && (
+        <Section 
+            title="Measure" 
+            icon={Calculator}
+            isOpen={activeSection === 'measure'}
+            onToggle={() => handleSectionToggle('measure')}
+        >
+          {selectedShape?.type === ShapeType.MEASUREMENT && selectedShape.measurement ? (
+              <div className="flex items-center gap-2">
+                  <span className="w-16 text-xs font-bold text-slate-500">Decimals</span>
+                  <div className="flex flex-1 bg-slate-100 p-1 rounded-lg">
+                    {MEASUREMENT_PRECISIONS.map(p => (
+                        <button 
+                          key={p}
+                          onClick={() => updateMeasurementPrecision(p)} 
+                          className={`flex-1 py-1 text-xs font-bold rounded-md transition-all ${selectedShape.measurement!.precision === p ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                        >
+                          {p}
+                        </button>
+                    ))}
+                  </div>
+              </div>
+          ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {measurementOptions.map(opt => {
+                    const active = shapes.some(s => isSameMeasurement(s, opt.config));
+                    return (
+                        <button 
+                            key={opt.key} 
+                            onClick={() => toggleMeasurement(opt)} 
+                            className={`p-2 rounded text-xs font-medium border transition-colors ${active ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                        >
+                            {opt.label}
+                        </button>
+                    );
+                })}
+              </div>
+          )}
+        </Section>
+      )}
+
+      {/* Contextual: Locus Trace */}
+      {tracedPoint && (
+        <Section 
+            title="Locus Trace" 
+            icon={Footprints}
+            isOpen={activeSection === 'trace'}
+            onToggle={() => handleSectionToggle('trace')}
+        >
+          <div className="flex bg-slate-100 p-1 rounded-lg mb-3">
+            <button 
+              onClick={() => { saveHistory(); setShapes(ps => setTracing(ps, tracedPoint.id, !tracedPoint.isTracing)); }} 
+              className={`flex-1 py-1.5 text-xs font-bold uppercase rounded-md transition-all ${tracedPoint.isTracing ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {tracedPoint.isTracing ? 'Tracing' : 'Trace Off'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button 
+                onClick={() => { saveHistory(); setShapes(ps => clearTrail(ps, tracedPoint.id)); }} 
+                disabled={!tracedTrail}
+                className="p-2 rounded text-xs font-medium border bg-white border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40"
+            >
+                Clear Trail
+            </button>
+            <button 
+                onClick={() => { saveHistory(); setShapes(ps => convertTrailToCurve(ps, tracedPoint.id)); }} 
+                disabled={!tracedTrail || tracedTrail.points.length < 2}
+                className="p-2 rounded text-xs font-medium border bg-white border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40"
+            >
+                Make Curve
+            </button>
+          </div>
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+              The point leaves a trail when the objects it depends on are dragged or animated.
+          </div>
         </Section>
       )}
 
@@ -456,6 +1752,21 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
         </div>
       </Section>
 
+      {/* Data table and regression (with nothing or only points selected) */}
+      {(!selectedShape || selectedShape.type === ShapeType.POINT) && (
+        <Section 
+            title="Data & Regression" 
+            icon={ScatterChart}
+            isOpen={activeSection === 'regression'}
+            onToggle={() => handleSectionToggle('regression')}
+        >
+          <DataTable selectedData={selectedPointData} onPlot={plotDataPoints} onFit={fitData} />
+          <div className="text-xs text-slate-400 mt-3 bg-slate-50 p-2 rounded">
+            The fitted line or parabola becomes a function graph whose coefficients can be edited.
+          </div>
+        </Section>
+      )}
+
       {/* Smart Tools */}
       <Section 
         title="Smart Tools" 
@@ -509,6 +1820,50 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
           </div>
           <input type="range" min="2" max="20" value={axisConfig.ticks} onChange={(e) => setAxisConfig(prev => ({ ...prev, ticks: parseInt(e.target.value) }))} className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600" />
         </div>
+        {(['x', 'y'] as const).map(axis => {
+            const stepKey = axis === 'x' ? 'xStep' : 'yStep';
+            const labelKey = axis === 'x' ? 'xLabels' : 'yLabels';
+            const nameKey = axis === 'x' ? 'xName' : 'yName';
+            return (
+                <div key={axis} className="mt-3 pt-3 border-t border-slate-100 space-y-2">
+                    <div className="text-xs text-slate-500 uppercase font-semibold">{axis}-Axis</div>
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-slate-500 w-12">Range</span>
+                        <div className="flex-1"><ExpressionInput value={formatRangeEnd(axisRanges[axis][0])} onCommit={(text) => updateAxisRange(axis, 0, text)} placeholder="min" /></div>
+                        <span className="text-xs text-slate-400">to</span>
+                        <div className="flex-1"><ExpressionInput value={formatRangeEnd(axisRanges[axis][1])} onCommit={(text) => updateAxisRange(axis, 1, text)} placeholder="max" /></div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-slate-500 w-12" title="Units per grid square">Step</span>
+                        <div className="flex-1"><ExpressionInput value={formatRangeEnd(axisMapping.gridStep[axis])} onCommit={(text) => updateAxisStep(stepKey, text)} placeholder="e.g. pi/2" /></div>
+                        <select 
+                            value={axisConfig[labelKey] || 'decimal'} 
+                            onChange={(e) => setAxisConfig(prev => ({ ...prev, [labelKey]: e.target.value as AxisLabelStyle }))} 
+                            title="Tick labels"
+                            className="bg-slate-50 border rounded px-1 py-1 text-xs text-slate-600 focus:border-blue-500 focus:outline-none"
+                        >
+                            {AXIS_LABEL_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-slate-500 w-12">Name</span>
+                        <input 
+                            type="text" 
+                            value={axisConfig[nameKey] || ''} 
+                            onChange={(e) => setAxisConfig(prev => ({ ...prev, [nameKey]: e.target.value || undefined }))} 
+                            className="flex-1 min-w-0 bg-slate-50 border rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                            placeholder={axis}
+                        />
+                    </div>
+                </div>
+            );
+        })}
+        <button 
+            onClick={() => setAxisConfig(prev => ({ ...prev, xStep: undefined, yStep: undefined, origin: undefined }))} 
+            className="w-full mt-3 p-1.5 bg-slate-50 border border-slate-200 rounded text-slate-600 text-xs font-medium hover:bg-slate-100 transition-colors"
+        >
+            Reset Scale &amp; Origin
+        </button>
       </Section>
 
     </div>
@@ -531,9 +1886,20 @@ export const PropertiesPanel = React.memo<PropertiesPanelProps>(({
         prev.markingAnglesMode !== next.markingAnglesMode ||
         prev.pickingMirrorMode !== next.pickingMirrorMode) return false;
 
+    // Resizing the window or adding a page moves the axes: axis ranges and new graph objects use the new mapping
+    if (prev.canvasSize.width !== next.canvasSize.width ||
+        prev.canvasSize.height !== next.canvasSize.height ||
+        prev.pixelsPerUnit !== next.pixelsPerUnit ||
+        prev.originY !== next.originY ||
+        prev.axisMapping !== next.axisMapping ||
+        prev.pageHeight !== next.pageHeight) return false;
+
     // If no selection, and no global mode change, skip render even if 'shapes' changed (e.g. background drawing)
     if (prev.selectedIds.size === 0) return true;
 
+    // Added/removed shapes can change contextual toggles (e.g. triangle centers) of the selection
+    if (prev.shapes.length !== next.shapes.length) return false;
+
     // If there is a selection, we must check if the selected shape inside 'shapes' array has changed
     const prevSel = prev.shapes.find(s => prev.selectedIds.has(s.id));
     const nextSel = next.shapes.find(s => next.selectedIds.has(s.id));
@@ -16,6 +16,7 @@ interface SelectionOverlayProps {
   onSetPivot: (index: number | 'center') => void;
   onMarkAngle?: (index: number) => void;
   onAngleDoubleClick?: (index: number, e: React.MouseEvent) => void; 
+  graphHandles?: Point[]; // Screen positions of a function graph's draggable vertex / intercept handles
 }
 
 export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ 
@@ -28,7 +29,8 @@ export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({
   onRotateStart, 
   onSetPivot, 
   onMarkAngle,
-  onAngleDoubleClick 
+  onAngleDoubleClick,
+  graphHandles
 }) => {
   const { points, type, rotation } = shape;
   const handleSize = 10;
@@ -96,8 +98,27 @@ export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({
       minX = 0; minY = 0; maxX = 100; maxY = 100; width = 100; height = 100;
   }
 
-  // Special Case: Function Graphs are handled purely by the sidebar. 
+  // Function Graphs: handles on the vertex (quadratic) or intercept and second point (linear) rewrite the coefficients
   if (type === ShapeType.FUNCTION_GRAPH) {
+      if (!graphHandles || graphHandles.length === 0) return null;
+      return (
+          <g>
+              {graphHandles.map((p, i) => (
+                  <rect
+                    key={`g-${i}`}
+                    x={p.x - offset}
+                    y={p.y - offset}
+                    {...handleStyle}
+                    onPointerDown={(e) => onResizeStart(i, e)}
+                    style={{ cursor: 'move', pointerEvents: 'auto' }}
+                  />
+              ))}
+          </g>
+      );
+  }
+
+  // Special Case: Curves and dimension / measurement labels are handled purely by the sidebar. 
+  if ( type === ShapeType.PARAMETRIC_CURVE || type === ShapeType.IMPLICIT_CURVE || type === ShapeType.INEQUALITY_REGION || type === ShapeType.AREA_REGION || type === ShapeType.DIMENSION || type === ShapeType.MEASUREMENT) {
       return null;
   }
 
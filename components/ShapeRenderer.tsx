@@ -2,6 +2,8 @@ import React from 'react';
 import katex from 'katex';
 import { Shape, ShapeType, Point, ToolType } from '../types';
 import { getShapeCenter, getSmoothSvgPath, getVariableWidthPath } from '../utils/mathUtils';
+import { getDimensionLabel } from '../utils/geometricSolver';
+import { getSliderKnob, SLIDER_KNOB_RADIUS } from '../utils/sliders';
 
 interface ShapeRendererProps {
   shape: Shape;
@@ -28,6 +30,49 @@ export const ShapeRenderer = React.memo(({ shape, isSelected, tool, pixelsPerUni
       );
   }
 
+  if (type === ShapeType.DIMENSION) {
+      if (!shape.dimension) return null;
+      const label = getDimensionLabel(shape.dimension);
+      const color = isSelected ? '#3b82f6' : shape.dimension.satisfied === false ? '#dc2626' : '#0f766e';
+      return (
+          <g data-shape-id={shape.id} style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : 'pointer' }}>
+              {points.map((p, i) => (
+                  <text key={i} x={p.x} y={p.y} fill={color} fontSize={13} fontWeight="bold" fontFamily="sans-serif" textAnchor="middle" dominantBaseline="middle" stroke="white" strokeWidth={3} paintOrder="stroke" style={{ userSelect: 'none' }}>
+                      {label}
+                  </text>
+              ))}
+          </g>
+      );
+  }
+
+  if (type === ShapeType.MEASUREMENT) {
+      if (!points[0] || !text) return null;
+      return (
+          <g className="shape-group" data-shape-id={shape.id} style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : (isSelected ? 'move' : 'pointer') }}>
+              <text x={points[0].x} y={points[0].y} fill={isSelected ? '#3b82f6' : stroke} fontSize={14} fontFamily="serif" fontStyle="italic" textAnchor="middle" dominantBaseline="middle" stroke="white" strokeWidth={3} paintOrder="stroke" style={{ userSelect: 'none' }}>
+                  {text}
+              </text>
+          </g>
+      );
+  }
+
+  if (type === ShapeType.SLIDER) {
+      if (!shape.slider || points.length < 2) return null;
+      const [a, b] = points;
+      const knob = getSliderKnob(shape);
+      const color = isSelected ? '#3b82f6' : stroke;
+      return (
+          <g className="shape-group" data-shape-id={shape.id} style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : 'pointer' }}>
+              <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#cbd5e1" strokeWidth={4} strokeLinecap="round" />
+              <line x1={a.x} y1={a.y} x2={knob.x} y2={knob.y} stroke={color} strokeWidth={4} strokeLinecap="round" />
+              <circle cx={knob.x} cy={knob.y} r={SLIDER_KNOB_RADIUS} fill="white" stroke={color} strokeWidth={2} style={{ cursor: 'ew-resize' }} />
+              <text x={a.x} y={a.y - 14} fill={color} fontSize={13} fontFamily="sans-serif" fontStyle="italic" style={{ userSelect: 'none' }}>
+                  {shape.slider.name} = {shape.slider.value}
+              </text>
+          </g>
+      );
+  }
+
   let dashArray = 'none';
   if (strokeType === 'dashed') {
       dashArray = `${strokeWidth * 4},${strokeWidth * 2}`; 
@@ -50,7 +95,7 @@ export const ShapeRenderer = React.memo(({ shape, isSelected, tool, pixelsPerUni
   const rotationTransform = rotation ? `rotate(${rotation} ${center.x} ${center.y})` : '';
 
   const renderMidpoints = () => {
-    if ([ShapeType.FREEHAND, ShapeType.PATH, ShapeType.POINT, ShapeType.TEXT, ShapeType.IMAGE, ShapeType.RULER, ShapeType.PROTRACTOR, ShapeType.FUNCTION_GRAPH, ShapeType.MARKER].includes(type)) return null;
+    if ([ShapeType.FREEHAND, ShapeType.PATH, ShapeType.POINT, ShapeType.TEXT, ShapeType.IMAGE, ShapeType.RULER, ShapeType.PROTRACTOR, ShapeType.FUNCTION_GRAPH, ShapeType.PARAMETRIC_CURVE, ShapeType.IMPLICIT_CURVE, ShapeType.INEQUALITY_REGION, ShapeType.AREA_REGION, ShapeType.MARKER].includes(type)) return null;
 
     const dots: React.ReactNode[] = [];
 
@@ -81,7 +126,7 @@ export const ShapeRenderer = React.memo(({ shape, isSelected, tool, pixelsPerUni
     return <g className="midpoints-layer">{dots}</g>;
   };
 
-  if (type === ShapeType.FUNCTION_GRAPH) {
+  if (type === ShapeType.FUNCTION_GRAPH || type === ShapeType.PARAMETRIC_CURVE || type === ShapeType.IMPLICIT_CURVE) {
       if (!pathData) return null;
       return (
           <g className="shape-group" transform={rotationTransform} style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : (isSelected ? 'pointer' : 'pointer') }} data-shape-id={shape.id}>
@@ -92,6 +137,35 @@ export const ShapeRenderer = React.memo(({ shape, isSelected, tool, pixelsPerUni
       );
   }
 
+  if (type === ShapeType.INEQUALITY_REGION) {
+      // Boundaries of strict inequalities are dashed: the points on them are not part of the region
+      const boundaryWidth = isSelected ? Math.max(strokeWidth, 2) : strokeWidth;
+      return (
+          <g className="shape-group" style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : 'pointer' }} data-shape-id={shape.id}>
+              {/* Only the boundaries are hit (see isPointInShape), so the fill shows no pointer */}
+              {pathData && <path d={pathData} fill={fill === 'transparent' || fill === 'none' ? stroke : fill} fillOpacity={isSelected ? 0.3 : 0.2} stroke="none" style={{ pointerEvents: 'none' }} />}
+              {(shape.boundaryPaths || []).map((b, i) => b.pathData && (
+                  <path key={i} d={b.pathData} fill="none" stroke={isSelected ? '#3b82f6' : stroke} strokeWidth={boundaryWidth} strokeDasharray={b.strict ? `${boundaryWidth * 4},${boundaryWidth * 3}` : 'none'} opacity={0.9} strokeLinecap="round" strokeLinejoin="round" />
+              ))}
+          </g>
+      );
+  }
+
+  if (type === ShapeType.AREA_REGION) {
+      // The integrated value sits in the middle of the shading
+      const labelPos = getShapeCenter(points);
+      return (
+          <g className="shape-group" style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : 'pointer' }} data-shape-id={shape.id}>
+              {pathData && <path d={pathData} fill={fill === 'transparent' || fill === 'none' ? stroke : fill} fillOpacity={isSelected ? 0.35 : 0.25} stroke={isSelected ? '#3b82f6' : 'none'} strokeWidth={1} />}
+              {pathData && text && (
+                  <text x={labelPos.x} y={labelPos.y} fill={stroke} fontSize={14} fontWeight="bold" fontFamily="sans-serif" textAnchor="middle" dominantBaseline="middle" style={{ pointerEvents: 'none', userSelect: 'none' }}>
+                      {text}
+                  </text>
+              )}
+          </g>
+      );
+  }
+
   if (!points || points.length === 0) return null;
 
   let element = null;
@@ -194,8 +268,9 @@ export const ShapeRenderer = React.memo(({ shape, isSelected, tool, pixelsPerUni
         }
         break;
     case ShapeType.PATH:
-        if (!pathData) return null;
-        element = <path d={pathData} {...commonProps} />;
+        // Compass arcs carry their own path data; locus trails are drawn through their samples
+        if (!pathData && points.length < 2) return null;
+        element = <path d={pathData || getSmoothSvgPath(points)} {...commonProps} fill="none" />;
         break;
     case ShapeType.POINT:
         element = <circle cx={p0.x} cy={p0.y} r={Math.max(4, strokeWidth * 2)} fill={stroke} stroke={isSelected ? '#3b82f6' : 'none'} strokeWidth={isSelected ? 2 : 0} />;
@@ -362,7 +437,7 @@ export const ShapeRenderer = React.memo(({ shape, isSelected, tool, pixelsPerUni
   }
 
   return (
-    <g className="shape-group" transform={rotationTransform} style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : (isSelected ? 'move' : 'pointer') }} data-shape-id={shape.id}>
+    <g className="shape-group" transform={rotationTransform} opacity={shape.isUndefined ? 0.25 : undefined} style={{ cursor: tool !== ToolType.SELECT ? 'inherit' : (isSelected ? 'move' : 'pointer') }} data-shape-id={shape.id}>
       {isSelected && type !== ShapeType.IMAGE && (
           <g style={{ opacity: 0.3, pointerEvents: 'none' }}>
              {React.cloneElement(element as React.ReactElement<any>, { 
@@ -9,12 +9,17 @@ interface SidebarProps {
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ activeTool, onToolChange }) => {
+  const constructionIds = [
+    ToolType.RULER, ToolType.COMPASS, ToolType.PROTRACTOR,
+    ToolType.MIDPOINT, ToolType.PERPENDICULAR_BISECTOR, ToolType.ANGLE_BISECTOR, ToolType.PARALLEL, ToolType.PERPENDICULAR
+  ];
+
   const standardTools = TOOL_CONFIG.filter(t => 
-    ![ToolType.RULER, ToolType.COMPASS, ToolType.PROTRACTOR].includes(t.id)
+    !constructionIds.includes(t.id)
   );
   
   const constructionTools = TOOL_CONFIG.filter(t => 
-    [ToolType.RULER, ToolType.COMPASS, ToolType.PROTRACTOR].includes(t.id)
+    constructionIds.includes(t.id)
   );
 
   const renderToolButton = (t: typeof TOOL_CONFIG[0]) => (
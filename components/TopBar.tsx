@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { 
   Spline, Box, ChevronDown, Apple, Monitor, Terminal, 
   FolderOpen, Save, Undo, Trash2, 
-  Eraser, Download, Minus, Plus
+  Eraser, Download, Minus, Plus, Network
 } from 'lucide-react';
 import { Shape } from '../types';
 import { exportCanvas, exportAppIcon } from '../utils/exportUtils';
@@ -18,6 +18,8 @@ interface TopBarProps {
   onSave: () => void;
   zoom: number;
   onZoomChange: (newZoom: number) => void;
+  showDependencies: boolean;
+  onToggleDependencies: () => void;
 }
 
 export const TopBar: React.FC<TopBarProps> = ({
@@ -30,6 +32,8 @@ export const TopBar: React.FC<TopBarProps> = ({
   onSave,
   zoom,
   onZoomChange,
+  showDependencies,
+  onToggleDependencies,
 }) => {
   const [showIconDropdown, setShowIconDropdown] = useState(false);
 
@@ -117,6 +121,16 @@ export const TopBar: React.FC<TopBarProps> = ({
 
         <div className="w-px h-5 bg-slate-200 mx-1"></div>
 
+        <button 
+          onClick={onToggleDependencies} 
+          className={`p-2 rounded flex items-center gap-1 text-sm font-medium transition-colors ${showDependencies ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-100'}`} 
+          title="Dependencies"
+        >
+          <Network size={18}/> Dependencies
+        </button>
+
+        <div className="w-px h-5 bg-slate-200 mx-1"></div>
+
         <button 
           onClick={undo} 
           className="p-2 text-slate-600 hover:bg-slate-100 rounded flex items-center gap-1 text-sm font-medium" 
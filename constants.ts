@@ -1,6 +1,6 @@
 
 import { ToolType } from './types';
-import { MousePointer2, Dot, Minus, Square, Circle, Triangle, Egg, Maximize, Type, Pencil, Gauge, FunctionSquare, Ruler, Compass, Eraser, TrendingUp } from 'lucide-react';
+import { MousePointer2, Dot, Minus, Square, Circle, Triangle, Egg, Maximize, Type, Pencil, Gauge, FunctionSquare, Ruler, Compass, Eraser, TrendingUp, GitCommitHorizontal, SplitSquareHorizontal, Spline, Equal, CornerDownRight, SlidersHorizontal, Sigma, Orbit, CircleDashed, Blend, Divide } from 'lucide-react';
 
 export const COLORS = [
   'transparent', '#000000', '#ffffff', 
@@ -25,6 +25,11 @@ export const TOOL_CONFIG = [
   { id: ToolType.RULER, label: 'Ruler (R)', icon: Ruler },       
   { id: ToolType.LINEAR_FUNCTION, label: 'Linear Function', icon: TrendingUp }, // New
   { id: ToolType.FUNCTION, label: 'Quadratic Function', icon: FunctionSquare },
+  { id: ToolType.INVERSE_FUNCTION, label: 'Inverse Proportion y = k/x', icon: Divide },
+  { id: ToolType.EXPRESSION_FUNCTION, label: 'Function f(x)', icon: Sigma },
+  { id: ToolType.CURVE, label: 'Parametric / Polar Curve', icon: Orbit },
+  { id: ToolType.IMPLICIT_CURVE, label: 'Equation Curve (x, y)', icon: CircleDashed },
+  { id: ToolType.INEQUALITY, label: 'Inequality Region', icon: Blend },
   
   { id: ToolType.POINT, label: 'Point (P)', icon: Dot },
   { id: ToolType.LINE, label: 'Line (L)', icon: Minus },
@@ -35,6 +40,13 @@ export const TOOL_CONFIG = [
   { id: ToolType.TRIANGLE, label: 'Triangle', icon: Triangle },
   { id: ToolType.PROTRACTOR, label: 'Protractor', icon: Gauge },
   { id: ToolType.TEXT, label: 'Text', icon: Type },
+  { id: ToolType.SLIDER, label: 'Slider', icon: SlidersHorizontal },
+
+  { id: ToolType.MIDPOINT, label: 'Midpoint (2 points or a segment)', icon: GitCommitHorizontal },
+  { id: ToolType.PERPENDICULAR_BISECTOR, label: 'Perpendicular Bisector (2 points or a segment)', icon: SplitSquareHorizontal },
+  { id: ToolType.ANGLE_BISECTOR, label: 'Angle Bisector (point, vertex, point)', icon: Spline },
+  { id: ToolType.PARALLEL, label: 'Parallel Line (line + point)', icon: Equal },
+  { id: ToolType.PERPENDICULAR, label: 'Perpendicular Line (line + point)', icon: CornerDownRight },
 ];
 
 export const DEFAULT_SHAPE_PROPS = {
@@ -15,9 +15,20 @@ export enum ToolType {
   PROTRACTOR = 'PROTRACTOR',
   FUNCTION = 'FUNCTION',
   LINEAR_FUNCTION = 'LINEAR_FUNCTION', // New
+  INVERSE_FUNCTION = 'INVERSE_FUNCTION',
+  EXPRESSION_FUNCTION = 'EXPRESSION_FUNCTION',
   COMPASS = 'COMPASS',
   RULER = 'RULER',
-  IMAGE = 'IMAGE'
+  IMAGE = 'IMAGE',
+  MIDPOINT = 'MIDPOINT',
+  PERPENDICULAR_BISECTOR = 'PERPENDICULAR_BISECTOR',
+  ANGLE_BISECTOR = 'ANGLE_BISECTOR',
+  PARALLEL = 'PARALLEL',
+  PERPENDICULAR = 'PERPENDICULAR',
+  SLIDER = 'SLIDER',
+  CURVE = 'CURVE',
+  IMPLICIT_CURVE = 'IMPLICIT_CURVE',
+  INEQUALITY = 'INEQUALITY'
 }
 
 export enum ShapeType {
@@ -36,7 +47,14 @@ export enum ShapeType {
   RULER = 'RULER',
   MARKER = 'MARKER',
   FUNCTION_GRAPH = 'FUNCTION_GRAPH',
-  IMAGE = 'IMAGE'
+  IMAGE = 'IMAGE',
+  DIMENSION = 'DIMENSION',
+  SLIDER = 'SLIDER',
+  MEASUREMENT = 'MEASUREMENT',
+  PARAMETRIC_CURVE = 'PARAMETRIC_CURVE',
+  IMPLICIT_CURVE = 'IMPLICIT_CURVE',
+  INEQUALITY_REGION = 'INEQUALITY_REGION',
+  AREA_REGION = 'AREA_REGION'
 }
 
 export interface Point {
@@ -58,17 +76,90 @@ export type MarkerType = 'perpendicular' | 'parallel_arrow' | 'equal_tick' | 'an
 
 export interface MarkerConfig {
     type: MarkerType;
-    targets: { shapeId: string; pointIndices: number[] }[]; 
+    targets: { shapeId: string; pointIndices: number[] }[]; // Two indices (side) for ticks/arrows, three (angle) otherwise
+    count?: number; // 1-3 ticks, arrowheads or arcs; equal counts mark equal sides/angles
 }
 
+// Numeric constraints held by utils/geometricSolver.ts while vertices are dragged
+export type DimensionType = 'length' | 'angle' | 'parallel' | 'perpendicular' | 'equal_length';
+
+export interface VertexRef {
+    shapeId: string;
+    pointIndex: number;
+}
+
+export interface DimensionConfig {
+    type: DimensionType;
+    // length: A, B | angle: A, vertex, C | parallel / perpendicular / equal_length: A, B, C, D
+    vertices: VertexRef[];
+    value?: number; // Grid units for length, degrees for angle
+    satisfied?: boolean; // Set by the solver; false when the system is over-determined
+}
+
+// Live value shown next to its target (see utils/measurements.ts)
+export type MeasurementType = 'length' | 'perimeter' | 'area' | 'angle';
+
+export interface MeasurementConfig {
+    type: MeasurementType;
+    targetId?: string; // Measured line / polygon / circle
+    index?: number; // Edge (length) or vertex (angle) of a polygon target
+    pointIds?: string[]; // Angle through three points: A, vertex, C
+    precision: number; // Decimal places
+    offset?: Point; // Label offset from its default position, set by dragging it
+}
+
+// Named number drawn on the canvas; function coefficients and constraint parameters can reference it
+export interface SliderConfig {
+    name: string;
+    min: number;
+    max: number;
+    step: number;
+    value: number;
+}
+
+// Curve given by formulas in a parameter: x(t), y(t), or r(θ) drawn as (r cos θ, r sin θ)
+export interface CurveConfig {
+    kind: 'parametric' | 'polar';
+    x?: string; // Parametric x(t)
+    y?: string; // Parametric y(t)
+    r?: string; // Polar r(θ)
+    tMin: number;
+    tMax: number; // Parameter range (θ in radians)
+}
+
+export type FormulaParamKey = 'a' | 'b' | 'c' | 'h' | 'k';
+export type ConstraintParamKey = 'paramT' | 'paramAngle' | 'paramX';
+
+// Sweeps the binding parameter of a constrained point (see utils/animation.ts)
+export interface AnimationConfig {
+    playing: boolean;
+    mode: 'loop' | 'bounce';
+    speed: number; // 1 = one sweep of the range every 5 seconds
+    direction: 1 | -1;
+}
+
+// Derived objects that are recomputed from their parents (see utils/constructions.ts)
+export type ConstructionType =
+    | 'midpoint' | 'perpendicular_bisector' | 'angle_bisector' | 'parallel' | 'perpendicular'
+    | 'triangle_center' | 'circumcircle' | 'incircle' | 'median' | 'altitude';
+
+export type TriangleCenterType = 'centroid' | 'circumcenter' | 'incenter' | 'orthocenter';
+
+// Notable points of function graphs (see utils/keyPoints.ts); 'vertex' is also any turning point of other graphs
+export type KeyPointKind = 'root' | 'y_intercept' | 'vertex' | 'intersection';
+
 export interface Constraint {
-    type: 'on_path' | 'on_edge' | 'intersection' | 'points_link';
-    parentId?: string; // For on_path and on_edge
-    parents?: (string | null)[]; // For intersection AND points_link (multiple parents)
-    paramX?: number; // For function graphs (x-coordinate)
+    type: 'on_path' | 'on_edge' | 'intersection' | 'points_link' | 'dimension' | 'measurement' | 'key_point' | 'tangent' | 'derivative' | 'x_axis' | 'area' | ConstructionType;
+    parentId?: string; // For on_path and on_edge; reference line for constructions built on a segment; the point of a tangent, the graph of a derivative
+    parents?: (string | null)[]; // For intersection AND points_link (multiple parents); defining points for constructions; graph, second graph (null for the x-axis) and bounds of an area
+    paramX?: number; // For function graphs and points on the x-axis (x-coordinate)
     paramAngle?: number; // For circles/ellipses (degrees)
     edgeIndex?: number; // For polygons/lines (index of start vertex)
-    paramT?: number; // 0.0 to 1.0 along the edge
+    paramT?: number; // 0.0 to 1.0 along the edge, or along the parameter range of a curve
+    triangleCenter?: TriangleCenterType; // For triangle_center
+    vertexIndex?: number; // For medians/altitudes (vertex the segment starts from)
+    keyPoint?: { kind: KeyPointKind; index: number }; // For key_point: which one, counted by increasing x
+    sliderBindings?: Partial<Record<ConstraintParamKey, string>>; // Parameter -> slider name
 }
 
 export interface Shape {
@@ -87,8 +178,15 @@ export interface Shape {
   rotation: number; 
   
   markerConfig?: MarkerConfig;
+  dimension?: DimensionConfig;
+  measurement?: MeasurementConfig;
   constraint?: Constraint;
+  isUndefined?: boolean; // Set by the solver when a constraint has no solution (e.g. curves stopped intersecting)
   isTracing?: boolean; 
+  animation?: AnimationConfig;
+  slider?: SliderConfig;
+  sliderBindings?: Partial<Record<FormulaParamKey, string>>; // Function coefficient -> slider name
+  traceSourceId?: string; // For locus trails (PATH): the traced point that draws this trail
   
   // Pressure sensitivity metadata
   usePressure?: boolean;
@@ -98,8 +196,15 @@ export interface Shape {
   lastModifiedAngleIndex?: number; // Tracks the last angle index modified by the user
 
   // Specific for Functions
-  functionType?: 'quadratic' | 'linear'; 
+  functionType?: 'quadratic' | 'linear' | 'inverse' | 'expression'; // inverse: y = k/x
   functionForm?: 'standard' | 'vertex';
+  expression?: string; // Text of an 'expression' graph, e.g. "2sin(x)+1"
+  expressionScope?: Record<string, number>; // Slider name -> value, for the sliders the expression (or curve) reads
+  differentiate?: boolean; // Derivative of an expression graph: plots the slope of `expression` instead of its value
+  curve?: CurveConfig; // For PARAMETRIC_CURVE
+  equation?: string; // For IMPLICIT_CURVE, e.g. "x^2/9 + y^2/4 = 1"
+  inequalities?: string[]; // For INEQUALITY_REGION, shaded where all of them hold, e.g. ["y > 2x + 1", "y <= 4"]
+  boundaryPaths?: { pathData: string; strict: boolean }[]; // Generated with pathData (the fill): one boundary per comparison
   formulaParams?: { 
       a?: number; b?: number; c?: number; 
       h?: number; k?: number;             
@@ -109,9 +214,30 @@ export interface Shape {
   imageUrl?: string;
 }
 
+// How tick values are written: 0.5, 1/2 or π/2
+export type AxisLabelStyle = 'decimal' | 'fraction' | 'pi';
+
 export interface AxisConfig {
   visible: boolean;
-  ticks: number;
+  ticks: number; // Grid squares across half the shorter side of the view (sets the grid size)
   color: string;
   showGrid: boolean;
-}
\ No newline at end of file
+  xStep?: number; // Math units per grid square along the x-axis (default 1), e.g. π/2 for trig graphs
+  yStep?: number; // Math units per grid square along the y-axis (default 1)
+  origin?: Point; // Position of the origin on every page, as fractions of its width and height (default: the centre)
+  xLabels?: AxisLabelStyle; // Default 'decimal'
+  yLabels?: AxisLabelStyle;
+  xName?: string; // Written at the arrow of the axis, e.g. "t" or "v (m/s)"
+  yName?: string;
+}
+
+// Screen mapping of the math coordinates: pixels per unit along each axis, and where the origin is
+// horizontally (default: the middle of the canvas). A plain number is the same scale on both axes.
+export interface AxisScale {
+  x: number;
+  y: number;
+  originX?: number;
+  pageHeight?: number; // Height of each page; curves are drawn over the page the origin is on (default: the whole canvas)
+}
+
+export type PixelsPerUnit = number | AxisScale;
\ No newline at end of file
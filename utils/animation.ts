@@ -0,0 +1,95 @@
+import { Shape, AnimationConfig, PixelsPerUnit } from '../types';
+import { screenToMath } from './mathUtils';
+import { evaluateConstraint, resolveConstraints } from './constraintSystem';
+import { recordTraces } from './locusTrace';
+
+/**
+ * Animation of constrained points: the binding parameter (paramT, paramAngle or paramX) is swept
+ * over its range and every frame is propagated through the constraint solver.
+ */
+
+// Time for one full sweep of the range at speed 1
+const BASE_SWEEP_SECONDS = 5;
+
+export const DEFAULT_ANIMATION: AnimationConfig = { playing: false, mode: 'loop', speed: 1, direction: 1 };
+
+type AnimatedParam = 'paramT' | 'paramAngle' | 'paramX';
+
+// Which constraint parameter drives the point, if any
+export const getAnimatedParam = (shape: Shape): AnimatedParam | null => {
+    const c = shape.constraint;
+    if (!c) return null;
+    if (c.type === 'on_edge' && c.paramT !== undefined) return 'paramT';
+    if (c.type === 'on_path' && c.paramAngle !== undefined) return 'paramAngle';
+    if ((c.type === 'on_path' || c.type === 'x_axis') && c.paramX !== undefined) return 'paramX';
+    if (c.type === 'on_path' && c.paramT !== undefined) return 'paramT';
+    return null;
+};
+
+export const isAnimatable = (shape: Shape) => getAnimatedParam(shape) !== null;
+
+/**
+ * Range swept by the parameter. Function graphs (and the x-axis) are swept across the visible part of the x-axis.
+ */
+export const getAnimationRange = (param: AnimatedParam, canvasWidth: number, canvasHeight: number, pixelsPerUnit: PixelsPerUnit, originY?: number): [number, number] => {
+    if (param === 'paramT') return [0, 1];
+    if (param === 'paramAngle') return [0, 360];
+    const left = screenToMath({ x: 0, y: 0 }, canvasWidth, canvasHeight, pixelsPerUnit, originY).x;
+    const right = screenToMath({ x: canvasWidth, y: 0 }, canvasWidth, canvasHeight, pixelsPerUnit, originY).x;
+    return [left, right];
+};
+
+/**
+ * Advances a parameter by `dt` seconds. Loop wraps around at the end of the range,
+ * bounce reverses direction.
+ */
+export const stepParameter = (value: number, range: [number, number], config: AnimationConfig, dt: number): { value: number; direction: 1 | -1 } => {
+    const [min, max] = range;
+    const span = max - min;
+    if (span <= 0) return { value, direction: config.direction };
+    let next = value + config.direction * config.speed * (span / BASE_SWEEP_SECONDS) * dt;
+    let direction = config.direction;
+
+    if (config.mode === 'loop') {
+        next = min + ((((next - min) % span) + span) % span);
+    } else {
+        // Reflect off the ends (a huge dt could cross several times)
+        while (next > max || next < min) {
+            if (next > max) { next = 2 * max - next; direction = -1; }
+            else { next = 2 * min - next; direction = 1; }
+        }
+    }
+    return { value: next, direction };
+};
+
+/**
+ * Moves every playing point one frame forward and updates everything that depends on it
+ * (lines, markers, constructions, traces).
+ */
+export const advanceAnimations = (
+    shapes: Shape[],
+    dt: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape[] => {
+    const playing = shapes.filter(s => s.animation?.playing && isAnimatable(s));
+    if (playing.length === 0) return shapes;
+
+    let result = shapes;
+    playing.forEach(({ id }) => {
+        const shape = result.find(s => s.id === id)!;
+        const param = getAnimatedParam(shape)!;
+        const range = getAnimationRange(param, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+        const { value, direction } = stepParameter(shape.constraint![param]!, range, shape.animation!, dt);
+
+        const stepped: Shape = { ...shape, constraint: { ...shape.constraint!, [param]: value }, animation: { ...shape.animation!, direction } };
+        const moved = evaluateConstraint(stepped, pid => result.find(s => s.id === pid), canvasWidth, canvasHeight, pixelsPerUnit, originY) || stepped;
+        result = result.map(s => s.id === id ? moved : s);
+        result = resolveConstraints(result, id, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+        // The animated point itself is moved by its constraint too, so it traces as well
+        result = recordTraces(result, [id]);
+    });
+    return result;
+};
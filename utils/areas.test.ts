@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { createArea, integrateArea } from './areas';
+import { isPointInShape } from './mathUtils';
+import { createTestShape } from './testShapes';
+
+describe('Areas', () => {
+    const parabola = createTestShape('f', { functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: 0, c: -4 } });
+
+    it('should integrate the unsigned area between two functions, skipping where either is undefined', () => {
+        expect(integrateArea(x => x * x, () => 0, 0, 3)).toBeCloseTo(9, 6);
+        expect(integrateArea(x => x, () => 0, 2, -2)).toBeCloseTo(4, 6);
+        expect(integrateArea(Math.sqrt, () => 0, -4, 0)).toBe(0);
+    });
+
+    it('should shade the area under a graph between its roots', () => {
+        let ids = 0;
+        const [left, right, area] = createArea(parabola, undefined, 1000, 1000, 20, undefined, () => `a${ids++}`);
+        expect([left.constraint!.paramX, right.constraint!.paramX]).toEqual([-2, 2]);
+        expect(right.points[0]).toEqual({ x: 540, y: 500 });
+        expect(area.text).toBe('A = 10.67');
+        expect(isPointInShape({ x: 500, y: 520 }, area, 1000, 1000, 20)).toBe(true);
+        expect(isPointInShape({ x: 500, y: 480 }, area, 1000, 1000, 20)).toBe(false);
+    });
+
+    it('should shade the area between two graphs from one intersection to the other', () => {
+        let ids = 0;
+        const line = createTestShape('l', { functionType: 'linear', formulaParams: { k: 1, b: 2 } });
+        const between = createArea({ ...parabola, formulaParams: { a: 1, b: 0, c: 0 } }, line, 1000, 1000, 20, undefined, () => `a${ids++}`);
+        expect(between[2].constraint!.parents).toEqual(['f', 'l', between[0].id, between[1].id]);
+        expect(between[2].text).toBe('A = 4.5');
+    });
+});
@@ -0,0 +1,117 @@
+import { Shape, ShapeType, PixelsPerUnit } from '../types';
+import { evaluateFunctionGraph, isPlottableGraph, screenToMath, mathToScreen, generateAreaOutline, getVisibleXRange } from './mathUtils';
+import { findKeyPoints } from './keyPoints';
+
+/**
+ * Areas under a function graph, or between two graphs, from one x bound to another. An area is an
+ * AREA_REGION whose constraint lists its graph, the second graph (null for the x-axis) and its two bound
+ * points, which are held on the x-axis. Dragging or animating a bound, or editing a graph, reshades the
+ * area and integrates its value again (in square grid units).
+ */
+
+// Subintervals of Simpson's rule (even)
+const AREA_INTERVALS = 1000;
+
+/**
+ * ∫ |f − g| dx between the bounds, by Simpson's rule. Where either function is undefined nothing is counted.
+ */
+export const integrateArea = (f: (x: number) => number, g: (x: number) => number, from: number, to: number): number => {
+    const left = Math.min(from, to), right = Math.max(from, to);
+    if (right === left) return 0;
+    const h = (right - left) / AREA_INTERVALS;
+    let sum = 0;
+    for (let i = 0; i <= AREA_INTERVALS; i++) {
+        const x = left + i * h;
+        const d = Math.abs(f(x) - g(x));
+        if (!isFinite(d)) continue;
+        sum += (i === 0 || i === AREA_INTERVALS ? 1 : i % 2 === 1 ? 4 : 2) * d;
+    }
+    return (sum * h) / 3;
+};
+
+const formatArea = (value: number) => `A = ${Math.round(value * 100) / 100}`;
+
+// Internal Helper: x (math units) of a bound: its parameter on the x-axis, or where a free point is
+const boundX = (point: Shape, canvasWidth: number, canvasHeight: number, pixelsPerUnit: PixelsPerUnit, originY?: number) =>
+    point.constraint?.type === 'x_axis' && point.constraint.paramX !== undefined
+        ? point.constraint.paramX
+        : screenToMath(point.points[0], canvasWidth, canvasHeight, pixelsPerUnit, originY).x;
+
+/**
+ * Reshades an area between its bounds and recomputes its value.
+ */
+export const evaluateArea = (
+    shape: Shape,
+    getShape: (id: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    const [graphId, otherId, leftId, rightId] = shape.constraint?.parents || [];
+    const [graph, other, left, right] = [graphId, otherId, leftId, rightId].map(id => id ? getShape(id) : undefined);
+    if (!graph || !isPlottableGraph(graph) || (otherId && (!other || !isPlottableGraph(other)))) return null;
+    if (!left?.points[0] || !right?.points[0]) return null;
+
+    const f = (x: number) => evaluateFunctionGraph(graph, x);
+    const g = other ? (x: number) => evaluateFunctionGraph(other, x) : () => 0;
+    const from = boundX(left, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    const to = boundX(right, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    const points = generateAreaOutline(f, g, from, to, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    const pathData = points.length > 0 ? points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ') + ' Z' : '';
+    return { ...shape, points, pathData, text: formatArea(integrateArea(f, g, from, to)) };
+};
+
+// Internal Helper: Default bounds: the consecutive crossings (roots, or intersections with the other graph)
+// nearest the origin, or [-2, 2] if fewer than two are in view
+const defaultBounds = (graph: Shape, other: Shape | undefined, canvasWidth: number, pixelsPerUnit: PixelsPerUnit): [number, number] => {
+    const [minX, maxX] = getVisibleXRange(canvasWidth, pixelsPerUnit);
+    const xs = findKeyPoints(other ? 'intersection' : 'root', graph, other, canvasWidth, pixelsPerUnit)
+        .map(p => p.x)
+        .filter(x => x >= minX && x <= maxX);
+    if (xs.length < 2) return [-2, 2];
+    let best = 0;
+    for (let i = 1; i < xs.length - 1; i++) {
+        if (Math.abs(xs[i] + xs[i + 1]) < Math.abs(xs[best] + xs[best + 1])) best = i;
+    }
+    return [xs[best], xs[best + 1]];
+};
+
+/**
+ * Creates the area under `graph` (or between it and `other`): two bound points on the x-axis, then the
+ * shaded area itself.
+ */
+export const createArea = (
+    graph: Shape,
+    other: Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY: number | undefined,
+    makeId: () => string
+): Shape[] => {
+    if (!isPlottableGraph(graph) || (other && !isPlottableGraph(other))) return [];
+    const bounds = defaultBounds(graph, other, canvasWidth, pixelsPerUnit).map((x): Shape => ({
+        id: makeId(),
+        type: ShapeType.POINT,
+        points: [mathToScreen({ x, y: 0 }, canvasWidth, canvasHeight, pixelsPerUnit, originY)],
+        fill: graph.stroke,
+        stroke: graph.stroke,
+        strokeWidth: 2,
+        rotation: 0,
+        constraint: { type: 'x_axis', paramX: x }
+    }));
+    const base: Shape = {
+        id: makeId(),
+        type: ShapeType.AREA_REGION,
+        points: [],
+        fill: graph.stroke,
+        stroke: graph.stroke,
+        strokeWidth: 1,
+        rotation: 0,
+        constraint: { type: 'area', parents: [graph.id, other?.id || null, bounds[0].id, bounds[1].id] }
+    };
+    const byId = new Map([graph, ...(other ? [other] : []), ...bounds].map(s => [s.id, s]));
+    const area = evaluateArea(base, id => byId.get(id), canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    return area ? [...bounds, area] : [];
+};
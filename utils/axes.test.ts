@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getAxisMapping, getAxisRanges, fitAxisRange, formatAxisValue } from './axes';
+import { mathToScreen, screenToMath, generateFunctionPath, dragGraphHandle } from './mathUtils';
+import { Shape, ShapeType, AxisConfig } from '../types';
+
+describe('Axes', () => {
+    // x counts in π/2 per grid square, the origin a quarter of the way across
+    const config: AxisConfig = { visible: true, ticks: 10, color: '#000', showGrid: true, xStep: Math.PI / 2, origin: { x: 0.25, y: 0.5 } };
+    const mapping = getAxisMapping(config, 1000, 1000, 1000);
+    const parabola: Shape = {
+        id: 'f', type: ShapeType.FUNCTION_GRAPH, points: [], fill: 'none', stroke: 'black', strokeWidth: 1, rotation: 0,
+        functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: 0, c: 0 }
+    };
+
+    it('should map coordinates with independent axis scales and an off-centre origin', () => {
+        expect(mapping.gridSize).toBe(50);
+        expect(mapping.scale).toEqual({ x: 100 / Math.PI, y: 50, originX: 250, pageHeight: 1000 });
+
+        const screen = mathToScreen({ x: Math.PI, y: 2 }, 1000, 1000, mapping.scale, mapping.originY);
+        expect(screen.x).toBeCloseTo(350);
+        expect(screen.y).toBeCloseTo(400);
+        const back = screenToMath(screen, 1000, 1000, mapping.scale, mapping.originY);
+        expect(back.x).toBeCloseTo(Math.PI);
+        expect(back.y).toBeCloseTo(2);
+    });
+
+    it('should report the visible range of each axis', () => {
+        const ranges = getAxisRanges(mapping, 1000, 1000);
+        expect(ranges.x[0]).toBeCloseTo(-2.5 * Math.PI);
+        expect(ranges.x[1]).toBeCloseTo(7.5 * Math.PI);
+        expect(ranges.y).toEqual([-10, 10]);
+    });
+
+    it('should fit an axis to a range by changing its step and origin', () => {
+        // Showing y from -2 to 8 halves the y step and moves the origin down
+        expect(fitAxisRange(config, 'y', [-2, 8], mapping, 1000)).toMatchObject({ yStep: 0.5, origin: { x: 0.25, y: 0.8 } });
+        expect(fitAxisRange(config, 'y', [3, 3], mapping, 1000)).toBeNull();
+    });
+
+    it('should draw graphs over the page holding an off-centre origin, not mirrored around it', () => {
+        // A first-quadrant view: y from -1 to 9
+        const low = getAxisMapping(fitAxisRange({ ...config, yStep: 1 }, 'y', [-1, 9], mapping, 1000)!, 1000, 1000, 1000);
+        expect(low.originY).toBeCloseTo(900);
+        const ys = generateFunctionPath(parabola, 1000, 2000, low.scale, low.originY).match(/-?\d+(\.\d+)?/g)!.map(Number).filter((_, i) => i % 2 === 1);
+        expect(Math.min(...ys)).toBeLessThan(0);
+        expect(Math.max(...ys)).toBeCloseTo(900, 0);
+        ys.forEach(y => expect(y).toBeLessThanOrEqual(1020));
+    });
+
+    it('should snap graph handles to tenths of a grid square on each axis', () => {
+        // π/20 along x here
+        const dragged = dragGraphHandle(parabola, 0, { x: 500 + 20 * (Math.PI / 2 + 0.05), y: 500 - 20 * 1.04 }, 1000, 1000, 20, undefined, mapping.gridStep);
+        expect(dragged.formulaParams!.h).toBeCloseTo(Math.PI / 2, 5);
+        expect(dragged.formulaParams!.k).toBe(1);
+    });
+
+    it('should label axes in decimals, fractions or multiples of π', () => {
+        expect(formatAxisValue(Math.PI / 2, 'pi')).toBe('π/2');
+        expect(formatAxisValue(-3 * Math.PI / 2, 'pi')).toBe('−3π/2');
+        expect(formatAxisValue(2 * Math.PI, 'pi')).toBe('2π');
+        expect(formatAxisValue(0.5, 'fraction')).toBe('1/2');
+        expect(formatAxisValue(1 / 3)).toBe('0.3333');
+    });
+});
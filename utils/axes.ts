@@ -0,0 +1,84 @@
+import { AxisConfig, AxisLabelStyle, AxisScale, Point } from '../types';
+import { getPixelsPerUnit, getVisibleXRange } from './mathUtils';
+import { toFraction } from './keyPoints';
+
+/**
+ * Axis settings: how math coordinates map to the page and how the axes are labelled. The grid is made
+ * of squares of one size; each axis has its own number of units per square (so x can count in π/2 while
+ * y counts in 1), and the origin sits at the same place on every page. Everything that maps between
+ * screen and math coordinates takes the resulting AxisScale as its pixelsPerUnit.
+ */
+
+export const DEFAULT_AXIS_ORIGIN: Point = { x: 0.5, y: 0.5 };
+
+// Largest denominator written in fraction and π labels; other values fall back to decimals
+const MAX_LABEL_DENOMINATOR = 12;
+
+export interface AxisMapping {
+    scale: AxisScale;
+    originY: number; // Screen y of the origin on the first page
+    gridSize: number; // Pixels per grid square
+    gridStep: Point; // Math units per grid square along each axis
+}
+
+// Internal Helper: Units per grid square, 1 unless a positive step is set
+const unitsPerSquare = (step?: number) => step && step > 0 && isFinite(step) ? step : 1;
+
+/**
+ * Screen mapping of the axes: `viewHeight` (with the width) sets the grid size, `pageHeight` where the
+ * origin of the first page is.
+ */
+export const getAxisMapping = (config: AxisConfig, width: number, viewHeight: number, pageHeight: number): AxisMapping => {
+    const gridSize = getPixelsPerUnit(width, viewHeight, config.ticks);
+    const origin = config.origin ?? DEFAULT_AXIS_ORIGIN;
+    const gridStep = { x: unitsPerSquare(config.xStep), y: unitsPerSquare(config.yStep) };
+    return {
+        scale: { x: gridSize / gridStep.x, y: gridSize / gridStep.y, originX: width * origin.x, pageHeight },
+        originY: pageHeight * origin.y,
+        gridSize,
+        gridStep
+    };
+};
+
+/**
+ * x and y ranges (math units) shown on a page.
+ */
+export const getAxisRanges = (mapping: AxisMapping, width: number, pageHeight: number): { x: [number, number]; y: [number, number] } => ({
+    x: getVisibleXRange(width, mapping.scale),
+    y: [(mapping.originY - pageHeight) / mapping.scale.y, mapping.originY / mapping.scale.y]
+});
+
+/**
+ * Tick label of a value: `0.5`, `1/2` or `π/2` (and `−3π/2`, `2π`).
+ */
+export const formatAxisValue = (value: number, style: AxisLabelStyle = 'decimal'): string => {
+    const sign = value < 0 ? '−' : '';
+    const size = Math.abs(value);
+    if (style === 'pi') {
+        const f = toFraction(size / Math.PI, MAX_LABEL_DENOMINATOR);
+        if (f) {
+            if (f.n === 0) return '0';
+            const multiple = f.n === 1 ? 'π' : `${f.n}π`;
+            return `${sign}${multiple}${f.d === 1 ? '' : `/${f.d}`}`;
+        }
+    } else if (style === 'fraction') {
+        const f = toFraction(size, MAX_LABEL_DENOMINATOR);
+        if (f) return f.n === 0 ? '0' : `${sign}${f.n}${f.d === 1 ? '' : `/${f.d}`}`;
+    }
+    const rounded = Math.round(size * 10000) / 10000;
+    return rounded === 0 ? '0' : `${sign}${rounded}`;
+};
+
+/**
+ * The settings that show exactly `[min, max]` along one axis of a page `length` pixels wide (or tall),
+ * keeping the grid size: the units per square and that coordinate of the origin change. Null for an
+ * empty range.
+ */
+export const fitAxisRange = (config: AxisConfig, axis: 'x' | 'y', [min, max]: [number, number], mapping: AxisMapping, length: number): AxisConfig | null => {
+    if (!(max > min) || !isFinite(max - min) || length <= 0) return null;
+    const step = (max - min) * mapping.gridSize / length;
+    const origin = config.origin ?? DEFAULT_AXIS_ORIGIN;
+    return axis === 'x'
+        ? { ...config, xStep: step, origin: { x: -min / (max - min), y: origin.y } }
+        : { ...config, yStep: step, origin: { x: origin.x, y: max / (max - min) } };
+};
@@ -1,8 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { resolveConstraints, constrainPointToEdge, getDependents } from './constraintSystem';
-import { getSnapPoint, getRotatedCorners, isPointInShape } from './mathUtils';
+import { resolveConstraints, constrainPointToEdge, getDependents, solveDimensionConstraints, detachFromParent, rebindToParent, getRebindCandidates, deleteShapes } from './constraintSystem';
+import { getSnapPoint, getRotatedCorners, isPointInShape, findIntersectionNear, getShapeIntersections, recalculateMarker, distance, mathToScreen } from './mathUtils';
 import { calculateMovedShape } from './shapeOperations';
-import { Shape, ShapeType, Point } from '../types';
+import { buildDependencyGraph, getTopologicalOrder, validateConstraintEdit, DependencyCycleError } from './dependencyGraph';
+import { getTriangleConstructionConstraints, createDerivedShape } from './constructions';
+import { createDimensionShape } from './geometricSolver';
+import { setTracing, findTrail, convertTrailToCurve, mergeTrails } from './locusTrace';
+import { advanceAnimations, stepParameter, getAnimatedParam } from './animation';
+import { createSlider, getSliderValueAt, renameSlider } from './sliders';
+import { createMeasurementShape } from './measurements';
+import { createKeyPoints } from './keyPoints';
+import { createTangentLine, createDerivativeGraph } from './tangents';
+import { createArea } from './areas';
+import { getAxisMapping } from './axes';
+import { Shape, ShapeType, Point, AxisConfig, MarkerType } from '../types';
 
 describe('Constraint System', () => {
     // Helper to create a shape
@@ -520,6 +531,503 @@ describe('Constraint System', () => {
         expect(finalLine.points[1].x).toBeCloseTo(210);
     });
 
+    it('should keep an intersection point on the crossing of two lines and flag it when they stop meeting', () => {
+        const l1 = createShape('l1', ShapeType.LINE, [{x:0,y:0}, {x:200,y:200}]);
+        const l2 = createShape('l2', ShapeType.LINE, [{x:0,y:200}, {x:200,y:0}]);
+
+        const crossing = findIntersectionNear({x: 103, y: 98}, [l1, l2]);
+        expect(crossing).not.toBeNull();
+        expect(crossing!.point.x).toBeCloseTo(100);
+        expect(crossing!.parents).toEqual(['l1', 'l2']);
+
+        const p1 = createPoint('p1', 100, 100, { type: 'intersection', parents: ['l1', 'l2'] });
+
+        const movedL2 = { ...l2, points: [{x:0,y:100}, {x:200,y:100}] };
+        const resolved = resolveConstraints([l1, movedL2, p1], 'l2', 1000, 1000, 20);
+        const finalP1 = resolved.find(s => s.id === 'p1')!;
+        expect(finalP1.points[0].x).toBeCloseTo(100);
+        expect(finalP1.points[0].y).toBeCloseTo(100);
+        expect(finalP1.isUndefined).toBeFalsy();
+
+        const farL2 = { ...l2, points: [{x:300,y:0}, {x:400,y:100}] };
+        const detached = resolveConstraints([l1, farL2, finalP1], 'l2', 1000, 1000, 20).find(s => s.id === 'p1')!;
+        expect(detached.isUndefined).toBe(true);
+        expect(detached.points[0].x).toBeCloseTo(100);
+    });
+
+    it('should follow the nearest branch of a circle-circle intersection', () => {
+        const c1 = createShape('c1', ShapeType.CIRCLE, [{x:0,y:0}, {x:200,y:200}]);     // center (100,100), r=100
+        const c2 = createShape('c2', ShapeType.CIRCLE, [{x:100,y:0}, {x:300,y:200}]);   // center (200,100), r=100
+        const crossings = getShapeIntersections(c1, c2);
+        expect(crossings.length).toBe(2);
+
+        const upper = crossings.find(p => p.y < 100)!;
+        const p1 = createPoint('p1', upper.x, upper.y, { type: 'intersection', parents: ['c1', 'c2'] });
+
+        const movedC2 = { ...c2, points: c2.points.map(p => ({ x: p.x + 20, y: p.y })) };
+        const resolved = resolveConstraints([c1, movedC2, p1], 'c2', 1000, 1000, 20);
+        const finalP1 = resolved.find(s => s.id === 'p1')!;
+        expect(finalP1.points[0].x).toBeCloseTo(160);
+        expect(finalP1.points[0].y).toBeLessThan(100);
+    });
+
+    it('should snap to crossings of a line with a rotated ellipse and a function graph', () => {
+        const ellipse = { ...createShape('e1', ShapeType.ELLIPSE, [{x:0,y:0}, {x:200,y:100}]), rotation: 90 }; // center (100,50), rx=100, ry=50
+        const line = createShape('l1', ShapeType.LINE, [{x:-50,y:50}, {x:250,y:50}]);
+        const ellipseCrossings = getShapeIntersections(line, ellipse).sort((a, b) => a.x - b.x);
+        expect(ellipseCrossings.length).toBe(2);
+        expect(ellipseCrossings[0].x).toBeCloseTo(50);
+        expect(ellipseCrossings[1].x).toBeCloseTo(150);
+
+        // y = x^2 crossed by the horizontal line y = 4 at x = +-2 (screen: 500 +- 40, 420); no grid step, so the grid is off
+        const grid = { width: 1000, height: 1000, ppu: 20 };
+        const parabola: Shape = { ...createShape('f1', ShapeType.FUNCTION_GRAPH, []), functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: 0, c: 0 } };
+        const chord = createShape('l2', ShapeType.LINE, [{x:300,y:420}, {x:700,y:420}]);
+        const snap = getSnapPoint({x: 462, y: 421}, [parabola, chord], [], grid);
+        expect(snap.type).toBe('intersection');
+        expect(snap.point.x).toBeCloseTo(460);
+        expect(snap.point.y).toBeCloseTo(420);
+        expect(snap.constraint).toEqual({ type: 'intersection', parents: ['f1', 'l2'] });
+
+        // An existing point on the crossing keeps priority over the crossing itself
+        const existing = createPoint('p1', 460, 420);
+        expect(getSnapPoint({x: 462, y: 421}, [parabola, chord, existing], [], grid).type).toBe('endpoint');
+
+        // Free positions only snap to tenths of a grid square while the grid is on
+        expect(getSnapPoint({x: 802.6, y: 101.3}, [], [], grid).snapped).toBe(false);
+        const gridSnap = getSnapPoint({x: 802.6, y: 101.3}, [], [], grid, { x: 1, y: 1 });
+        expect(gridSnap.point.x).toBeCloseTo(802);
+        expect(gridSnap.point.y).toBeCloseTo(102);
+    });
+
+    it('should order dependents so a shape with two changed parents is evaluated after both', () => {
+        // rect -> p1 -> line, rect -> p2 -> line, and line -> p3 (diamond plus a tail)
+        const rect = createShape('rect1', ShapeType.RECTANGLE, [{x:0,y:0}, {x:100,y:100}]);
+        const p1 = createPoint('p1', 50, 0, { type: 'on_edge', parentId: 'rect1', edgeIndex: 0, paramT: 0.5 });
+        const p2 = createPoint('p2', 100, 50, { type: 'on_edge', parentId: 'rect1', edgeIndex: 1, paramT: 0.5 });
+        const line = createShape('line1', ShapeType.LINE, [{x:50,y:0}, {x:100,y:50}]);
+        line.constraint = { type: 'points_link', parents: ['p1', 'p2'] };
+        const p3 = createPoint('p3', 75, 25, { type: 'on_edge', parentId: 'line1', edgeIndex: 0, paramT: 0.5 });
+
+        const shapes = [p3, line, p2, p1, rect];
+        const order = getTopologicalOrder(buildDependencyGraph(shapes), ['rect1']);
+        expect(order.indexOf('line1')).toBeGreaterThan(order.indexOf('p1'));
+        expect(order.indexOf('line1')).toBeGreaterThan(order.indexOf('p2'));
+        expect(order.indexOf('p3')).toBeGreaterThan(order.indexOf('line1'));
+
+        const movedRect = { ...rect, points: rect.points.map(p => ({ x: p.x + 10, y: p.y })) };
+        const resolved = resolveConstraints([p3, line, p2, p1, movedRect], 'rect1', 1000, 1000, 20);
+        const finalP3 = resolved.find(s => s.id === 'p3')!;
+        expect(finalP3.points[0].x).toBeCloseTo(85);
+        expect(finalP3.points[0].y).toBeCloseTo(25);
+    });
+
+    it('should reject edits that create a cycle and leave cyclic documents untouched', () => {
+        const p1 = createPoint('p1', 0, 0);
+        const line = createShape('line1', ShapeType.LINE, [{x:0,y:0}, {x:100,y:0}]);
+        line.constraint = { type: 'points_link', parents: ['p1', null] };
+        const shapes = [p1, line];
+
+        // Binding p1 onto the line that is drawn from p1 would loop p1 -> line1 -> p1
+        const cyclic = { type: 'on_edge' as const, parentId: 'line1', edgeIndex: 0, paramT: 0.5 };
+        expect(() => validateConstraintEdit(shapes, 'p1', cyclic)).toThrow(DependencyCycleError);
+        try {
+            validateConstraintEdit(shapes, 'p1', cyclic);
+        } catch (e) {
+            expect((e as DependencyCycleError).cycle).toEqual(['p1', 'line1', 'p1']);
+        }
+        expect(() => validateConstraintEdit(shapes, 'line1', { type: 'points_link', parents: ['p1', null] })).not.toThrow();
+
+        const looped = [{ ...p1, constraint: cyclic }, line];
+        expect(() => getTopologicalOrder(buildDependencyGraph(looped), ['p1'])).toThrow(DependencyCycleError);
+        expect(resolveConstraints(looped, 'p1', 1000, 1000, 20)).toBe(looped);
+    });
+
+    it('should keep midpoint, bisector and parallel/perpendicular constructions live when parents move', () => {
+        const a = createPoint('a', 0, 0);
+        const b = createPoint('b', 100, 0);
+        const c = createPoint('c', 0, 100);
+        const base = createShape('base', ShapeType.LINE, [{x:0,y:0}, {x:100,y:0}]);
+        base.constraint = { type: 'points_link', parents: ['a', 'b'] };
+        const mid = createPoint('mid', 50, 0, { type: 'midpoint', parents: ['a', 'b'] });
+        const bis = createShape('bis', ShapeType.LINE, [{x:50,y:-50}, {x:50,y:50}]);
+        bis.constraint = { type: 'perpendicular_bisector', parentId: 'base', edgeIndex: 0 };
+        const ang = createShape('ang', ShapeType.LINE, [{x:0,y:0}, {x:70,y:70}]);
+        ang.constraint = { type: 'angle_bisector', parents: ['b', 'a', 'c'] };
+        const par = createShape('par', ShapeType.LINE, [{x:-50,y:100}, {x:50,y:100}]);
+        par.constraint = { type: 'parallel', parentId: 'base', edgeIndex: 0, parents: ['c'] };
+        const perp = createShape('perp', ShapeType.LINE, [{x:0,y:50}, {x:0,y:150}]);
+        perp.constraint = { type: 'perpendicular', parentId: 'base', edgeIndex: 0, parents: ['c'] };
+
+        // Lift b to (100, 100): base becomes the diagonal y = x
+        const movedB = { ...b, points: [{ x: 100, y: 100 }] };
+        const resolved = resolveConstraints([a, movedB, c, base, mid, bis, ang, par, perp], 'b', 1000, 1000, 20);
+        const get = (id: string) => resolved.find(s => s.id === id)!;
+
+        expect(get('mid').points[0]).toEqual({ x: 50, y: 50 });
+        // Bisector passes through the midpoint and is perpendicular to the diagonal
+        const [q1, q2] = get('bis').points;
+        expect((q1.x + q2.x) / 2).toBeCloseTo(50);
+        expect((q2.x - q1.x) + (q2.y - q1.y)).toBeCloseTo(0);
+        // Angle between (1,1) and (0,1) at a is bisected at 67.5 degrees
+        const [v, tip] = get('ang').points;
+        expect(Math.atan2(tip.y - v.y, tip.x - v.x) * 180 / Math.PI).toBeCloseTo(67.5);
+        // Parallel through c keeps slope 1; perpendicular through c has slope -1
+        const [r1, r2] = get('par').points;
+        expect((r2.y - r1.y) / (r2.x - r1.x)).toBeCloseTo(1);
+        expect((r1.x + r2.x) / 2).toBeCloseTo(0);
+        expect((r1.y + r2.y) / 2).toBeCloseTo(100);
+        const [s1, s2] = get('perp').points;
+        expect((s2.y - s1.y) / (s2.x - s1.x)).toBeCloseTo(-1);
+    });
+
+    it('should attach triangle centers, circles and cevians that follow the triangle', () => {
+        const tri = createShape('tri1', ShapeType.TRIANGLE, [{x:0,y:0}, {x:100,y:0}, {x:0,y:100}]);
+        const style = { fill: 'black', stroke: 'black', strokeWidth: 1 };
+        const options = ['centroid', 'circumcenter', 'incenter', 'orthocenter', 'circumcircle', 'incircle', 'median', 'altitude'] as const;
+        const derived = options
+            .flatMap(o => getTriangleConstructionConstraints('tri1', o))
+            .map((c, i) => createDerivedShape(`d${i}`, c, id => (id === 'tri1' ? tri : undefined), style)!);
+        expect(derived.length).toBe(12);
+
+        const find = (shapes: Shape[], pred: (s: Shape) => boolean) => shapes.find(pred)!;
+        const center = (shapes: Shape[], kind: string) => find(shapes, s => s.constraint?.triangleCenter === kind).points[0];
+        expect(center(derived, 'centroid').x).toBeCloseTo(100 / 3);
+        expect(center(derived, 'circumcenter')).toEqual({ x: 50, y: 50 });
+        expect(center(derived, 'orthocenter').x).toBeCloseTo(0);
+        expect(center(derived, 'incenter').x).toBeCloseTo(100 - 50 * Math.SQRT2);
+        expect(find(derived, s => s.constraint?.type === 'triangle_center').type).toBe(ShapeType.POINT);
+
+        // Move the triangle 10 right and rotate it 90 degrees about its own center: everything follows
+        const moved = { ...tri, points: tri.points.map(p => ({ x: p.x + 10, y: p.y })), rotation: 90 };
+        const resolved = resolveConstraints([moved, ...derived], 'tri1', 1000, 1000, 20);
+        const [a, b, c] = getRotatedCorners(moved);
+        const g = center(resolved, 'centroid');
+        expect(g.x).toBeCloseTo((a.x + b.x + c.x) / 3);
+        expect(g.y).toBeCloseTo((a.y + b.y + c.y) / 3);
+
+        // Circumcircle passes through every vertex
+        const circ = find(resolved, s => s.constraint?.type === 'circumcircle');
+        const o = { x: (circ.points[0].x + circ.points[1].x) / 2, y: (circ.points[0].y + circ.points[1].y) / 2 };
+        const r = (circ.points[1].x - circ.points[0].x) / 2;
+        [a, b, c].forEach(v => expect(Math.hypot(v.x - o.x, v.y - o.y)).toBeCloseTo(r));
+
+        // Altitude from the right-angle vertex is perpendicular to the hypotenuse
+        const alt = find(resolved, s => s.constraint?.type === 'altitude' && s.constraint.vertexIndex === 0);
+        const [v, foot] = alt.points;
+        expect((foot.x - v.x) * (c.x - b.x) + (foot.y - v.y) * (c.y - b.y)).toBeCloseTo(0);
+    });
+
+    it('should keep dimensional constraints while a vertex is dragged and report over-determined systems', () => {
+        const ab = createShape('ab', ShapeType.LINE, [{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+        const cd = createShape('cd', ShapeType.LINE, [{ x: 0, y: 50 }, { x: 80, y: 60 }]);
+        const shapes = [ab, cd];
+        const getShape = (id: string) => shapes.find(s => s.id === id);
+        const length = createDimensionShape('len', 'length', [{ shapeId: 'ab', pointIndex: 0 }, { shapeId: 'ab', pointIndex: 1 }], getShape, 5)!;
+        const parallel = createDimensionShape('par', 'parallel', [
+            { shapeId: 'ab', pointIndex: 0 }, { shapeId: 'ab', pointIndex: 1 },
+            { shapeId: 'cd', pointIndex: 0 }, { shapeId: 'cd', pointIndex: 1 }
+        ], getShape)!;
+
+        // Drag B to (0, 60): AB must stay 5 units (100px) long with A free, and CD must follow AB's direction
+        const dragged = [{ ...ab, points: [{ x: 0, y: 0 }, { x: 0, y: 60 }] }, cd, length, parallel];
+        const { shapes: solved, overDetermined } = solveDimensionConstraints(dragged, [{ shapeId: 'ab', pointIndex: 1 }], 1000, 1000, 20);
+        expect(overDetermined).toBe(false);
+        const [a, b] = solved.find(s => s.id === 'ab')!.points;
+        const [c, d] = solved.find(s => s.id === 'cd')!.points;
+        expect(b).toEqual({ x: 0, y: 60 }); // Pinned vertex stays under the cursor
+        expect(Math.hypot(b.x - a.x, b.y - a.y)).toBeCloseTo(100, 0);
+        const cross = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+        expect(cross / (Math.hypot(b.x - a.x, b.y - a.y) * Math.hypot(d.x - c.x, d.y - c.y))).toBeCloseTo(0, 2);
+
+        // Two different fixed lengths on the same segment can never both hold
+        const conflicting = createDimensionShape('len2', 'length', [{ shapeId: 'ab', pointIndex: 0 }, { shapeId: 'ab', pointIndex: 1 }], getShape, 3)!;
+        const result = solveDimensionConstraints([...solved, conflicting], [], 1000, 1000, 20);
+        expect(result.overDetermined).toBe(true);
+        expect(result.shapes.filter(s => s.dimension?.satisfied === false).length).toBeGreaterThan(0);
+    });
+
+    it('should record a locus trail when a traced point is moved by its parents', () => {
+        const a = createPoint('a', 0, 0);
+        const b = createPoint('b', 100, 0);
+        const m = createShape('m', ShapeType.POINT, [{ x: 50, y: 0 }]);
+        m.constraint = { type: 'midpoint', parents: ['a', 'b'] };
+        let shapes = setTracing([a, b, m], 'm', true);
+        expect(findTrail(shapes, 'm')!.points).toEqual([{ x: 50, y: 0 }]);
+
+        // Drag B along a vertical line: the midpoint traces half of that motion
+        for (let y = 10; y <= 40; y += 10) {
+            shapes = shapes.map(s => s.id === 'b' ? { ...s, points: [{ x: 100, y }] } : s);
+            shapes = resolveConstraints(shapes, 'b', 1000, 1000, 20);
+        }
+        const trail = findTrail(shapes, 'm')!;
+        expect(trail.points.map(p => p.y)).toEqual([0, 5, 10, 15, 20]);
+        expect(trail.points.every(p => p.x === 50)).toBe(true);
+
+        // Dragging the traced point itself does not draw
+        const direct = resolveConstraints(shapes.map(s => s.id === 'm' ? { ...s, points: [{ x: 0, y: 0 }] } : s), 'm', 1000, 1000, 20);
+        expect(findTrail(direct, 'm')!.points).toHaveLength(5);
+
+        // A previewed drag of B keeps the recorded trail but leaves B and the midpoint where they were
+        const preview = resolveConstraints(shapes.map(s => s.id === 'b' ? { ...s, points: [{ x: 100, y: 60 }] } : s), 'b', 1000, 1000, 20);
+        const merged = mergeTrails(shapes, preview);
+        expect(findTrail(merged, 'm')!.points.map(p => p.y)).toEqual([0, 5, 10, 15, 20, 30]);
+        expect(merged.find(s => s.id === 'b')!.points).toEqual([{ x: 100, y: 40 }]);
+        expect(mergeTrails(shapes, shapes)).toBe(shapes);
+
+        // Converting detaches the trail and stops tracing
+        const converted = convertTrailToCurve(shapes, 'm');
+        expect(findTrail(converted, 'm')).toBeUndefined();
+        expect(converted.find(s => s.id === trail.id)!.traceSourceId).toBeUndefined();
+        expect(converted.find(s => s.id === 'm')!.isTracing).toBeUndefined();
+    });
+
+    it('should animate a bound point and propagate every frame to its dependents', () => {
+        // Loop wraps around, bounce reflects and reverses
+        const config = { playing: true, mode: 'loop' as const, speed: 1, direction: 1 as const };
+        expect(stepParameter(0.9, [0, 1], config, 1).value).toBeCloseTo(0.1);
+        const bounced = stepParameter(0.9, [0, 1], { ...config, mode: 'bounce' }, 1);
+        expect(bounced.value).toBeCloseTo(0.9);
+        expect(bounced.direction).toBe(-1);
+
+        const tri = createShape('tri1', ShapeType.TRIANGLE, [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }]);
+        const p = { ...createPoint('p', 0, 0, { type: 'on_edge', parentId: 'tri1', edgeIndex: 0, paramT: 0 }), animation: config, isTracing: true };
+        const q = createPoint('q', 0, 100);
+        const line = createShape('l', ShapeType.LINE, [{ x: 0, y: 0 }, { x: 0, y: 100 }]);
+        line.constraint = { type: 'points_link', parents: ['p', 'q'] };
+
+        // Half a second at speed 1 covers a tenth of the edge
+        const frame = advanceAnimations([tri, p, q, line], 0.5, 1000, 1000, 20);
+        expect(frame.find(s => s.id === 'p')!.points[0].x).toBeCloseTo(10);
+        expect(frame.find(s => s.id === 'l')!.points[0].x).toBeCloseTo(10);
+        expect(findTrail(frame, 'p')!.points).toHaveLength(1);
+    });
+
+    it('should drive function coefficients and constraint parameters from named sliders', () => {
+        const slider = createSlider('s1', 'a', { x: 0, y: 0 }, '#000');
+        const graph: Shape = {
+            ...createShape('f', ShapeType.FUNCTION_GRAPH, []),
+            functionType: 'quadratic', functionForm: 'standard',
+            formulaParams: { a: 1, b: 0, c: 0, h: 0, k: 0 }, sliderBindings: { a: 'a' }
+        };
+        // Point on the graph at x = 2 (screen origin at 500, 500; 20px per unit)
+        const p = createPoint('p', 540, 420, { type: 'on_path', parentId: 'f', paramX: 2 });
+
+        // Drag the knob to the far end of the track: a = 5
+        const value = getSliderValueAt(slider, { x: 250, y: 3 });
+        expect(value).toBe(5);
+        const moved = [{ ...slider, slider: { ...slider.slider!, value } }, graph, p];
+        const resolved = resolveConstraints(moved, 's1', 1000, 1000, 20);
+        const g = resolved.find(s => s.id === 'f')!;
+        expect(g.formulaParams!.a).toBe(5);
+        expect(g.pathData).toBeDefined();
+        expect(resolved.find(s => s.id === 'p')!.points[0].y).toBeCloseTo(500 - 20 * 20);
+
+        // Renaming keeps the binding
+        const renamed = renameSlider(resolved, 's1', 'alpha')!;
+        expect(renamed.find(s => s.id === 'f')!.sliderBindings).toEqual({ a: 'alpha' });
+        expect(renameSlider(renamed, 's1', '2bad')).toBeNull();
+    });
+
+    it('should keep measurement annotations in sync with their targets', () => {
+        const tri: Shape = { ...createShape('tri1', ShapeType.TRIANGLE, [{ x: 0, y: 0 }, { x: 60, y: 0 }, { x: 0, y: 80 }]), labels: ['A', 'B', 'C'] };
+        const getShape = (id: string) => [tri].find(s => s.id === id);
+        const area = createMeasurementShape('m1', { type: 'area', targetId: 'tri1', precision: 1 }, getShape, 20, '#000')!;
+        const side = createMeasurementShape('m2', { type: 'length', targetId: 'tri1', index: 1, precision: 2 }, getShape, 20, '#000')!;
+        const angle = createMeasurementShape('m3', { type: 'angle', targetId: 'tri1', index: 0, precision: 0 }, getShape, 20, '#000')!;
+        expect(area.text).toBe('S△ABC = 6');
+        expect(side.text).toBe('BC = 5');
+        expect(angle.text).toBe('∠A = 90°');
+
+        // Stretch the triangle: values follow through constraint propagation
+        const stretched = { ...tri, points: [{ x: 0, y: 0 }, { x: 120, y: 0 }, { x: 0, y: 80 }] };
+        const resolved = resolveConstraints([stretched, area, side, angle], 'tri1', 1000, 1000, 20);
+        expect(resolved.find(s => s.id === 'm1')!.text).toBe('S△ABC = 12');
+        expect(resolved.find(s => s.id === 'm2')!.text).toBe('BC = 7.21');
+    });
+
+    it('should detach a dependent or rebind it to another parent in place', () => {
+        const a = createPoint('a', 0, 0);
+        const b = createPoint('b', 100, 0);
+        const c = createPoint('c', 100, 100);
+        const line: Shape = { ...createShape('line1', ShapeType.LINE, [{ x: 0, y: 0 }, { x: 100, y: 0 }]), constraint: { type: 'points_link', parents: ['a', 'b'] } };
+        const onLine = createPoint('p1', 50, 0, { type: 'on_edge', parentId: 'line1', edgeIndex: 0, paramT: 0.5 });
+        const shapes = [a, b, c, line, onLine];
+
+        // Rebinding the second end moves the line (and the point on it) onto the new parent
+        expect(getRebindCandidates(shapes, 'line1', 'b').map(s => s.id)).toEqual(['c']);
+        const rebound = rebindToParent(shapes, 'line1', 'b', 'c', 1000, 1000, 20);
+        expect(rebound.find(s => s.id === 'line1')!.constraint!.parents).toEqual(['a', 'c']);
+        expect(rebound.find(s => s.id === 'line1')!.points[1]).toEqual({ x: 100, y: 100 });
+        expect(rebound.find(s => s.id === 'p1')!.points[0]).toEqual({ x: 50, y: 50 });
+
+        // A point glued to the line cannot become a parent of that line
+        expect(getRebindCandidates(shapes, 'line1', 'a').map(s => s.id)).not.toContain('p1');
+        expect(() => rebindToParent(shapes, 'line1', 'a', 'p1', 1000, 1000, 20)).toThrow(DependencyCycleError);
+
+        // Detaching one end keeps the other glued; the geometry stays where it was
+        const detached = detachFromParent(rebound, 'line1', 'c');
+        expect(detached.find(s => s.id === 'line1')!.constraint!.parents).toEqual(['a', null]);
+        expect(detached.find(s => s.id === 'line1')!.points[1]).toEqual({ x: 100, y: 100 });
+        const free = detachFromParent(detached, 'p1', 'line1');
+        expect(free.find(s => s.id === 'p1')!.constraint).toBeUndefined();
+        expect(getDependents(free, new Set(['line1']))).toHaveLength(0);
+    });
+
+    it('should cascade or freeze the dependents of a deleted shape', () => {
+        const a = createPoint('a', 0, 0);
+        const b = createPoint('b', 100, 0);
+        const line: Shape = { ...createShape('line1', ShapeType.LINE, [{ x: 0, y: 0 }, { x: 100, y: 0 }]), constraint: { type: 'points_link', parents: ['a', 'b'] } };
+        const onLine = createPoint('p1', 50, 0, { type: 'on_edge', parentId: 'line1', edgeIndex: 0, paramT: 0.5 });
+        const length = createDimensionShape('d1', 'length', [{ shapeId: 'a', pointIndex: 0 }, { shapeId: 'b', pointIndex: 0 }], id => [a, b].find(s => s.id === id))!;
+        const shapes = [a, b, line, onLine, length];
+
+        // Cascade: the line, the point on it and the dimension all go with B
+        expect(deleteShapes(shapes, new Set(['b']), 'cascade').map(s => s.id)).toEqual(['a']);
+
+        // Freeze: the line lets go of B only and keeps its geometry; its own dependents are untouched
+        const frozen = deleteShapes(shapes, new Set(['b']), 'freeze');
+        expect(frozen.map(s => s.id)).toEqual(['a', 'line1', 'p1']);
+        const frozenLine = frozen.find(s => s.id === 'line1')!;
+        expect(frozenLine.constraint!.parents).toEqual(['a', null]);
+        expect(frozenLine.points[1]).toEqual({ x: 100, y: 0 });
+        expect(frozen.find(s => s.id === 'p1')!.constraint!.parentId).toBe('line1');
+        // The original array is left as it was, so an undo snapshot restores every link
+        expect(shapes.find(s => s.id === 'line1')!.constraint!.parents).toEqual(['a', 'b']);
+    });
+
+    it('should draw tick, arrow and multi-arc markers that follow linked points', () => {
+        const a = createPoint('a', 0, 0);
+        const b = createPoint('b', 100, 0);
+        const line: Shape = { ...createShape('line1', ShapeType.LINE, [{ x: 0, y: 0 }, { x: 100, y: 0 }]), constraint: { type: 'points_link', parents: ['a', 'b'] } };
+        const tri = createShape('tri1', ShapeType.TRIANGLE, [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }]);
+        const marker = (id: string, type: MarkerType, count: number, pointIndices: number[], target = 'line1'): Shape =>
+            recalculateMarker({ ...createShape(id, ShapeType.MARKER, []), markerConfig: { type, count, targets: [{ shapeId: target, pointIndices }] } }, [line, tri])!;
+
+        const ticks = marker('m1', 'equal_tick', 2, [0, 1]);
+        expect(ticks.points[0]).toEqual({ x: 50, y: 0 });
+        expect(ticks.pathData!.match(/M/g)).toHaveLength(2);
+        expect(marker('m2', 'parallel_arrow', 3, [0, 1]).pathData!.match(/M/g)).toHaveLength(3);
+        expect(marker('m3', 'angle_arc', 3, [2, 0, 1], 'tri1').pathData!.match(/A/g)).toHaveLength(3);
+
+        // Markers are part of constraint resolution: moving B moves the line, which redraws its ticks
+        const movedB = { ...b, points: [{ x: 100, y: 60 }] };
+        const resolved = resolveConstraints([a, movedB, line, ticks], 'b', 1000, 1000, 20);
+        expect(resolved.find(s => s.id === 'm1')!.points[0]).toEqual({ x: 50, y: 30 });
+    });
+
+    it('should update expression graphs and the points on them from the sliders they read', () => {
+        // y = a/x, with a = 1 read from the slider
+        const slider = createSlider('s1', 'a', { x: 0, y: 0 }, '#000');
+        const graph: Shape = { ...createShape('f', ShapeType.FUNCTION_GRAPH, []), functionType: 'expression', expression: 'a/x', expressionScope: { a: 1 } };
+        const p = createPoint('p', 540, 490, { type: 'on_path', parentId: 'f', paramX: 2 });
+        const moved = [{ ...slider, slider: { ...slider.slider!, value: 4 } }, graph, p];
+        const resolved = resolveConstraints(moved, 's1', 1000, 1000, 20);
+        expect(resolved.find(s => s.id === 'f')!.expressionScope).toEqual({ a: 4 });
+        expect(resolved.find(s => s.id === 'p')!.points[0].y).toBeCloseTo(500 - 2 * 20);
+
+        // Snapping onto the graph gives a point bound by its x-coordinate
+        const snap = getSnapPoint({ x: 560, y: 475 }, [resolved[1]], [], { width: 1000, height: 1000, ppu: 20 });
+        expect(snap.constraint).toEqual({ type: 'on_path', parentId: 'f', paramX: 3 });
+        expect(snap.point.y).toBeCloseTo(500 - (4 / 3) * 20);
+
+        // Renaming the slider rewrites the expression
+        const renamed = renameSlider(resolved, 's1', 'k')!.find(s => s.id === 'f')!;
+        expect(renamed.expression).toBe('k/x');
+        expect(renamed.expressionScope).toEqual({ k: 4 });
+    });
+
+    it('should attach points to parametric and polar curves by their parameter', () => {
+        // x = r cos(t), y = r sin(t) with r read from a slider (r = 1 by default, then 3)
+        const slider = createSlider('s1', 'r', { x: 0, y: 0 }, '#000');
+        const circle: Shape = {
+            ...createShape('c', ShapeType.PARAMETRIC_CURVE, []),
+            curve: { kind: 'parametric', x: 'r cos(t)', y: 'r sin(t)', tMin: 0, tMax: 2 * Math.PI }, expressionScope: { r: 1 }
+        };
+        const p = createPoint('p', 500, 480, { type: 'on_path', parentId: 'c', paramT: 0.25 });
+        const resolved = resolveConstraints([{ ...slider, slider: { ...slider.slider!, value: 3 } }, circle, p], 's1', 1000, 1000, 20);
+        expect(resolved.find(s => s.id === 'p')!.points[0].x).toBeCloseTo(500);
+        expect(resolved.find(s => s.id === 'p')!.points[0].y).toBeCloseTo(440);
+        expect(getAnimatedParam(p)).toBe('paramT');
+
+        // Snapping onto the curve binds by the normalised parameter
+        const snap = getSnapPoint({ x: 443, y: 500 }, [resolved[1]], [], { width: 1000, height: 1000, ppu: 20 });
+        expect(snap.constraint!.parentId).toBe('c');
+        expect(snap.constraint!.paramT).toBeCloseTo(0.5, 3);
+    });
+
+    it('should snap precisely onto implicit curves', () => {
+        // Snapping lands exactly on the circle (x-1)^2 + (y+2)^2 = 4 (center at screen 520, 540, radius 40px)
+        const circle: Shape = { ...createShape('c', ShapeType.IMPLICIT_CURVE, []), equation: '(x-1)^2 + (y+2)^2 = 4', expressionScope: {} };
+        const snap = getSnapPoint({ x: 563, y: 551 }, [circle], [], { width: 1000, height: 1000, ppu: 20 });
+        expect(snap.snapped).toBe(true);
+        expect(distance(snap.point, { x: 520, y: 540 })).toBeCloseTo(40, 3);
+    });
+
+    it('should keep key points exact as graph coefficients change', () => {
+        // y = x^2 - 2x - 3 and y = x + 1 on a 1000x1000 canvas, 20px per unit
+        const parabola: Shape = { ...createShape('f', ShapeType.FUNCTION_GRAPH, []), functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: -2, c: -3 } };
+        const line: Shape = { ...createShape('g', ShapeType.FUNCTION_GRAPH, []), functionType: 'linear', formulaParams: { k: 1, b: 1 } };
+        let ids = 0;
+        const points = createKeyPoints(parabola, [parabola, line], 1000, 1000, 20, undefined, () => `k${ids++}`);
+
+        // c = -2 gives irrational roots; c = 2 lifts the parabola off the x-axis
+        let shapes = resolveConstraints([{ ...parabola, formulaParams: { a: 1, b: -2, c: -2 } }, line, ...points], 'f', 1000, 1000, 20);
+        expect(shapes.filter(s => s.constraint?.keyPoint?.kind === 'root').map(s => s.labels![0])).toEqual(['(1 − √3, 0)', '(1 + √3, 0)']);
+        expect(shapes.find(s => s.id === 'k0')!.points[0].x).toBeCloseTo(500 + 20 * (1 - Math.sqrt(3)), 6);
+        shapes = resolveConstraints(shapes.map(s => s.id === 'f' ? { ...s, formulaParams: { a: 1, b: -2, c: 2 } } : s), 'f', 1000, 1000, 20);
+        expect(shapes.find(s => s.id === 'k0')!.isUndefined).toBe(true);
+        expect(shapes.find(s => s.id === 'k3')!.labels).toEqual(['(1, 1)']);
+    });
+
+    it('should keep a tangent line and a derivative graph in sync with their graph', () => {
+        const parabola: Shape = { ...createShape('f', ShapeType.FUNCTION_GRAPH, []), functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: -2, c: 0 } };
+        const point: Shape = { ...createShape('p', ShapeType.POINT, [{ x: 540, y: 500 }]), constraint: { type: 'on_path', parentId: 'f', paramX: 2 } };
+        const tangent = createTangentLine('t', point, id => [parabola, point].find(s => s.id === id), 1000, 1000, 20)!;
+
+        // Sliding the point to the vertex flattens the tangent
+        let shapes = resolveConstraints([parabola, { ...point, constraint: { ...point.constraint!, paramX: 1 } }, tangent], 'p', 1000, 1000, 20);
+        const line = shapes.find(s => s.id === 't')!;
+        expect(line.labels).toEqual(['', 'm = 0']);
+        expect(line.points).toEqual([{ x: 460, y: 520 }, { x: 580, y: 520 }]);
+
+        // The derivative of a quadratic is the line 2ax + b, in either form
+        const derivative = createDerivativeGraph('d', parabola, 1000, 1000, 20)!;
+        shapes = resolveConstraints([{ ...parabola, functionForm: 'vertex', formulaParams: { a: 0.3, h: 0.7, k: 1 } }, derivative], 'f', 1000, 1000, 20);
+        expect(shapes[1].formulaParams).toEqual({ k: 0.6, b: -0.42 });
+    });
+
+    it('should re-integrate an area when one of its bounds moves', () => {
+        let ids = 0;
+        const parabola: Shape = { ...createShape('f', ShapeType.FUNCTION_GRAPH, []), functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: 0, c: -4 } };
+        const [left, right, area] = createArea(parabola, undefined, 1000, 1000, 20, undefined, () => `a${ids++}`);
+        const shapes = resolveConstraints([parabola, left, { ...right, constraint: { ...right.constraint!, paramX: 0 } }, area], right.id, 1000, 1000, 20);
+        expect(shapes[3].text).toBe('A = 5.33');
+    });
+
+    it('should snap to inverse proportional graphs y = k/x by x', () => {
+        const hyperbola: Shape = { ...createShape('h', ShapeType.FUNCTION_GRAPH, []), functionType: 'inverse', formulaParams: { k: 2 } };
+        // Snapping beside a steep stretch of the branch binds the point by x
+        const snap = getSnapPoint({ x: 505, y: 200 }, [hyperbola], [], { width: 1000, height: 1000, ppu: 20 });
+        expect(snap.constraint).toMatchObject({ type: 'on_path', parentId: 'h' });
+        expect(snap.constraint!.paramX).toBeCloseTo(2 / 15);
+        expect(snap.point.y).toBeCloseTo(200);
+    });
+
+    it('should snap onto graphs under independent axis scales and an off-centre origin', () => {
+        // x counts in π/2 per grid square, the origin a quarter of the way across
+        const config: AxisConfig = { visible: true, ticks: 10, color: '#000', showGrid: true, xStep: Math.PI / 2, origin: { x: 0.25, y: 0.5 } };
+        const mapping = getAxisMapping(config, 1000, 1000, 1000);
+
+        // Snapping onto y = x binds the point by its x under the new mapping
+        const line: Shape = { ...createShape('l', ShapeType.FUNCTION_GRAPH, []), functionType: 'linear', formulaParams: { k: 1, b: 0 } };
+        const onLine = mathToScreen({ x: 1, y: 1 }, 1000, 1000, mapping.scale, mapping.originY);
+        const snap = getSnapPoint({ x: onLine.x, y: onLine.y + 2 }, [line], [], { width: 1000, height: 1000, ppu: mapping.scale, originY: mapping.originY });
+        expect(snap.constraint).toMatchObject({ type: 'on_path', parentId: 'l' });
+        expect(snap.constraint!.paramX).toBeCloseTo(1);
+        expect(snap.point.y).toBeCloseTo(onLine.y);
+    });
+
     it('should generate clean HTML for LaTeX without MathML (KaTeX Check)', () => {
         const katex = require('katex');
         const formula = '\\frac{1}{2}';
@@ -1,161 +1,439 @@
-import { Shape, ShapeType, Point } from '../types';
-import { lerp, evaluateQuadratic, mathToScreen, getRotatedCorners, getShapeCenter, rotatePoint } from './mathUtils';
+import { Shape, ShapeType, Point, VertexRef, PixelsPerUnit } from '../types';
+import { lerp, evaluateFunctionGraph, isPlottableGraph, evaluateCurve, curveParamAt, mathToScreen, screenToMath, getLengthScale, getRotatedCorners, getShapeCenter, rotatePoint, getShapeIntersections, distance, recalculateMarker } from './mathUtils';
+import { buildDependencyGraph, getTopologicalOrder, getConstraintParentIds, validateConstraintEdit, DependencyCycleError } from './dependencyGraph';
+import { isConstructionType, evaluateConstruction } from './constructions';
+import { getDimensionAnchors, solveDimensions } from './geometricSolver';
+import { recordTraces } from './locusTrace';
+import { applySliderBindings, getSliders, replaceExpressionVariable } from './sliders';
+import { evaluateMeasurement } from './measurements';
+import { evaluateKeyPoint } from './keyPoints';
+import { evaluateTangent, evaluateDerivative } from './tangents';
+import { evaluateArea } from './areas';
 
 /**
- * Updates all shapes that depend on the modified shape.
- * This is a recursive function that propagates changes through the dependency graph.
+ * Recomputes a single constrained shape from the current state of its parents.
+ * Slider-bound parameters are refreshed first (`getSlider` looks sliders up by name).
+ * Returns null when the shape does not need to change.
  */
-export const resolveConstraints = (
-    allShapes: Shape[], 
-    modifiedShapeId: string,
+export const evaluateConstraint = (
+    shape: Shape,
+    getShape: (id: string) => Shape | undefined,
     canvasWidth: number,
     canvasHeight: number,
-    pixelsPerUnit: number,
+    pixelsPerUnit: PixelsPerUnit,
     originY?: number,
-    depth: number = 0
-): Shape[] => {
-    if (depth > 15) {
-        console.warn('[ConstraintSystem] Max recursion depth reached');
-        return allShapes;
+    getSlider?: (name: string) => Shape | undefined
+): Shape | null => {
+    const bound = getSlider ? applySliderBindings(shape, getSlider, canvasWidth, canvasHeight, pixelsPerUnit, originY) : null;
+    return evaluateGeometry(bound || shape, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY) || bound;
+};
+
+// Internal Helper: Position of a constrained shape from its parents
+const evaluateGeometry = (
+    shape: Shape,
+    getShape: (id: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    // --- Markers (tick marks, arrows, arcs) are redrawn on the shape they annotate ---
+    if (shape.type === ShapeType.MARKER && shape.markerConfig) {
+        const targets = shape.markerConfig.targets.map(t => getShape(t.shapeId)).filter((t): t is Shape => !!t);
+        return recalculateMarker(shape, targets);
     }
 
-    // 1. Find direct dependents
-    const dependents = allShapes.filter(s => {
-        if (!s.constraint) return false;
-        const isDirect = s.constraint.parentId === modifiedShapeId;
-        const isMulti = Array.isArray(s.constraint.parents) && s.constraint.parents.some(p => p === modifiedShapeId);
-        return isDirect || isMulti;
-    });
-    
-    if (dependents.length === 0) return allShapes;
-
-    let updatedShapes = [...allShapes];
-
-    for (const dependentStub of dependents) {
-        // CRITICAL: Always get the LATEST version of the dependent from our accumulating array.
-        const currentDependent = updatedShapes.find(s => s.id === dependentStub.id);
-        if (!currentDependent || !currentDependent.constraint) continue;
-
-        const { type, parentId, parents, edgeIndex, paramT, paramX } = currentDependent.constraint;
-        let nextShape: Shape | null = null;
-
-        // --- CASE 1: Point on Edge ---
-        if (type === 'on_edge' && edgeIndex !== undefined && paramT !== undefined && parentId === modifiedShapeId) {
-            const parent = updatedShapes.find(s => s.id === parentId);
-            if (parent) {
-                const visualPoints = getRotatedCorners(parent);
-                if (visualPoints.length >= 2) {
-                    const p1 = visualPoints[edgeIndex];
-                    const p2 = visualPoints[(edgeIndex + 1) % visualPoints.length];
-                    if (p1 && p2) {
-                        const newPos = lerp(p1, p2, paramT);
-                        nextShape = { ...currentDependent, points: [newPos] };
-                    }
-                }
-            }
+    if (!shape.constraint) return null;
+    const { type, parentId, parents, edgeIndex, paramT, paramX, paramAngle } = shape.constraint;
+
+    // --- CASE 1: Point on Edge ---
+    if (type === 'on_edge' && edgeIndex !== undefined && paramT !== undefined && parentId) {
+        const parent = getShape(parentId);
+        if (!parent) return null;
+        const visualPoints = getRotatedCorners(parent);
+        if (visualPoints.length < 2) return null;
+        const p1 = visualPoints[edgeIndex];
+        const p2 = visualPoints[(edgeIndex + 1) % visualPoints.length];
+        if (!p1 || !p2) return null;
+        return { ...shape, points: [lerp(p1, p2, paramT)] };
+    }
+
+    // --- CASE 2: Point on Path (Function Graph, Parametric/Polar Curve, Circle, Ellipse) ---
+    if (type === 'on_path' && parentId) {
+        const parent = getShape(parentId);
+        if (!parent) return null;
+
+        if (isPlottableGraph(parent) && paramX !== undefined) {
+            const my = evaluateFunctionGraph(parent, paramX);
+            // Outside the domain (e.g. sqrt(x) at x < 0) the point keeps its place but is shown as undefined
+            if (isNaN(my)) return shape.isUndefined ? null : { ...shape, isUndefined: true };
+            const newPos = mathToScreen({ x: paramX, y: my }, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+            return { ...shape, points: [newPos], isUndefined: undefined };
         }
-        
-        // --- CASE 2: Point on Path (Function Graph, Circle, Ellipse) ---
-        else if (type === 'on_path' && parentId === modifiedShapeId) {
-             const parent = updatedShapes.find(s => s.id === parentId);
-             if (!parent) continue;
-
-             if (parent.type === ShapeType.FUNCTION_GRAPH && parent.formulaParams && paramX !== undefined) {
-                 const fType = parent.functionType || 'quadratic';
-                 const mx = paramX;
-                 const my = evaluateQuadratic(mx, parent.formulaParams, parent.functionForm, fType);
-                 const newPos = mathToScreen({ x: mx, y: my }, canvasWidth, canvasHeight, pixelsPerUnit, originY);
-                 nextShape = { ...currentDependent, points: [newPos] };
-             }
-             else if (parent.type === ShapeType.CIRCLE && dependentStub.constraint!.paramAngle !== undefined) {
-                 const center = getShapeCenter(parent.points, parent.type);
-                 const radius = Math.abs(parent.points[1].x - parent.points[0].x) / 2;
-                 // Final world angle = relative stored angle + parent's current rotation
-                 const worldAngle = dependentStub.constraint!.paramAngle! + (parent.rotation || 0);
-                 const rad = (worldAngle * Math.PI) / 180;
-                 const newPos = {
-                     x: center.x + radius * Math.cos(rad),
-                     y: center.y + radius * Math.sin(rad)
-                 };
-                 nextShape = { ...currentDependent, points: [newPos] };
-             }
-             else if (parent.type === ShapeType.ELLIPSE && dependentStub.constraint!.paramAngle !== undefined) {
-                 const center = getShapeCenter(parent.points, parent.type);
-                 const rx = Math.abs(parent.points[0].x - parent.points[1].x) / 2;
-                 const ry = Math.abs(parent.points[0].y - parent.points[1].y) / 2;
-                 const rad = (dependentStub.constraint!.paramAngle! * Math.PI) / 180;
-                 
-                 // Initial unrotated position
-                 let newPos = {
-                     x: center.x + rx * Math.cos(rad),
-                     y: center.y + ry * Math.sin(rad)
-                 };
-                 // Apply parent rotation if exists
-                 if (parent.rotation) {
-                     newPos = rotatePoint(newPos, center, parent.rotation);
-                 }
-                 nextShape = { ...currentDependent, points: [newPos] };
-             }
+        if (parent.type === ShapeType.PARAMETRIC_CURVE && parent.curve && paramT !== undefined) {
+            const mp = evaluateCurve(parent, curveParamAt(parent.curve, paramT));
+            if (!mp) return shape.isUndefined ? null : { ...shape, isUndefined: true };
+            return { ...shape, points: [mathToScreen(mp, canvasWidth, canvasHeight, pixelsPerUnit, originY)], isUndefined: undefined };
+        }
+        if (parent.type === ShapeType.CIRCLE && paramAngle !== undefined) {
+            const center = getShapeCenter(parent.points, parent.type);
+            const radius = Math.abs(parent.points[1].x - parent.points[0].x) / 2;
+            // Final world angle = relative stored angle + parent's current rotation
+            const rad = ((paramAngle + (parent.rotation || 0)) * Math.PI) / 180;
+            return { ...shape, points: [{ x: center.x + radius * Math.cos(rad), y: center.y + radius * Math.sin(rad) }] };
         }
+        if (parent.type === ShapeType.ELLIPSE && paramAngle !== undefined) {
+            const center = getShapeCenter(parent.points, parent.type);
+            const rx = Math.abs(parent.points[0].x - parent.points[1].x) / 2;
+            const ry = Math.abs(parent.points[0].y - parent.points[1].y) / 2;
+            const rad = (paramAngle * Math.PI) / 180;
+            // Initial unrotated position, then apply parent rotation if exists
+            let newPos = { x: center.x + rx * Math.cos(rad), y: center.y + ry * Math.sin(rad) };
+            if (parent.rotation) newPos = rotatePoint(newPos, center, parent.rotation);
+            return { ...shape, points: [newPos] };
+        }
+        return null;
+    }
 
-        // --- CASE 3: Line/Shape connected to dynamic Points ---
-        else if (type === 'points_link') {
-            const pids = parents || (parentId ? [parentId] : []);
-            const newPoints = [...currentDependent.points];
-            let changed = false;
-
-            pids.forEach((pid, idx) => {
-                if (!pid) return;
-                const parent = updatedShapes.find(s => s.id === pid);
-                if (parent && parent.points.length > 0) {
-                    const pt = parent.points[0];
-                    if (Math.abs(newPoints[idx].x - pt.x) > 0.01 || Math.abs(newPoints[idx].y - pt.y) > 0.01) {
-                        newPoints[idx] = { x: pt.x, y: pt.y };
-                        changed = true;
-                    }
-                }
-            });
+    // --- CASE 3: Line/Shape connected to dynamic Points ---
+    if (type === 'points_link') {
+        const pids = parents || (parentId ? [parentId] : []);
+        const newPoints = [...shape.points];
+        let changed = false;
 
-            if (changed) {
-                nextShape = { ...currentDependent, points: newPoints, rotation: 0 };
+        pids.forEach((pid, idx) => {
+            if (!pid) return;
+            const parent = getShape(pid);
+            if (parent && parent.points.length > 0) {
+                const pt = parent.points[0];
+                if (Math.abs(newPoints[idx].x - pt.x) > 0.01 || Math.abs(newPoints[idx].y - pt.y) > 0.01) {
+                    newPoints[idx] = { x: pt.x, y: pt.y };
+                    changed = true;
+                }
             }
+        });
+        return changed ? { ...shape, points: newPoints, rotation: 0 } : null;
+    }
+
+    // --- CASE 4: Point at the intersection of two parents ---
+    if (type === 'intersection' && parents && parents.length >= 2) {
+        const parentA = parents[0] ? getShape(parents[0]) : undefined;
+        const parentB = parents[1] ? getShape(parents[1]) : undefined;
+        if (!parentA || !parentB) return null;
+
+        const candidates = getShapeIntersections(parentA, parentB, { width: canvasWidth, height: canvasHeight, ppu: pixelsPerUnit, originY });
+        if (candidates.length === 0) {
+            // Curves no longer meet: keep the last position but flag the point as undefined
+            return shape.isUndefined ? null : { ...shape, isUndefined: true };
         }
+        // Follow the branch closest to the previous position so the point does not jump between crossings
+        const prev = shape.points[0];
+        const newPos = candidates.reduce((best, p) => distance(p, prev) < distance(best, prev) ? p : best, candidates[0]);
+        return { ...shape, points: [newPos], isUndefined: undefined };
+    }
+
+    // --- CASE 5: Derived constructions (midpoint, bisectors, parallel/perpendicular lines) ---
+    if (isConstructionType(type)) {
+        const points = evaluateConstruction(shape.constraint, getShape);
+        return points ? { ...shape, points, rotation: 0 } : null;
+    }
 
+    // --- CASE 6: Dimension labels follow the vertices they measure ---
+    if (type === 'dimension' && shape.dimension) {
+        const anchors = getDimensionAnchors(shape.dimension, getShape);
+        return anchors ? { ...shape, points: anchors } : null;
+    }
+
+    // --- CASE 7: Measurement annotations re-read their target ---
+    if (type === 'measurement') {
+        return evaluateMeasurement(shape, getShape, getLengthScale(pixelsPerUnit));
+    }
+
+    // --- CASE 8: Key points (intercepts, vertex, intersections) of function graphs ---
+    if (type === 'key_point') {
+        return evaluateKeyPoint(shape, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    }
+
+    // --- CASE 9: Tangent lines through a point on a graph, and derivative graphs ---
+    if (type === 'tangent') {
+        return evaluateTangent(shape, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    }
+    if (type === 'derivative') {
+        return evaluateDerivative(shape, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    }
+
+    // --- CASE 10: Points held on the x-axis (bounds of areas) ---
+    if (type === 'x_axis' && paramX !== undefined) {
+        return { ...shape, points: [mathToScreen({ x: paramX, y: 0 }, canvasWidth, canvasHeight, pixelsPerUnit, originY)] };
+    }
+
+    // --- CASE 11: Areas under or between graphs ---
+    if (type === 'area') {
+        return evaluateArea(shape, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    }
+
+    return null;
+};
+
+/**
+ * Updates all shapes that depend on the modified shape.
+ * Dependents are visited once each in topological order of the dependency graph, and only
+ * recomputed if one of their parents actually changed. A cycle aborts the update untouched.
+ * Traced points moved this way extend their locus trail.
+ */
+export const resolveConstraints = (
+    allShapes: Shape[], 
+    modifiedShapeId: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape[] => {
+    const graph = buildDependencyGraph(allShapes);
+
+    let order: string[];
+    try {
+        order = getTopologicalOrder(graph, [modifiedShapeId]);
+    } catch (e) {
+        // Edits are validated before they are applied (validateConstraintEdit), so only a document that
+        // was loaded with a loop gets here; it is left as it is
+        if (e instanceof DependencyCycleError) return allShapes;
+        throw e;
+    }
+    if (order.length === 0) return allShapes;
+
+    const byId = new Map(allShapes.map(s => [s.id, s]));
+    const sliderIds = new Map(getSliders(allShapes).map(s => [s.slider!.name, s.id]));
+    const getSlider = (name: string) => { const id = sliderIds.get(name); return id ? byId.get(id) : undefined; };
+    const changed = new Set<string>([modifiedShapeId]);
+
+    for (const id of order) {
+        if (!(graph.parents.get(id) || []).some(pid => changed.has(pid))) continue;
+        const current = byId.get(id)!;
+        const nextShape = evaluateConstraint(current, pid => byId.get(pid), canvasWidth, canvasHeight, pixelsPerUnit, originY, getSlider);
         if (nextShape) {
-            updatedShapes = updatedShapes.map(s => s.id === currentDependent.id ? nextShape! : s);
-            updatedShapes = resolveConstraints(updatedShapes, currentDependent.id, canvasWidth, canvasHeight, pixelsPerUnit, originY, depth + 1);
+            byId.set(id, nextShape);
+            changed.add(id);
         }
     }
 
-    return updatedShapes;
+    changed.delete(modifiedShapeId);
+    return recordTraces(allShapes.map(s => byId.get(s.id) || s), changed);
+};
+
+/**
+ * Re-solves the dimensional constraints (fixed length/angle, parallel, ...) after an edit, keeping
+ * the pinned vertices in place, then propagates the moved vertices to their dependents.
+ * `overDetermined` is true when the constraints cannot all hold at once.
+ */
+export const solveDimensionConstraints = (
+    allShapes: Shape[],
+    pinned: VertexRef[],
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): { shapes: Shape[]; overDetermined: boolean } => {
+    const result = solveDimensions(allShapes, pinned, getLengthScale(pixelsPerUnit));
+    let shapes = result.shapes;
+    result.changedIds.forEach(id => {
+        shapes = resolveConstraints(shapes, id, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+    });
+    return { shapes, overDetermined: !result.converged };
 };
 
 /**
- * Recursively finds all shapes that depend on the given parent IDs.
+ * Finds all shapes that depend (directly or transitively) on the given parent IDs.
  */
 export const getDependents = (allShapes: Shape[], parentIds: Set<string>): Shape[] => {
+    const graph = buildDependencyGraph(allShapes);
+    const byId = new Map(allShapes.map(s => [s.id, s]));
     const dependents: Shape[] = [];
     const queue = Array.from(parentIds);
     const visited = new Set<string>(parentIds);
 
     while (queue.length > 0) {
         const pid = queue.shift()!;
-        const children = allShapes.filter(s => {
-            if (visited.has(s.id)) return false;
-            const isDirect = s.constraint?.parentId === pid;
-            const isMulti = Array.isArray(s.constraint?.parents) && s.constraint!.parents.includes(pid);
-            return isDirect || isMulti;
-        });
-        
-        children.forEach(child => {
-            dependents.push(child);
-            visited.add(child.id);
-            queue.push(child.id);
+        (graph.children.get(pid) || []).forEach(childId => {
+            if (visited.has(childId)) return;
+            visited.add(childId);
+            dependents.push(byId.get(childId)!);
+            queue.push(childId);
         });
     }
     return dependents;
 };
 
+// Shapes that can stand in for each other as a parent (same role in the constraint)
+const EDGE_PARENT_TYPES = [ShapeType.LINE, ShapeType.TRIANGLE, ShapeType.RECTANGLE, ShapeType.SQUARE, ShapeType.POLYGON];
+const ROUND_PARENT_TYPES = [ShapeType.CIRCLE, ShapeType.ELLIPSE];
+
+// Internal Helper: Replaces (or with null, removes) a parent id in every field of a constraint that references it
+const replaceParentRef = (shape: Shape, oldId: string, newId: string | null): Shape => {
+    const next: Shape = { ...shape };
+    const c = shape.constraint;
+    if (c) {
+        next.constraint = { ...c };
+        if (c.parentId === oldId) next.constraint.parentId = newId || undefined;
+        if (c.parents) next.constraint.parents = c.parents.map(pid => pid === oldId ? newId : pid);
+    }
+    if (shape.markerConfig && newId) {
+        next.markerConfig = { ...shape.markerConfig, targets: shape.markerConfig.targets.map(t => t.shapeId === oldId ? { ...t, shapeId: newId } : t) };
+    }
+    if (shape.dimension && newId) {
+        next.dimension = { ...shape.dimension, vertices: shape.dimension.vertices.map(v => v.shapeId === oldId ? { ...v, shapeId: newId } : v) };
+    }
+    if (shape.measurement && newId) {
+        const m = shape.measurement;
+        next.measurement = { ...m, targetId: m.targetId === oldId ? newId : m.targetId, pointIds: m.pointIds?.map(pid => pid === oldId ? newId : pid) };
+    }
+    return next;
+};
+
+// Internal Helper: Replaces (or removes) the bindings of a shape that read from a slider
+const replaceSliderRef = (shape: Shape, oldName: string, newName: string | null): Shape => {
+    const rebind = <K extends string>(bindings?: Partial<Record<K, string>>) => {
+        if (!bindings) return bindings;
+        const out: Partial<Record<K, string>> = {};
+        (Object.keys(bindings) as K[]).forEach(key => {
+            if (bindings[key] !== oldName) out[key] = bindings[key];
+            else if (newName) out[key] = newName;
+        });
+        return Object.keys(out).length > 0 ? out : undefined;
+    };
+    // Expressions read the slider by name: rename it, or freeze its current value into the text
+    return replaceExpressionVariable({
+        ...shape,
+        sliderBindings: rebind(shape.sliderBindings),
+        constraint: shape.constraint ? { ...shape.constraint, sliderBindings: rebind(shape.constraint.sliderBindings) } : undefined
+    }, oldName, newName);
+};
+
+/**
+ * Annotations only exist to describe their targets, so they can be rebound but not detached.
+ */
+export const canDetachFromParent = (shape: Shape) =>
+    shape.type !== ShapeType.MARKER && shape.constraint?.type !== 'dimension' && shape.constraint?.type !== 'measurement';
+
+/**
+ * Cuts the link between a dependent and one of its parents; the dependent keeps its current geometry.
+ * A line glued to several points only lets go of that one point; any other constraint is dropped as a
+ * whole, turning the shape into a free one. Detaching from a slider removes the bindings to it (an
+ * expression keeps the slider's current value as a number).
+ */
+export const detachFromParent = (allShapes: Shape[], shapeId: string, parentId: string): Shape[] => {
+    const shape = allShapes.find(s => s.id === shapeId);
+    const parent = allShapes.find(s => s.id === parentId);
+    if (!shape || !parent || !canDetachFromParent(shape)) return allShapes;
+
+    let next: Shape;
+    if (parent.type === ShapeType.SLIDER && parent.slider) {
+        next = replaceSliderRef(shape, parent.slider.name, null);
+    } else if (shape.constraint?.type === 'points_link' && shape.constraint.parents) {
+        next = replaceParentRef(shape, parentId, null);
+        if (next.constraint!.parents!.every(pid => !pid)) next = { ...next, constraint: undefined };
+    } else {
+        next = { ...shape, constraint: undefined, isUndefined: undefined, animation: undefined };
+    }
+    return allShapes.map(s => s.id === shapeId ? next : s);
+};
+
+export type DeleteMode = 'cascade' | 'freeze';
+
+/**
+ * Deletes shapes together with what hangs off them. `cascade` removes the whole dependent subtree;
+ * `freeze` detaches the direct dependents so they stay as free shapes where they are (annotations
+ * of a deleted shape have nothing left to describe and go with it). Markers on removed shapes go too.
+ */
+export const deleteShapes = (allShapes: Shape[], ids: Set<string>, mode: DeleteMode): Shape[] => {
+    const removed = new Set(ids);
+    let result = allShapes;
+
+    if (mode === 'cascade') {
+        getDependents(allShapes, ids).forEach(s => removed.add(s.id));
+    } else {
+        const graph = buildDependencyGraph(allShapes);
+        ids.forEach(id => (graph.children.get(id) || []).forEach(childId => {
+            if (ids.has(childId)) return;
+            const child = result.find(s => s.id === childId)!;
+            if (canDetachFromParent(child)) result = detachFromParent(result, childId, id);
+            else removed.add(childId);
+        }));
+    }
+
+    return result.filter(s => {
+        if (removed.has(s.id)) return false;
+        if (s.type === ShapeType.MARKER && s.markerConfig?.targets.some(t => removed.has(t.shapeId))) return false;
+        return true;
+    });
+};
+
+/**
+ * Shapes that could replace `oldParentId` as a parent of `shapeId`: same kind of shape (any edge-bearing
+ * shape for a point on an edge, circle or ellipse for a point on a round path), and not downstream of
+ * the dependent, which would close a loop. Shapes it already reads from are left out.
+ */
+export const getRebindCandidates = (allShapes: Shape[], shapeId: string, oldParentId: string): Shape[] => {
+    const shape = allShapes.find(s => s.id === shapeId);
+    const oldParent = allShapes.find(s => s.id === oldParentId);
+    if (!shape || !oldParent) return [];
+
+    const group = [EDGE_PARENT_TYPES, ROUND_PARENT_TYPES].find(g => g.includes(oldParent.type));
+    const compatible = (s: Shape) => {
+        if (shape.constraint?.type === 'on_edge') return EDGE_PARENT_TYPES.includes(s.type);
+        if (shape.constraint?.type === 'on_path' && group === ROUND_PARENT_TYPES) return ROUND_PARENT_TYPES.includes(s.type);
+        return s.type === oldParent.type;
+    };
+    const excluded = new Set([shapeId, ...getConstraintParentIds(shape.constraint), ...getDependents(allShapes, new Set([shapeId])).map(s => s.id)]);
+    return allShapes.filter(s => !excluded.has(s.id) && compatible(s));
+};
+
+/**
+ * Moves a dependent from one parent to another and recomputes it (and its own dependents) from the new one.
+ * Throws a DependencyCycleError if the new parent reads from the dependent.
+ */
+export const rebindToParent = (
+    allShapes: Shape[],
+    shapeId: string,
+    oldParentId: string,
+    newParentId: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape[] => {
+    const shape = allShapes.find(s => s.id === shapeId);
+    const oldParent = allShapes.find(s => s.id === oldParentId);
+    const newParent = allShapes.find(s => s.id === newParentId);
+    if (!shape || !oldParent || !newParent) return allShapes;
+
+    let next: Shape;
+    if (oldParent.type === ShapeType.SLIDER) {
+        if (!oldParent.slider || !newParent.slider) return allShapes;
+        next = replaceSliderRef(shape, oldParent.slider.name, newParent.slider.name);
+        // Bindings name their slider, so check the loop on the rebound graph
+        getTopologicalOrder(buildDependencyGraph(allShapes.map(s => s.id === shapeId ? next : s)), [newParentId]);
+    } else if (shape.constraint || shape.markerConfig) {
+        if (shape.constraint) validateConstraintEdit(allShapes, shapeId, { ...shape.constraint, parents: [...(shape.constraint.parents || []), newParentId] });
+        next = replaceParentRef(shape, oldParentId, newParentId);
+        // The new parent may have fewer edges than the old one
+        if (next.constraint?.type === 'on_edge' && next.constraint.edgeIndex !== undefined) {
+            const corners = getRotatedCorners(newParent).length;
+            const edges = newParent.type === ShapeType.LINE ? 1 : corners;
+            next.constraint.edgeIndex = Math.min(next.constraint.edgeIndex, Math.max(0, edges - 1));
+        }
+    } else {
+        return allShapes;
+    }
+
+    const byId = new Map(allShapes.map(s => [s.id, s.id === shapeId ? next : s]));
+    const sliderIds = new Map(getSliders(allShapes).map(s => [s.slider!.name, s.id]));
+    const getSlider = (name: string) => { const id = sliderIds.get(name); return id ? byId.get(id) : undefined; };
+    const evaluated = evaluateConstraint(next, pid => byId.get(pid), canvasWidth, canvasHeight, pixelsPerUnit, originY, getSlider) || next;
+    const result = allShapes.map(s => s.id === shapeId ? evaluated : s);
+    return resolveConstraints(result, shapeId, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+};
+
 /**
  * Constrains a point to an edge when it is being dragged.
  */
@@ -231,3 +509,18 @@ export const constrainPointToPath = (
     
     return { point: cursorPos, angle: 0 };
 };
+
+/**
+ * Constrains a point held on the x-axis (an area bound) when it is being dragged.
+ * Returns the point below or above the cursor on the axis and its x in math units.
+ */
+export const constrainPointToXAxis = (
+    cursorPos: Point,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): { point: Point, x: number } => {
+    const x = screenToMath(cursorPos, canvasWidth, canvasHeight, pixelsPerUnit, originY).x;
+    return { point: mathToScreen({ x, y: 0 }, canvasWidth, canvasHeight, pixelsPerUnit, originY), x };
+};
@@ -0,0 +1,331 @@
+import { Shape, ShapeType, Point, Constraint, ConstructionType, ToolType, TriangleCenterType } from '../types';
+import { distance, getRotatedCorners, getClosestPointOnSegment, getProjectionParameter, lerp } from './mathUtils';
+
+// Tools that build a derived object by picking existing shapes
+export const CONSTRUCTION_TOOLS: Partial<Record<ToolType, ConstructionType>> = {
+    [ToolType.MIDPOINT]: 'midpoint',
+    [ToolType.PERPENDICULAR_BISECTOR]: 'perpendicular_bisector',
+    [ToolType.ANGLE_BISECTOR]: 'angle_bisector',
+    [ToolType.PARALLEL]: 'parallel',
+    [ToolType.PERPENDICULAR]: 'perpendicular'
+};
+
+export const CONSTRUCTION_HINTS: Partial<Record<ConstructionType, string>> = {
+    midpoint: 'Pick two points or a segment',
+    perpendicular_bisector: 'Pick two points or a segment',
+    angle_bisector: 'Pick a point, the vertex, then another point',
+    parallel: 'Pick a line and a point it should pass through',
+    perpendicular: 'Pick a line and a point it should pass through'
+};
+
+const CONSTRUCTION_TYPE_LIST: ConstructionType[] = [
+    'midpoint', 'perpendicular_bisector', 'angle_bisector', 'parallel', 'perpendicular',
+    'triangle_center', 'circumcircle', 'incircle', 'median', 'altitude'
+];
+
+export const isConstructionType = (type?: string): type is ConstructionType =>
+    CONSTRUCTION_TYPE_LIST.includes(type as ConstructionType);
+
+// A shape clicked while a construction tool is active
+export interface ConstructionPick {
+    shapeId: string;
+    isPoint: boolean;
+    edgeIndex?: number; // Which edge of a line/polygon was picked
+}
+
+const SEGMENT_SHAPES = [ShapeType.LINE, ShapeType.TRIANGLE, ShapeType.POLYGON, ShapeType.RECTANGLE, ShapeType.SQUARE];
+
+/**
+ * Returns the visual segment of `shape` starting at `edgeIndex` (lines have a single edge 0).
+ */
+export const getReferenceSegment = (shape: Shape, edgeIndex: number = 0): [Point, Point] | null => {
+    if (!SEGMENT_SHAPES.includes(shape.type)) return null;
+    const corners = getRotatedCorners(shape);
+    if (corners.length < 2) return null;
+    const isClosed = shape.type !== ShapeType.LINE;
+    if (!isClosed && edgeIndex > 0) return null;
+    const p1 = corners[edgeIndex];
+    const p2 = corners[(edgeIndex + 1) % corners.length];
+    return p1 && p2 ? [p1, p2] : null;
+};
+
+/**
+ * Turns a clicked shape into a pick: points are used as-is, segment shapes resolve to their nearest edge.
+ */
+export const toConstructionPick = (shape: Shape, pos: Point): ConstructionPick | null => {
+    if (shape.type === ShapeType.POINT) return { shapeId: shape.id, isPoint: true };
+    if (!SEGMENT_SHAPES.includes(shape.type)) return null;
+
+    const corners = getRotatedCorners(shape);
+    const count = shape.type === ShapeType.LINE ? corners.length - 1 : corners.length;
+    let bestIndex = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < count; i++) {
+        const d = distance(pos, getClosestPointOnSegment(pos, corners[i], corners[(i + 1) % corners.length]));
+        if (d < bestDist) { bestDist = d; bestIndex = i; }
+    }
+    return { shapeId: shape.id, isPoint: false, edgeIndex: bestIndex };
+};
+
+/**
+ * Whether `pick` can be added to the picks collected so far for `kind`.
+ */
+export const acceptsPick = (kind: ConstructionType, picks: ConstructionPick[], pick: ConstructionPick): boolean => {
+    if (picks.some(p => p.shapeId === pick.shapeId && p.edgeIndex === pick.edgeIndex)) return false;
+    switch (kind) {
+        case 'midpoint':
+        case 'perpendicular_bisector':
+            // Either one segment, or two points
+            return pick.isPoint || picks.length === 0;
+        case 'angle_bisector':
+            return pick.isPoint;
+        case 'parallel':
+        case 'perpendicular':
+            return !picks.some(p => p.isPoint === pick.isPoint);
+        default:
+            return false;
+    }
+};
+
+/**
+ * Returns the constraint of the derived object once enough parents are picked, otherwise null.
+ */
+export const completeConstruction = (kind: ConstructionType, picks: ConstructionPick[]): Constraint | null => {
+    const points = picks.filter(p => p.isPoint);
+    const line = picks.find(p => !p.isPoint);
+    switch (kind) {
+        case 'midpoint':
+        case 'perpendicular_bisector':
+            if (line) return { type: kind, parentId: line.shapeId, edgeIndex: line.edgeIndex };
+            return points.length === 2 ? { type: kind, parents: points.map(p => p.shapeId) } : null;
+        case 'angle_bisector':
+            return points.length === 3 ? { type: kind, parents: points.map(p => p.shapeId) } : null;
+        case 'parallel':
+        case 'perpendicular':
+            return line && points.length === 1 ? { type: kind, parentId: line.shapeId, edgeIndex: line.edgeIndex, parents: [points[0].shapeId] } : null;
+        default:
+            return null;
+    }
+};
+
+// --- Geometry of the derived objects (screen space) ---
+
+const unit = (v: Point): Point | null => {
+    const len = Math.sqrt(v.x * v.x + v.y * v.y);
+    return len < 1e-9 ? null : { x: v.x / len, y: v.y / len };
+};
+
+export const computeMidpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Perpendicular bisector of ab, drawn as long as ab and centred on its midpoint.
+ */
+export const computePerpendicularBisector = (a: Point, b: Point): [Point, Point] | null => {
+    const dir = unit({ x: b.x - a.x, y: b.y - a.y });
+    if (!dir) return null;
+    const m = computeMidpoint(a, b);
+    const half = distance(a, b) / 2;
+    return [
+        { x: m.x + dir.y * half, y: m.y - dir.x * half },
+        { x: m.x - dir.y * half, y: m.y + dir.x * half }
+    ];
+};
+
+/**
+ * Bisector of angle a-v-c as a ray from the vertex, as long as the longer arm.
+ */
+export const computeAngleBisector = (a: Point, v: Point, c: Point): [Point, Point] | null => {
+    const u1 = unit({ x: a.x - v.x, y: a.y - v.y });
+    const u2 = unit({ x: c.x - v.x, y: c.y - v.y });
+    if (!u1 || !u2) return null;
+    // A straight angle has no sum direction; its bisector is the normal of the arms
+    const dir = unit({ x: u1.x + u2.x, y: u1.y + u2.y }) || { x: -u1.y, y: u1.x };
+    const len = Math.max(distance(a, v), distance(c, v));
+    return [v, { x: v.x + dir.x * len, y: v.y + dir.y * len }];
+};
+
+/**
+ * Line through `p` parallel (or perpendicular) to segment s1-s2, as long as the reference and centred on `p`.
+ */
+export const computeLineThrough = (s1: Point, s2: Point, p: Point, perpendicular: boolean): [Point, Point] | null => {
+    const dir = unit({ x: s2.x - s1.x, y: s2.y - s1.y });
+    if (!dir) return null;
+    const d = perpendicular ? { x: -dir.y, y: dir.x } : dir;
+    const half = distance(s1, s2) / 2;
+    return [
+        { x: p.x - d.x * half, y: p.y - d.y * half },
+        { x: p.x + d.x * half, y: p.y + d.y * half }
+    ];
+};
+
+// --- Triangle centers ---
+
+export const TRIANGLE_CENTER_LABELS: Record<TriangleCenterType, string> = {
+    centroid: 'G',
+    circumcenter: 'O',
+    incenter: 'I',
+    orthocenter: 'H'
+};
+
+// Internal Helper: Visual vertices of a triangle (follows move, rotate and resize)
+const getTriangleVertices = (shape: Shape): [Point, Point, Point] | null => {
+    if (shape.type !== ShapeType.TRIANGLE) return null;
+    const corners = getRotatedCorners(shape);
+    return corners.length >= 3 ? [corners[0], corners[1], corners[2]] : null;
+};
+
+export const computeTriangleCenter = (a: Point, b: Point, c: Point, kind: TriangleCenterType): Point | null => {
+    switch (kind) {
+        case 'centroid':
+            return { x: (a.x + b.x + c.x) / 3, y: (a.y + b.y + c.y) / 3 };
+        case 'circumcenter': {
+            const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+            if (Math.abs(d) < 1e-9) return null; // Collinear vertices
+            const a2 = a.x * a.x + a.y * a.y, b2 = b.x * b.x + b.y * b.y, c2 = c.x * c.x + c.y * c.y;
+            return {
+                x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+                y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+            };
+        }
+        case 'incenter': {
+            // Vertices weighted by the length of the opposite side
+            const la = distance(b, c), lb = distance(a, c), lc = distance(a, b);
+            const sum = la + lb + lc;
+            if (sum < 1e-9) return null;
+            return { x: (la * a.x + lb * b.x + lc * c.x) / sum, y: (la * a.y + lb * b.y + lc * c.y) / sum };
+        }
+        case 'orthocenter': {
+            // Euler line: H = A + B + C - 2O
+            const o = computeTriangleCenter(a, b, c, 'circumcenter');
+            return o ? { x: a.x + b.x + c.x - 2 * o.x, y: a.y + b.y + c.y - 2 * o.y } : null;
+        }
+    }
+};
+
+// Internal Helper: Circle shapes store their bounding box corners
+const circleBox = (center: Point, r: number): Point[] => [
+    { x: center.x - r, y: center.y - r },
+    { x: center.x + r, y: center.y + r }
+];
+
+/**
+ * Constraints for one triangle option from the properties panel.
+ * Medians and altitudes expand to one line per vertex.
+ */
+export const getTriangleConstructionConstraints = (
+    triangleId: string,
+    option: TriangleCenterType | 'circumcircle' | 'incircle' | 'median' | 'altitude'
+): Constraint[] => {
+    if (option === 'circumcircle' || option === 'incircle') return [{ type: option, parentId: triangleId }];
+    if (option === 'median' || option === 'altitude') return [0, 1, 2].map(i => ({ type: option, parentId: triangleId, vertexIndex: i }));
+    return [{ type: 'triangle_center', parentId: triangleId, triangleCenter: option }];
+};
+
+/**
+ * Builds a new derived shape for `constraint`, placed at its current solution.
+ * Returns null if the construction is degenerate right now.
+ */
+export const createDerivedShape = (
+    id: string,
+    constraint: Constraint,
+    getShape: (id: string) => Shape | undefined,
+    style: { fill: string; stroke: string; strokeWidth: number; strokeType?: 'solid' | 'dashed' | 'dotted' }
+): Shape | null => {
+    const points = evaluateConstruction(constraint, getShape);
+    if (!points) return null;
+    const isPoint = constraint.type === 'midpoint' || constraint.type === 'triangle_center';
+    const isCircle = constraint.type === 'circumcircle' || constraint.type === 'incircle';
+    return {
+        id,
+        type: isPoint ? ShapeType.POINT : isCircle ? ShapeType.CIRCLE : ShapeType.LINE,
+        points,
+        labels: constraint.triangleCenter ? [TRIANGLE_CENTER_LABELS[constraint.triangleCenter]] : undefined,
+        fill: isCircle ? 'transparent' : style.fill,
+        stroke: style.stroke,
+        strokeWidth: style.strokeWidth,
+        strokeType: style.strokeType,
+        rotation: 0,
+        constraint
+    };
+};
+
+/**
+ * Recomputes the points of a derived object from its parents.
+ * Returns null if a parent is missing or the input is degenerate (the shape then keeps its last position).
+ */
+export const evaluateConstruction = (constraint: Constraint, getShape: (id: string) => Shape | undefined): Point[] | null => {
+    const pointOf = (id: string | null | undefined): Point | null => {
+        const s = id ? getShape(id) : undefined;
+        return s && s.points.length > 0 ? s.points[0] : null;
+    };
+    const segment = (): [Point, Point] | null => {
+        const s = constraint.parentId ? getShape(constraint.parentId) : undefined;
+        return s ? getReferenceSegment(s, constraint.edgeIndex || 0) : null;
+    };
+    const triangle = (): [Point, Point, Point] | null => {
+        const s = constraint.parentId ? getShape(constraint.parentId) : undefined;
+        return s ? getTriangleVertices(s) : null;
+    };
+    const pointPair = (): [Point, Point] | null => {
+        if (constraint.parentId) return segment();
+        const a = pointOf(constraint.parents?.[0]);
+        const b = pointOf(constraint.parents?.[1]);
+        return a && b ? [a, b] : null;
+    };
+
+    switch (constraint.type) {
+        case 'midpoint': {
+            const ab = pointPair();
+            return ab ? [computeMidpoint(ab[0], ab[1])] : null;
+        }
+        case 'perpendicular_bisector': {
+            const ab = pointPair();
+            return ab ? computePerpendicularBisector(ab[0], ab[1]) : null;
+        }
+        case 'angle_bisector': {
+            const [a, v, c] = [0, 1, 2].map(i => pointOf(constraint.parents?.[i]));
+            return a && v && c ? computeAngleBisector(a, v, c) : null;
+        }
+        case 'parallel':
+        case 'perpendicular': {
+            const seg = segment();
+            const p = pointOf(constraint.parents?.[0]);
+            return seg && p ? computeLineThrough(seg[0], seg[1], p, constraint.type === 'perpendicular') : null;
+        }
+        case 'triangle_center': {
+            const tri = triangle();
+            const center = tri && constraint.triangleCenter ? computeTriangleCenter(tri[0], tri[1], tri[2], constraint.triangleCenter) : null;
+            return center ? [center] : null;
+        }
+        case 'circumcircle': {
+            const tri = triangle();
+            const o = tri ? computeTriangleCenter(tri[0], tri[1], tri[2], 'circumcenter') : null;
+            return tri && o ? circleBox(o, distance(o, tri[0])) : null;
+        }
+        case 'incircle': {
+            const tri = triangle();
+            const i = tri ? computeTriangleCenter(tri[0], tri[1], tri[2], 'incenter') : null;
+            if (!tri || !i) return null;
+            // r = 2 * area / perimeter
+            const [a, b, c] = tri;
+            const area = Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+            const perimeter = distance(a, b) + distance(b, c) + distance(c, a);
+            return area < 1e-9 ? null : circleBox(i, (2 * area) / perimeter);
+        }
+        case 'median':
+        case 'altitude': {
+            const tri = triangle();
+            const idx = constraint.vertexIndex || 0;
+            if (!tri || idx > 2) return null;
+            const v = tri[idx];
+            const s1 = tri[(idx + 1) % 3];
+            const s2 = tri[(idx + 2) % 3];
+            if (constraint.type === 'median') return [v, computeMidpoint(s1, s2)];
+            if (distance(s1, s2) < 1e-9) return null;
+            // Foot on the supporting line of the opposite side (outside it for obtuse triangles)
+            return [v, lerp(s1, s2, getProjectionParameter(v, s1, s2))];
+        }
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,159 @@
+import { Shape, Constraint } from '../types';
+import { getSliders, getBoundSliderNames } from './sliders';
+
+/**
+ * Directed graph of constraint dependencies.
+ * An edge parent -> child means the child's geometry is computed from the parent.
+ */
+export interface DependencyGraph {
+    parents: Map<string, string[]>;
+    children: Map<string, string[]>;
+}
+
+/**
+ * Thrown when an edit (or a loaded document) would make a shape depend on itself.
+ * `cycle` lists the shape ids along the loop, starting and ending with the same id.
+ */
+export class DependencyCycleError extends Error {
+    cycle: string[];
+
+    constructor(cycle: string[]) {
+        super(`Circular dependency: ${cycle.join(' -> ')}`);
+        this.name = 'DependencyCycleError';
+        this.cycle = cycle;
+    }
+}
+
+/**
+ * Returns the ids a constraint reads from (single parentId and/or the multi-parent list).
+ */
+export const getConstraintParentIds = (constraint?: Constraint): string[] => {
+    if (!constraint) return [];
+    const ids: string[] = [];
+    if (constraint.parentId) ids.push(constraint.parentId);
+    if (Array.isArray(constraint.parents)) {
+        constraint.parents.forEach(pid => { if (pid && !ids.includes(pid)) ids.push(pid); });
+    }
+    return ids;
+};
+
+export const buildDependencyGraph = (shapes: Shape[]): DependencyGraph => {
+    const parents = new Map<string, string[]>();
+    const children = new Map<string, string[]>();
+    shapes.forEach(s => children.set(s.id, []));
+    // Slider bindings reference sliders by name
+    const sliderIds = new Map(getSliders(shapes).map(s => [s.slider!.name, s.id]));
+
+    shapes.forEach(s => {
+        const sliderParents = getBoundSliderNames(s).map(name => sliderIds.get(name)).filter((id): id is string => !!id);
+        // Markers annotate their targets without a constraint of their own
+        const markerParents = s.markerConfig ? s.markerConfig.targets.map(t => t.shapeId) : [];
+        const pids = Array.from(new Set([...getConstraintParentIds(s.constraint), ...sliderParents, ...markerParents])).filter(pid => children.has(pid));
+        parents.set(s.id, pids);
+        pids.forEach(pid => children.get(pid)!.push(s.id));
+    });
+    return { parents, children };
+};
+
+// Internal Helper: All shapes reachable from the roots (roots excluded), in BFS order
+const collectDescendants = (graph: DependencyGraph, rootIds: string[]): string[] => {
+    const result: string[] = [];
+    const visited = new Set<string>(rootIds);
+    const queue = [...rootIds];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        (graph.children.get(id) || []).forEach(child => {
+            if (visited.has(child)) return;
+            visited.add(child);
+            result.push(child);
+            queue.push(child);
+        });
+    }
+    return result;
+};
+
+// Internal Helper: Walks parent edges inside `scope` to report the loop a Kahn pass got stuck on
+const traceCycle = (graph: DependencyGraph, scope: Set<string>): string[] => {
+    const start = scope.values().next().value as string;
+    const path: string[] = [];
+    const seenAt = new Map<string, number>();
+    let current: string | undefined = start;
+    while (current !== undefined && !seenAt.has(current)) {
+        seenAt.set(current, path.length);
+        path.push(current);
+        current = (graph.parents.get(current) || []).find(pid => scope.has(pid));
+    }
+    if (current === undefined) return path;
+    // Parent edges run backwards, so reverse to read in dependency direction
+    return [...path.slice(seenAt.get(current)!), current].reverse();
+};
+
+/**
+ * Returns every shape downstream of the roots in an order where each shape comes after all
+ * of its parents, so that each one only needs to be recomputed once.
+ * Throws a DependencyCycleError if the affected part of the graph is not a DAG.
+ */
+export const getTopologicalOrder = (graph: DependencyGraph, rootIds: string[]): string[] => {
+    const affected = collectDescendants(graph, rootIds);
+    const scope = new Set(affected);
+
+    // A root that reads from its own descendants never shows up in `affected`, so check it directly
+    const loopingRoot = rootIds.find(r => (graph.parents.get(r) || []).some(pid => pid === r || scope.has(pid)));
+    if (loopingRoot) throw new DependencyCycleError(traceCycle(graph, new Set([loopingRoot, ...affected])));
+
+    // Kahn's algorithm restricted to the affected subgraph
+    const inDegree = new Map<string, number>();
+    affected.forEach(id => {
+        inDegree.set(id, (graph.parents.get(id) || []).filter(pid => scope.has(pid)).length);
+    });
+    const queue = affected.filter(id => inDegree.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+        (graph.children.get(id) || []).forEach(child => {
+            if (!scope.has(child)) return;
+            const remaining = inDegree.get(child)! - 1;
+            inDegree.set(child, remaining);
+            if (remaining === 0) queue.push(child);
+        });
+    }
+
+    if (order.length < affected.length) {
+        const stuck = new Set(affected.filter(id => !order.includes(id)));
+        throw new DependencyCycleError(traceCycle(graph, stuck));
+    }
+    return order;
+};
+
+/**
+ * Throws a DependencyCycleError if giving `shapeId` the constraint `next` would make it
+ * (indirectly) depend on itself.
+ */
+export const validateConstraintEdit = (shapes: Shape[], shapeId: string, next?: Constraint): void => {
+    const pids = getConstraintParentIds(next);
+    if (pids.includes(shapeId)) throw new DependencyCycleError([shapeId, shapeId]);
+    if (pids.length === 0) return;
+
+    const graph = buildDependencyGraph(shapes);
+    // BFS downstream of the edited shape, remembering how each child was reached
+    const via = new Map<string, string>();
+    const queue = [shapeId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        (graph.children.get(id) || []).forEach(child => {
+            if (child === shapeId || via.has(child)) return;
+            via.set(child, id);
+            queue.push(child);
+        });
+    }
+
+    const offending = pids.find(pid => via.has(pid));
+    if (offending) {
+        // Loop reads: shapeId -> ... -> offending -> shapeId
+        const path = [offending];
+        while (path[0] !== shapeId) path.unshift(via.get(path[0])!);
+        throw new DependencyCycleError([...path, shapeId]);
+    }
+};
+
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { compileExpression, compileInequality, renameExpressionVariable, ExpressionError } from './expressionParser';
+
+describe('Expression Parser', () => {
+    it('should evaluate functions, implicit products, powers and absolute values', () => {
+        expect(compileExpression('2sin(x)+1').evaluate(Math.PI / 2)).toBeCloseTo(3);
+        expect(compileExpression('2^x').evaluate(3)).toBe(8);
+        expect(compileExpression('|x-1|').evaluate(-2)).toBe(3);
+    });
+
+    it('should return NaN outside the domain', () => {
+        expect(compileExpression('sqrt(x-2)').evaluate(0)).toBeNaN();
+    });
+
+    it('should evaluate piecewise definitions by their first matching condition', () => {
+        const piecewise = compileExpression('{x^2, x < 0; 2x}');
+        expect(piecewise.evaluate(-3)).toBe(9);
+        expect(piecewise.evaluate(3)).toBe(6);
+    });
+
+    it('should reject malformed input with an ExpressionError', () => {
+        expect(() => compileExpression('2*(x+')).toThrow(ExpressionError);
+    });
+
+    it('should reject deeply nested input with an ExpressionError instead of overflowing the stack', () => {
+        expect(compileExpression('(((x)))^-(-2)').evaluate(2)).toBe(4);
+        expect(() => compileExpression('('.repeat(5000) + 'x' + ')'.repeat(5000))).toThrow('Expression is nested too deeply');
+        expect(() => compileExpression('-'.repeat(5000) + 'x')).toThrow(ExpressionError);
+        expect(() => compileExpression('sin '.repeat(5000) + 'x')).toThrow(ExpressionError);
+    });
+
+    it('should read slider names as variables and rename them', () => {
+        expect(compileExpression('a/x', ['a']).variables).toEqual(['a']);
+        expect(renameExpressionVariable('a/x', ['a'], 'a', 'k')).toBe('k/x');
+    });
+
+    it('should compile inequalities, including chained ones, and reject equations', () => {
+        expect(() => compileInequality('y = 2x')).toThrow(ExpressionError);
+        expect(compileInequality('-1 < x < 2').conditions).toHaveLength(2);
+    });
+});
@@ -0,0 +1,457 @@
+/**
+ * Safe parser for function expressions such as `2sin(x)+1`, `1/x`, `sqrt(x-2)`, `|x|` or `2^x`.
+ * The argument is x by default; curves use t or θ instead.
+ * The text is compiled into a tree of closures; it is never handed to eval/Function.
+ *
+ * Grammar, from lowest to highest precedence:
+ *   piecewise   {expr, condition; expr, condition; expr}  (first true condition wins; the last piece may omit it)
+ *   comparison  a < b, a <= b, a > b, a >= b, a = b, chained as in 0 < x < 2 (1 when true, 0 when false)
+ *   sum         a + b, a - b
+ *   product     a * b, a / b, or implicit: 2x, 2sin(x), (x+1)(x-1), 3|x|
+ *   unary       -a, +a
+ *   power       a ^ b (right associative, `**` also accepted)
+ *   atom        number, argument, pi / π, e, slider name, f(args), f x, (expr), |expr|
+ * Functions: see FUNCTIONS below, plus if(condition, then, else).
+ */
+
+export class ExpressionError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+export interface CompiledExpression {
+    evaluate: (x: number, scope?: Record<string, number>) => number;
+    variables: string[]; // Names other than the argument the expression reads (slider names)
+}
+
+type Node = (x: number, scope: Record<string, number>) => number;
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+    sin: { arity: [1, 1], fn: Math.sin },
+    cos: { arity: [1, 1], fn: Math.cos },
+    tan: { arity: [1, 1], fn: Math.tan },
+    cot: { arity: [1, 1], fn: v => 1 / Math.tan(v) },
+    sec: { arity: [1, 1], fn: v => 1 / Math.cos(v) },
+    csc: { arity: [1, 1], fn: v => 1 / Math.sin(v) },
+    asin: { arity: [1, 1], fn: Math.asin },
+    acos: { arity: [1, 1], fn: Math.acos },
+    atan: { arity: [1, 1], fn: Math.atan },
+    arcsin: { arity: [1, 1], fn: Math.asin },
+    arccos: { arity: [1, 1], fn: Math.acos },
+    arctan: { arity: [1, 1], fn: Math.atan },
+    sinh: { arity: [1, 1], fn: Math.sinh },
+    cosh: { arity: [1, 1], fn: Math.cosh },
+    tanh: { arity: [1, 1], fn: Math.tanh },
+    sqrt: { arity: [1, 1], fn: Math.sqrt },
+    cbrt: { arity: [1, 1], fn: Math.cbrt },
+    root: { arity: [2, 2], fn: (v, n) => (v < 0 && Math.abs(n % 2) === 1) ? -Math.pow(-v, 1 / n) : Math.pow(v, 1 / n) },
+    abs: { arity: [1, 1], fn: Math.abs },
+    exp: { arity: [1, 1], fn: Math.exp },
+    ln: { arity: [1, 1], fn: Math.log },
+    // log(x) is base 10, log(b, x) is base b
+    log: { arity: [1, 2], fn: (a, b) => b === undefined ? Math.log10(a) : Math.log(b) / Math.log(a) },
+    lg: { arity: [1, 1], fn: Math.log10 },
+    floor: { arity: [1, 1], fn: Math.floor },
+    ceil: { arity: [1, 1], fn: Math.ceil },
+    round: { arity: [1, 1], fn: Math.round },
+    sign: { arity: [1, 1], fn: Math.sign },
+    min: { arity: [1, Infinity], fn: Math.min },
+    max: { arity: [1, Infinity], fn: Math.max }
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+// Deepest nesting of brackets, bars, signs, powers and function calls the parser accepts; far beyond
+// anything typed by hand, and well inside the call stack
+const MAX_NESTING = 200;
+
+type TokenType = 'number' | 'name' | 'op' | 'end';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    pos: number;
+}
+
+// Internal Helper: Replaces typographic symbols with their ASCII operators
+const normalize = (text: string) =>
+    text.replace(/[−–]/g, '-').replace(/[×·]/g, '*').replace(/÷/g, '/').replace(/≤/g, '<=').replace(/≥/g, '>=');
+
+// Internal Helper: Splits the (normalised) text into numbers, names and operators
+const tokenize = (text: string): Token[] => {
+    const source = normalize(text);
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const ch = source[i];
+        if (/\s/.test(ch)) { i++; continue; }
+        const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+        if (number) {
+            tokens.push({ type: 'number', value: number[0], pos: i });
+            i += number[0].length;
+            continue;
+        }
+        const name = /^[A-Za-z_πθ][A-Za-z0-9_]*/.exec(source.slice(i));
+        if (name) {
+            tokens.push({ type: 'name', value: name[0], pos: i });
+            i += name[0].length;
+            continue;
+        }
+        const op = ['**', '<=', '>=', '+', '-', '*', '/', '^', '(', ')', ',', ';', '{', '}', '|', '<', '>', '='].find(o => source.startsWith(o, i));
+        if (!op) throw new ExpressionError(`Unexpected "${ch}"`, i);
+        tokens.push({ type: 'op', value: op === '**' ? '^' : op, pos: i });
+        i += op.length;
+    }
+    tokens.push({ type: 'end', value: '', pos: source.length });
+    return tokens;
+};
+
+// Internal Helper: Splits a run such as `ax`, `xsin` or `sin2x` into known names and numbers (longest name first)
+const splitName = (name: string, known: string[]): { type: 'name' | 'number'; value: string }[] | null => {
+    if (name === '') return [];
+    const digits = /^\d+/.exec(name);
+    if (digits) {
+        const rest = splitName(name.slice(digits[0].length), known);
+        return rest ? [{ type: 'number', value: digits[0] }, ...rest] : null;
+    }
+    const candidates = known.filter(k => name.startsWith(k)).sort((a, b) => b.length - a.length);
+    for (const head of candidates) {
+        const rest = splitName(name.slice(head.length), known);
+        if (rest) return [{ type: 'name', value: head }, ...rest];
+    }
+    return null;
+};
+
+// Internal Helper: Rewrites names made of several known ones (`ax`, `sin2x`) into separate tokens
+const expandNames = (tokens: Token[], names: string[], argument: string): Token[] => {
+    const known = [argument, 'if', ...names, ...Object.keys(CONSTANTS), ...Object.keys(FUNCTIONS)].filter(Boolean);
+    return tokens.flatMap(t => {
+        if (t.type !== 'name' || known.includes(t.value)) return [t];
+        const parts = splitName(t.value, known);
+        if (!parts) throw new ExpressionError(`Unknown name "${t.value}"`, t.pos);
+        let offset = 0;
+        return parts.map(part => {
+            const token: Token = { ...part, pos: t.pos + offset };
+            offset += part.value.length;
+            return token;
+        });
+    });
+};
+
+/**
+ * Compiles an expression in `argument` (x by default). `names` are the extra variables it may use
+ * (slider names); they take precedence over the built-in constants. Throws an ExpressionError
+ * pointing at the offending position.
+ */
+export const compileExpression = (text: string, names: string[] = [], argument: string = 'x'): CompiledExpression => {
+    if (!text.trim()) throw new ExpressionError('Expression is empty', 0);
+    const tokens = expandNames(tokenize(text), names, argument);
+    const variables = new Set<string>();
+    let index = 0;
+    let absDepth = 0;
+    let nesting = 0;
+
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+    const isOp = (value: string) => peek().type === 'op' && peek().value === value;
+    const expect = (value: string) => {
+        if (!isOp(value)) throw new ExpressionError(peek().type === 'end' ? `Missing "${value}"` : `Expected "${value}"`, peek().pos);
+        next();
+    };
+
+    // Every level of nesting passes through parseUnary or parsePower, which go through here
+    const nested = (parse: () => Node): Node => {
+        if (++nesting > MAX_NESTING) throw new ExpressionError('Expression is nested too deeply', peek().pos);
+        const node = parse();
+        nesting--;
+        return node;
+    };
+
+    const parsePiecewise = (): Node => {
+        const pieces: { value: Node; condition?: Node }[] = [];
+        while (true) {
+            const value = parseComparison();
+            if (!isOp(',')) { pieces.push({ value }); break; }
+            next();
+            pieces.push({ value, condition: parseComparison() });
+            if (!isOp(';')) break;
+            next();
+        }
+        expect('}');
+        return (x, scope) => {
+            for (const piece of pieces) {
+                if (!piece.condition) return piece.value(x, scope);
+                const c = piece.condition(x, scope);
+                if (c && !isNaN(c)) return piece.value(x, scope);
+            }
+            return NaN;
+        };
+    };
+
+    const parseComparison = (): Node => {
+        const operands = [parseSum()];
+        const ops: string[] = [];
+        while (['<', '<=', '>', '>=', '='].some(isOp)) {
+            ops.push(next().value);
+            operands.push(parseSum());
+        }
+        if (ops.length === 0) return operands[0];
+        const compare = (op: string, a: number, b: number) =>
+            op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : op === '>=' ? a >= b : Math.abs(a - b) < 1e-9;
+        return (x, scope) => {
+            const values = operands.map(n => n(x, scope));
+            return ops.every((op, i) => compare(op, values[i], values[i + 1])) ? 1 : 0;
+        };
+    };
+
+    const parseSum = (): Node => {
+        let left = parseProduct();
+        while (isOp('+') || isOp('-')) {
+            const op = next().value;
+            const l = left, r = parseProduct();
+            left = op === '+' ? (x, s) => l(x, s) + r(x, s) : (x, s) => l(x, s) - r(x, s);
+        }
+        return left;
+    };
+
+    // Does the next token start a factor that multiplies the previous one without a `*`?
+    const startsImplicitFactor = () => {
+        const t = peek();
+        if (t.type === 'number' || t.type === 'name') return true;
+        // A bar closes the innermost |...| unless none is open
+        return t.type === 'op' && (t.value === '(' || t.value === '{' || (t.value === '|' && absDepth === 0));
+    };
+
+    const parseProduct = (): Node => {
+        let left = parseUnary();
+        while (true) {
+            if (isOp('*') || isOp('/')) {
+                const op = next().value;
+                const l = left, r = parseUnary();
+                left = op === '*' ? (x, s) => l(x, s) * r(x, s) : (x, s) => l(x, s) / r(x, s);
+            } else if (startsImplicitFactor()) {
+                const l = left, r = parsePower();
+                left = (x, s) => l(x, s) * r(x, s);
+            } else {
+                return left;
+            }
+        }
+    };
+
+    const parseUnary = (): Node => nested(() => {
+        if (isOp('-')) { next(); const operand = parseUnary(); return (x, s) => -operand(x, s); }
+        if (isOp('+')) { next(); return parseUnary(); }
+        return parsePower();
+    });
+
+    const parsePower = (): Node => nested(() => {
+        const base = parseAtom();
+        if (!isOp('^')) return base;
+        next();
+        const exponent = parseUnary();
+        return (x, s) => Math.pow(base(x, s), exponent(x, s));
+    });
+
+    const parseArguments = (): Node[] => {
+        expect('(');
+        const args = [parseComparison()];
+        while (isOp(',')) { next(); args.push(parseComparison()); }
+        expect(')');
+        return args;
+    };
+
+    const parseFunction = (name: string, pos: number): Node => {
+        if (name === 'if') {
+            const args = parseArguments();
+            if (args.length < 2 || args.length > 3) throw new ExpressionError('if needs a condition, a value and optionally an else value', pos);
+            const [condition, then, otherwise] = args;
+            return (x, s) => {
+                const c = condition(x, s);
+                return (c && !isNaN(c)) ? then(x, s) : (otherwise ? otherwise(x, s) : NaN);
+            };
+        }
+        const { arity, fn } = FUNCTIONS[name];
+        // Without parentheses the function applies to the next factor: sin x, 2sinx
+        const args = isOp('(') ? parseArguments() : [parsePower()];
+        if (args.length < arity[0] || args.length > arity[1]) throw new ExpressionError(`Wrong number of arguments for ${name}`, pos);
+        return (x, s) => fn(...args.map(a => a(x, s)));
+    };
+
+    const parseAtom = (): Node => {
+        const t = next();
+        if (t.type === 'number') {
+            const value = parseFloat(t.value);
+            return () => value;
+        }
+        if (t.type === 'name') {
+            if (t.value === argument) return x => x;
+            if (names.includes(t.value)) {
+                variables.add(t.value);
+                const name = t.value;
+                return (_, scope) => scope[name] ?? NaN;
+            }
+            if (t.value in CONSTANTS) {
+                const value = CONSTANTS[t.value];
+                return () => value;
+            }
+            if (t.value === 'if' || t.value in FUNCTIONS) return parseFunction(t.value, t.pos);
+            throw new ExpressionError(`Unknown name "${t.value}"`, t.pos);
+        }
+        if (t.type === 'op' && t.value === '(') {
+            const inner = parseComparison();
+            expect(')');
+            return inner;
+        }
+        if (t.type === 'op' && t.value === '|') {
+            absDepth++;
+            const inner = parseComparison();
+            absDepth--;
+            expect('|');
+            return (x, s) => Math.abs(inner(x, s));
+        }
+        if (t.type === 'op' && t.value === '{') return parsePiecewise();
+        throw new ExpressionError(t.type === 'end' ? 'Expression ends too early' : `Unexpected "${t.value}"`, t.pos);
+    };
+
+    const root = parseComparison();
+    if (peek().type !== 'end') throw new ExpressionError(`Unexpected "${peek().value}"`, peek().pos);
+
+    return {
+        evaluate: (x, scope = {}) => {
+            const value = root(x, scope);
+            return isFinite(value) ? value : NaN;
+        },
+        variables: Array.from(variables)
+    };
+};
+
+export interface CompiledEquation {
+    evaluate: (x: number, y: number, scope?: Record<string, number>) => number;
+    variables: string[]; // Slider names the equation reads
+}
+
+/**
+ * Compiles an equation in x and y such as `x^2/9 + y^2/4 = 1` into F(x, y) = left - right, so that
+ * the curve is where F is zero. Without `=` the whole text is F (`= 0` is implied).
+ */
+export const compileEquation = (text: string, names: string[] = []): CompiledEquation => {
+    const source = normalize(text);
+    const equals = tokenize(text).filter(t => t.type === 'op' && t.value === '=');
+    if (equals.length > 1) throw new ExpressionError('Only one "=" is allowed', equals[1].pos);
+    const split = equals.length === 1 ? equals[0].pos : source.length;
+    const known = [...names.filter(n => n !== 'x' && n !== 'y'), 'y'];
+    const compileSide = (side: string, offset: number) => {
+        try {
+            return compileExpression(side, known);
+        } catch (e) {
+            if (e instanceof ExpressionError) throw new ExpressionError(e.message, e.position + offset);
+            throw e;
+        }
+    };
+    const left = compileSide(source.slice(0, split), 0);
+    const right = equals.length === 1 ? compileSide(source.slice(split + 1), split + 1) : null;
+    return {
+        evaluate: (x, y, scope = {}) => {
+            const withY = { ...scope, y };
+            return left.evaluate(x, withY) - (right ? right.evaluate(x, withY) : 0);
+        },
+        variables: Array.from(new Set([...left.variables, ...(right?.variables || [])])).filter(n => n !== 'y')
+    };
+};
+
+export interface InequalityCondition {
+    evaluate: (x: number, y: number, scope?: Record<string, number>) => number; // Holds where negative (or zero, unless strict)
+    strict: boolean;
+    sides: [string, string]; // Texts compared; the boundary is where they are equal
+}
+
+export interface CompiledInequality {
+    conditions: InequalityCondition[]; // One per comparison; `-1 < x < 2` has two
+    variables: string[]; // Slider names the inequality reads
+}
+
+/**
+ * Compiles an inequality in x and y such as `y > 2x + 1`, `y ≤ -x^2 + 4` or `-1 < x < 2`.
+ * Comparisons inside brackets (piecewise conditions) are left to the sides they belong to.
+ */
+export const compileInequality = (text: string, names: string[] = []): CompiledInequality => {
+    const source = normalize(text);
+    let depth = 0;
+    const comparisons = tokenize(text).filter(t => {
+        if (t.type !== 'op') return false;
+        if (t.value === '(' || t.value === '{') depth++;
+        if (t.value === ')' || t.value === '}') depth--;
+        return depth === 0 && ['<', '<=', '>', '>=', '='].includes(t.value);
+    });
+    const equals = comparisons.find(t => t.value === '=');
+    if (equals) throw new ExpressionError('Use <, ≤, > or ≥ (an equation is a curve)', equals.pos);
+    if (comparisons.length === 0) throw new ExpressionError('Missing <, ≤, > or ≥', source.length);
+
+    const known = [...names.filter(n => n !== 'x' && n !== 'y'), 'y'];
+    const starts = [0, ...comparisons.map(t => t.pos + t.value.length)];
+    const ends = [...comparisons.map(t => t.pos), source.length];
+    const sides = starts.map((start, i) => {
+        try {
+            return { text: source.slice(start, ends[i]).trim(), compiled: compileExpression(source.slice(start, ends[i]), known) };
+        } catch (e) {
+            if (e instanceof ExpressionError) throw new ExpressionError(e.message, e.position + start);
+            throw e;
+        }
+    });
+
+    const conditions = comparisons.map((t, i): InequalityCondition => {
+        const left = sides[i].compiled, right = sides[i + 1].compiled;
+        // a > b holds where b - a is negative
+        const sign = t.value.startsWith('<') ? 1 : -1;
+        return {
+            evaluate: (x, y, scope = {}) => {
+                const withY = { ...scope, y };
+                return sign * (left.evaluate(x, withY) - right.evaluate(x, withY));
+            },
+            strict: t.value.length === 1,
+            sides: [sides[i].text, sides[i + 1].text]
+        };
+    });
+    const variables = new Set(sides.flatMap(s => s.compiled.variables));
+    variables.delete('y');
+    return { conditions, variables: Array.from(variables) };
+};
+
+/**
+ * Value of an expression without an argument, such as `2pi` or `sqrt(2)/2`.
+ */
+export const evaluateConstant = (text: string): number => {
+    const value = compileExpression(text, [], '').evaluate(0);
+    if (isNaN(value)) throw new ExpressionError('Not a number', 0);
+    return value;
+};
+
+/**
+ * Rewrites every use of the variable `oldName` as `newName` (used when a slider is renamed).
+ * Text that does not parse is returned unchanged.
+ */
+export const renameExpressionVariable = (text: string, names: string[], oldName: string, newName: string, argument: string = 'x'): string => {
+    let tokens: Token[];
+    try {
+        tokens = expandNames(tokenize(text), names, argument);
+    } catch {
+        return text;
+    }
+    const source = normalize(text);
+    let out = '';
+    let last = 0;
+    tokens.forEach(t => {
+        if (t.type !== 'name' || t.value !== oldName) return;
+        // Spaces keep the new name from fusing with neighbouring letters or digits (`ax` -> `k x`)
+        const before = /[A-Za-z0-9_π]/.test(source[t.pos - 1] || '') ? ' ' : '';
+        const after = /[A-Za-z0-9_π]/.test(source[t.pos + t.value.length] || '') ? ' ' : '';
+        out += source.slice(last, t.pos) + before + newName + after;
+        last = t.pos + t.value.length;
+    });
+    return last === 0 ? text : out + source.slice(last);
+};
@@ -0,0 +1,335 @@
+import { Shape, ShapeType, Point, VertexRef, DimensionConfig, DimensionType } from '../types';
+import { getRotatedCorners } from './mathUtils';
+
+/**
+ * Iterative solver for dimensional constraints (length, angle, parallel, perpendicular, equal length).
+ *
+ * Every referenced vertex is a variable. Each iteration projects the variables onto one constraint
+ * at a time (Gauss-Seidel style), splitting each correction between the vertices that are free to move.
+ * Pinned vertices (the one being dragged) and vertices owned by another constraint never move.
+ * If the projections keep fighting each other the system is over-determined and is reported as such.
+ */
+
+export const DIMENSION_VERTEX_COUNT: Record<DimensionType, number> = {
+    length: 2,
+    angle: 3,
+    parallel: 4,
+    perpendicular: 4,
+    equal_length: 4
+};
+
+export const DIMENSION_SYMBOLS: Record<DimensionType, string> = {
+    length: '',
+    angle: '°',
+    parallel: '∥',
+    perpendicular: '⊥',
+    equal_length: '='
+};
+
+// Shapes whose vertices are stored directly in `points` and can therefore be solved for
+const VERTEX_SHAPES = [ShapeType.POINT, ShapeType.LINE, ShapeType.TRIANGLE, ShapeType.POLYGON];
+
+export const vertexKey = (ref: VertexRef) => `${ref.shapeId}:${ref.pointIndex}`;
+
+/**
+ * A line endpoint glued to a POINT (points_link) is the same variable as that point.
+ */
+export const canonicalVertex = (ref: VertexRef, getShape: (id: string) => Shape | undefined): VertexRef => {
+    const s = getShape(ref.shapeId);
+    if (s?.constraint?.type !== 'points_link') return ref;
+    const pids = s.constraint.parents || (s.constraint.parentId ? [s.constraint.parentId] : []);
+    const pid = pids[ref.pointIndex];
+    return pid && getShape(pid) ? { shapeId: pid, pointIndex: 0 } : ref;
+};
+
+/**
+ * Current visual position of a vertex (rotation applied).
+ */
+export const getVertexPosition = (ref: VertexRef, getShape: (id: string) => Shape | undefined): Point | null => {
+    const s = getShape(ref.shapeId);
+    if (!s || !VERTEX_SHAPES.includes(s.type)) return null;
+    const corners = s.rotation ? getRotatedCorners(s) : s.points;
+    return corners[ref.pointIndex] || null;
+};
+
+// --- Measurements ---
+
+const segmentLength = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Signed angle from (a - v) to (c - v), radians in (-PI, PI]
+const signedAngle = (a: Point, v: Point, c: Point) => {
+    const u = { x: a.x - v.x, y: a.y - v.y };
+    const w = { x: c.x - v.x, y: c.y - v.y };
+    return Math.atan2(u.x * w.y - u.y * w.x, u.x * w.x + u.y * w.y);
+};
+
+// Wraps an angle difference into (-PI/2, PI/2]: direction-free comparison of two lines
+const wrapHalfTurn = (a: number) => {
+    let r = a % Math.PI;
+    if (r > Math.PI / 2) r -= Math.PI;
+    if (r <= -Math.PI / 2) r += Math.PI;
+    return r;
+};
+
+/**
+ * How far a dimension is from being satisfied: pixels for lengths, degrees for directions/angles.
+ */
+export const getDimensionResidual = (dim: DimensionConfig, pts: Point[], pixelsPerUnit: number): number => {
+    const [a, b, c, d] = pts;
+    switch (dim.type) {
+        case 'length':
+            return Math.abs(segmentLength(a, b) - (dim.value || 0) * pixelsPerUnit);
+        case 'angle':
+            return Math.abs(Math.abs(signedAngle(a, b, c)) * 180 / Math.PI - (dim.value || 0));
+        case 'parallel':
+        case 'perpendicular': {
+            const offset = dim.type === 'perpendicular' ? Math.PI / 2 : 0;
+            const diff = Math.atan2(d.y - c.y, d.x - c.x) - Math.atan2(b.y - a.y, b.x - a.x) - offset;
+            return Math.abs(wrapHalfTurn(diff)) * 180 / Math.PI;
+        }
+        case 'equal_length':
+            return Math.abs(segmentLength(a, b) - segmentLength(c, d));
+    }
+};
+
+// --- Projections (mutate the variable positions in place) ---
+
+interface Variable {
+    pos: Point;
+    weight: number; // 0 = fixed, 1 = free
+}
+
+const rotateAbout = (p: Point, pivot: Point, rad: number): Point => {
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    const dx = p.x - pivot.x, dy = p.y - pivot.y;
+    return { x: pivot.x + dx * cos - dy * sin, y: pivot.y + dx * sin + dy * cos };
+};
+
+const projectLength = (a: Variable, b: Variable, target: number) => {
+    const total = a.weight + b.weight;
+    const len = segmentLength(a.pos, b.pos);
+    if (total === 0 || len < 1e-9) return;
+    const ux = (b.pos.x - a.pos.x) / len, uy = (b.pos.y - a.pos.y) / len;
+    const diff = len - target;
+    const sa = (diff * a.weight) / total, sb = (diff * b.weight) / total;
+    a.pos = { x: a.pos.x + ux * sa, y: a.pos.y + uy * sa };
+    b.pos = { x: b.pos.x - ux * sb, y: b.pos.y - uy * sb };
+};
+
+// Rotates a segment by `rad`, about its midpoint or about whichever endpoint is fixed
+const rotateSegment = (a: Variable, b: Variable, rad: number) => {
+    if (a.weight === 0 && b.weight === 0) return;
+    const pivot = a.weight === 0 ? a.pos : b.weight === 0 ? b.pos : { x: (a.pos.x + b.pos.x) / 2, y: (a.pos.y + b.pos.y) / 2 };
+    if (a.weight > 0) a.pos = rotateAbout(a.pos, pivot, rad);
+    if (b.weight > 0) b.pos = rotateAbout(b.pos, pivot, rad);
+};
+
+const segmentWeight = (a: Variable, b: Variable) => (a.weight > 0 || b.weight > 0 ? 1 : 0);
+
+const projectDimension = (dim: DimensionConfig, v: Variable[], pixelsPerUnit: number) => {
+    const [a, b, c, d] = v;
+    switch (dim.type) {
+        case 'length':
+            projectLength(a, b, (dim.value || 0) * pixelsPerUnit);
+            return;
+        case 'angle': {
+            // Open or close the arms around the vertex, keeping the current orientation
+            const current = signedAngle(a.pos, b.pos, c.pos);
+            const target = (current < 0 ? -1 : 1) * ((dim.value || 0) * Math.PI / 180);
+            const total = a.weight + c.weight;
+            if (total === 0) return;
+            const delta = target - current;
+            if (a.weight > 0) a.pos = rotateAbout(a.pos, b.pos, (-delta * a.weight) / total);
+            if (c.weight > 0) c.pos = rotateAbout(c.pos, b.pos, (delta * c.weight) / total);
+            return;
+        }
+        case 'parallel':
+        case 'perpendicular': {
+            const offset = dim.type === 'perpendicular' ? Math.PI / 2 : 0;
+            const diff = wrapHalfTurn(Math.atan2(d.pos.y - c.pos.y, d.pos.x - c.pos.x) - Math.atan2(b.pos.y - a.pos.y, b.pos.x - a.pos.x) - offset);
+            const w1 = segmentWeight(a, b), w2 = segmentWeight(c, d);
+            if (w1 + w2 === 0) return;
+            rotateSegment(a, b, (diff * w1) / (w1 + w2));
+            rotateSegment(c, d, (-diff * w2) / (w1 + w2));
+            return;
+        }
+        case 'equal_length': {
+            // Meet in the middle, unless one segment cannot change
+            const w1 = a.weight + b.weight, w2 = c.weight + d.weight;
+            if (w1 + w2 === 0) return;
+            const target = (w1 * segmentLength(c.pos, d.pos) + w2 * segmentLength(a.pos, b.pos)) / (w1 + w2);
+            projectLength(a, b, target);
+            projectLength(c, d, target);
+            return;
+        }
+    }
+};
+
+export interface DimensionSolveResult {
+    shapes: Shape[];
+    changedIds: string[]; // Shapes whose vertices were moved by the solver
+    converged: boolean;
+    failing: string[]; // Dimension shapes that could not be satisfied
+}
+
+/**
+ * Moves free vertices until every dimension shape is satisfied (or gives up).
+ * `pinned` vertices keep their position, e.g. the vertex the user is dragging.
+ */
+export const solveDimensions = (
+    shapes: Shape[],
+    pinned: VertexRef[],
+    pixelsPerUnit: number,
+    maxIterations: number = 200,
+    tolerance: number = 0.05
+): DimensionSolveResult => {
+    const dims = shapes.filter(s => s.type === ShapeType.DIMENSION && s.dimension);
+    if (dims.length === 0) return { shapes, changedIds: [], converged: true, failing: [] };
+
+    const byId = new Map(shapes.map(s => [s.id, s]));
+    const getShape = (id: string) => byId.get(id);
+    const pinnedKeys = new Set(pinned.map(ref => vertexKey(canonicalVertex(ref, getShape))));
+
+    // 1. Collect variables (shared between dimensions through their canonical vertex)
+    const vars = new Map<string, Variable & { ref: VertexRef }>();
+    const bound: { shape: Shape; keys: string[] }[] = [];
+    dims.forEach(dimShape => {
+        const dim = dimShape.dimension!;
+        if (dim.vertices.length < DIMENSION_VERTEX_COUNT[dim.type]) return;
+        const keys: string[] = [];
+        for (const raw of dim.vertices) {
+            const ref = canonicalVertex(raw, getShape);
+            const key = vertexKey(ref);
+            if (!vars.has(key)) {
+                const pos = getVertexPosition(ref, getShape);
+                if (!pos) return; // Target deleted or unsupported: ignore this dimension
+                const owner = getShape(ref.shapeId)!;
+                // Vertices computed by another constraint belong to that constraint
+                const isDerived = !!owner.constraint && owner.constraint.type !== 'points_link';
+                vars.set(key, { ref, pos: { x: pos.x, y: pos.y }, weight: pinnedKeys.has(key) || isDerived ? 0 : 1 });
+            }
+            keys.push(key);
+        }
+        bound.push({ shape: dimShape, keys });
+    });
+
+    const residualOf = (b: { shape: Shape; keys: string[] }) =>
+        getDimensionResidual(b.shape.dimension!, b.keys.map(k => vars.get(k)!.pos), pixelsPerUnit);
+
+    // 2. Iterate projections
+    let converged = false;
+    for (let it = 0; it < maxIterations; it++) {
+        if (bound.every(b => residualOf(b) < tolerance)) { converged = true; break; }
+        bound.forEach(b => projectDimension(b.shape.dimension!, b.keys.map(k => vars.get(k)!), pixelsPerUnit));
+    }
+    if (!converged) converged = bound.every(b => residualOf(b) < tolerance);
+    const failing = bound.filter(b => residualOf(b) >= tolerance).map(b => b.shape.id);
+
+    // 3. Write moved vertices back (rotated polygons get their rotation baked into the points)
+    const changed = new Set<string>();
+    vars.forEach(v => {
+        if (v.weight === 0) return;
+        const shape = byId.get(v.ref.shapeId)!;
+        const current = getVertexPosition(v.ref, getShape)!;
+        if (Math.abs(current.x - v.pos.x) < 1e-6 && Math.abs(current.y - v.pos.y) < 1e-6) return;
+        const base = shape.rotation && shape.type !== ShapeType.POINT ? getRotatedCorners(shape) : shape.points;
+        const points = base.map((p, i) => i === v.ref.pointIndex ? { ...p, x: v.pos.x, y: v.pos.y } : p);
+        byId.set(shape.id, { ...shape, points, rotation: shape.type === ShapeType.POINT ? shape.rotation : 0 });
+        changed.add(shape.id);
+    });
+
+    // 4. Record satisfaction on the dimension shapes for rendering
+    const failingSet = new Set(failing);
+    bound.forEach(b => {
+        const satisfied = !failingSet.has(b.shape.id);
+        if (b.shape.dimension!.satisfied !== satisfied) {
+            byId.set(b.shape.id, { ...b.shape, dimension: { ...b.shape.dimension!, satisfied } });
+        }
+    });
+
+    return {
+        shapes: shapes.map(s => byId.get(s.id) || s),
+        changedIds: Array.from(changed),
+        converged,
+        failing
+    };
+};
+
+/**
+ * Label positions for a dimension: next to its segment(s), or inside its angle.
+ */
+export const getDimensionAnchors = (dim: DimensionConfig, getShape: (id: string) => Shape | undefined): Point[] | null => {
+    const pts = dim.vertices.map(ref => getVertexPosition(canonicalVertex(ref, getShape), getShape));
+    if (pts.length < DIMENSION_VERTEX_COUNT[dim.type] || pts.some(p => !p)) return null;
+    const [a, b, c, d] = pts as Point[];
+
+    const besideSegment = (p: Point, q: Point): Point => {
+        const len = segmentLength(p, q) || 1;
+        // Offset along the normal so the label does not sit on the stroke
+        return { x: (p.x + q.x) / 2 - ((q.y - p.y) / len) * 14, y: (p.y + q.y) / 2 + ((q.x - p.x) / len) * 14 };
+    };
+
+    if (dim.type === 'angle') {
+        const u = { x: a.x - b.x, y: a.y - b.y }, w = { x: c.x - b.x, y: c.y - b.y };
+        const lu = Math.hypot(u.x, u.y) || 1, lw = Math.hypot(w.x, w.y) || 1;
+        const bis = { x: u.x / lu + w.x / lw, y: u.y / lu + w.y / lw };
+        const lb = Math.hypot(bis.x, bis.y) || 1;
+        return [{ x: b.x + (bis.x / lb) * 32, y: b.y + (bis.y / lb) * 32 }];
+    }
+    if (dim.type === 'length') return [besideSegment(a, b)];
+    return [besideSegment(a, b), besideSegment(c, d)];
+};
+
+/**
+ * Text shown at each anchor of a dimension.
+ */
+export const getDimensionLabel = (dim: DimensionConfig): string => {
+    if (dim.type === 'length') return `${Math.round((dim.value || 0) * 100) / 100}`;
+    if (dim.type === 'angle') return `${Math.round((dim.value || 0) * 10) / 10}°`;
+    return DIMENSION_SYMBOLS[dim.type];
+};
+
+/**
+ * Creates a dimension shape for the given vertices. Its constraint lists the target shapes so
+ * the dependency graph keeps the label anchored to them.
+ */
+export const createDimensionShape = (
+    id: string,
+    type: DimensionType,
+    vertices: VertexRef[],
+    getShape: (id: string) => Shape | undefined,
+    value?: number
+): Shape | null => {
+    const dim: DimensionConfig = { type, vertices, value };
+    const anchors = getDimensionAnchors(dim, getShape);
+    if (!anchors) return null;
+    const parents = Array.from(new Set(vertices.flatMap(ref => [ref.shapeId, canonicalVertex(ref, getShape).shapeId])));
+    return {
+        id,
+        type: ShapeType.DIMENSION,
+        points: anchors,
+        dimension: dim,
+        fill: 'none',
+        stroke: '#dc2626',
+        strokeWidth: 1,
+        rotation: 0,
+        constraint: { type: 'dimension', parents }
+    };
+};
+
+/**
+ * Current measurement of a set of vertices in the dimension's own units (grid units / degrees).
+ */
+export const measureDimension = (
+    type: DimensionType,
+    vertices: VertexRef[],
+    getShape: (id: string) => Shape | undefined,
+    pixelsPerUnit: number
+): number | null => {
+    const pts = vertices.map(ref => getVertexPosition(canonicalVertex(ref, getShape), getShape));
+    if (pts.some(p => !p)) return null;
+    const [a, b, c] = pts as Point[];
+    if (type === 'length') return segmentLength(a, b) / pixelsPerUnit;
+    if (type === 'angle') return Math.abs(signedAngle(a, b, c)) * 180 / Math.PI;
+    return null;
+};
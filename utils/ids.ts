@@ -0,0 +1,4 @@
+/**
+ * Short random id for a new shape.
+ */
+export const generateId = () => Math.random().toString(36).slice(2, 11);
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createKeyPoints, findKeyPoints, toFraction } from './keyPoints';
+import { createTestShape } from './testShapes';
+
+describe('Key Points', () => {
+    // y = x^2 - 2x - 3 and y = x + 1 on a 1000x1000 canvas, 20px per unit
+    const parabola = createTestShape('f', { functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: -2, c: -3 } });
+    const line = createTestShape('g', { functionType: 'linear', formulaParams: { k: 1, b: 1 } });
+
+    it('should place labelled roots, intercept, vertex and intersections of a graph', () => {
+        let ids = 0;
+        const points = createKeyPoints(parabola, [parabola, line], 1000, 1000, 20, undefined, () => `k${ids++}`);
+        // The crossing at (−1, 0) is already the first root
+        expect(points.map(p => p.labels![0])).toEqual(['(−1, 0)', '(3, 0)', '(0, −3)', '(1, −4)', '(4, 5)']);
+        expect(points[3].points[0]).toEqual({ x: 520, y: 580 });
+        expect(points[3].constraint).toEqual({ type: 'key_point', parentId: 'f', keyPoint: { kind: 'vertex', index: 0 } });
+    });
+
+    it('should not add key points that are already there', () => {
+        let ids = 0;
+        const points = createKeyPoints(parabola, [parabola, line], 1000, 1000, 20, undefined, () => `k${ids++}`);
+        expect(createKeyPoints(parabola, [parabola, line, ...points], 1000, 1000, 20, undefined, () => 'again')).toHaveLength(0);
+    });
+
+    it('should write irrational roots of quadratics exactly', () => {
+        const irrational = { ...parabola, formulaParams: { a: 1, b: -2, c: -2 } };
+        expect(findKeyPoints('root', irrational, undefined, 1000, 20).map(p => p.label)).toEqual(['(1 − √3, 0)', '(1 + √3, 0)']);
+    });
+
+    it('should search other graphs numerically', () => {
+        const expression = createTestShape('e', { functionType: 'expression', expression: 'x^2 - 2', expressionScope: {} });
+        const numeric = createKeyPoints(expression, [expression], 1000, 1000, 20, undefined, () => 'n');
+        expect(numeric.map(p => p.labels![0])).toEqual(['(−1.41, 0)', '(1.41, 0)', '(0, −2)']);
+    });
+
+    it('should find the simplest fraction within the denominator limit', () => {
+        expect(toFraction(0.75)).toEqual({ n: 3, d: 4 });
+        expect(toFraction(1 / 3, 12)).toEqual({ n: 1, d: 3 });
+        expect(toFraction(Math.PI, 12)).toBeNull();
+    });
+
+    it('should find no key points on inverse proportional graphs', () => {
+        const hyperbola = createTestShape('h', { functionType: 'inverse', formulaParams: { k: 2 } });
+        expect(createKeyPoints(hyperbola, [hyperbola], 1000, 1000, 20, undefined, () => 'x')).toEqual([]);
+    });
+});
@@ -0,0 +1,302 @@
+import { Shape, ShapeType, Point, Constraint, KeyPointKind, PixelsPerUnit } from '../types';
+import { evaluateFunctionGraph, isPlottableGraph, mathToScreen, distance, getVisibleXRange } from './mathUtils';
+
+/**
+ * Key points of function graphs: x-intercepts, the y-intercept, the vertex (turning points of other
+ * graphs) and the intersections with another graph. A key point is a POINT whose constraint names its
+ * graph(s), the kind and which one it is counted by increasing x, so the solver moves it (and rewrites
+ * its coordinate label) whenever the coefficients change.
+ * Linear and quadratic graphs are solved exactly, so labels read like (−1, 0) or (1 + √3, 0); other
+ * graphs are searched numerically over the visible x range.
+ */
+
+export interface KeyPoint extends Point {
+    label: string; // Coordinates, e.g. "(−1, 0)"
+}
+
+export const KEY_POINT_KINDS: KeyPointKind[] = ['root', 'y_intercept', 'vertex'];
+
+// --- Exact arithmetic: numbers a + b√m with rational a and b ---
+
+export interface Fraction { n: number; d: number }
+interface Surd { a: Fraction; b: Fraction; m: number } // m is square-free (1 when the number is rational)
+
+// Beyond this the products of numerators and denominators lose precision
+const EXACT_LIMIT = 2 ** 50;
+
+const gcd = (a: number, b: number): number => b === 0 ? Math.abs(a) : gcd(b, a % b);
+
+// Internal Helper: Reduced fraction with a positive denominator; throws a RangeError when the terms get too large
+const frac = (n: number, d: number = 1): Fraction => {
+    if (Math.abs(n) > EXACT_LIMIT || Math.abs(d) > EXACT_LIMIT) throw new RangeError('Too large for exact arithmetic');
+    if (n === 0) return { n: 0, d: 1 };
+    const g = gcd(n, d) * Math.sign(d);
+    return { n: n / g, d: d / g };
+};
+
+const add = (f: Fraction, g: Fraction) => frac(f.n * g.d + g.n * f.d, f.d * g.d);
+const sub = (f: Fraction, g: Fraction) => frac(f.n * g.d - g.n * f.d, f.d * g.d);
+const mul = (f: Fraction, g: Fraction) => frac(f.n * g.n, f.d * g.d);
+const div = (f: Fraction, g: Fraction) => frac(f.n * g.d, f.d * g.n);
+const ZERO = { n: 0, d: 1 };
+
+/**
+ * The fraction equal to `v` (up to rounding) with the smallest denominator up to `maxDen`, or null.
+ */
+export const toFraction = (v: number, maxDen: number = 1000): Fraction | null => {
+    if (!isFinite(v)) return null;
+    // Continued fraction convergents
+    let h0 = 1, h1 = 0, k0 = 0, k1 = 1, x = v;
+    for (let i = 0; i < 20; i++) {
+        const a = Math.floor(x);
+        [h0, h1] = [a * h0 + h1, h0];
+        [k0, k1] = [a * k0 + k1, k0];
+        if (k0 > maxDen) return null;
+        if (Math.abs(h0 / k0 - v) <= 1e-9 * Math.max(1, Math.abs(v))) return frac(h0, k0);
+        if (x - a < 1e-12) return null;
+        x = 1 / (x - a);
+    }
+    return null;
+};
+
+const surdValue = (s: Surd) => s.a.n / s.a.d + (s.b.n / s.b.d) * Math.sqrt(s.m);
+const rational = (a: Fraction): Surd => ({ a, b: ZERO, m: 1 });
+
+const formatFraction = (f: Fraction) => `${f.n < 0 ? '−' : ''}${Math.abs(f.n)}${f.d === 1 ? '' : `/${f.d}`}`;
+
+// Internal Helper: `3`, `−1/2`, `1 + √3`, `(−1 + √5)/2`, `2√2`
+const formatSurd = (s: Surd): string => {
+    if (s.b.n === 0) return formatFraction(s.a);
+    const l = s.a.d * s.b.d / gcd(s.a.d, s.b.d);
+    const a = s.a.n * (l / s.a.d), b = s.b.n * (l / s.b.d);
+    const radical = `${Math.abs(b) === 1 ? '' : Math.abs(b)}√${s.m}`;
+    const body = a === 0 ? `${b < 0 ? '−' : ''}${radical}` : `${a < 0 ? '−' : ''}${Math.abs(a)} ${b < 0 ? '−' : '+'} ${radical}`;
+    if (l === 1) return body;
+    return a === 0 ? `${body}/${l}` : `(${body})/${l}`;
+};
+
+// Internal Helper: Decimals that are not simple fractions are rounded to two places
+const formatNumber = (v: number): string => {
+    const f = toFraction(v, 12);
+    if (f) return formatFraction(f);
+    const rounded = Math.round(Math.abs(v) * 100) / 100;
+    return `${v < 0 && rounded !== 0 ? '−' : ''}${rounded}`;
+};
+
+// Internal Helper: Coefficients [c, b, a] of a linear or quadratic graph, or null for other graphs
+// (or coefficients that are not simple fractions)
+const graphPolynomial = (graph: Shape): Fraction[] | null => {
+    if (!isPlottableGraph(graph) || graph.functionType === 'expression' || graph.functionType === 'inverse') return null;
+    const p = graph.formulaParams!;
+    // Same defaults as evaluateQuadratic
+    const coeffs = graph.functionType === 'linear'
+        ? [toFraction(p.b ?? 0), toFraction(p.k ?? 1), ZERO]
+        : graph.functionForm === 'vertex'
+            ? [toFraction(p.a ?? 1), toFraction(p.h || 0), toFraction(p.k || 0)]
+            : [toFraction(p.c || 0), toFraction(p.b || 0), toFraction(p.a ?? 1)];
+    if (coeffs.some(c => !c)) return null;
+    if (graph.functionType !== 'linear' && graph.functionForm === 'vertex') {
+        // a(x - h)^2 + k = ax^2 - 2ahx + ah^2 + k
+        const [a, h, k] = coeffs as Fraction[];
+        return [add(mul(a, mul(h, h)), k), mul(frac(-2), mul(a, h)), a];
+    }
+    return coeffs as Fraction[];
+};
+
+// Internal Helper: Value of the polynomial [c, b, a] at r + s√m
+const polynomialAt = ([c, b, a]: Fraction[], x: Surd): Surd => {
+    const { a: r, b: s, m } = x;
+    return {
+        a: add(add(mul(a, add(mul(r, r), mul(frac(m), mul(s, s)))), mul(b, r)), c),
+        b: mul(add(mul(frac(2), mul(a, r)), b), s),
+        m
+    };
+};
+
+// Internal Helper: k and square-free m with n = k²m
+const extractSquare = (n: number): { k: number; m: number } => {
+    if (n > 1e12) throw new RangeError('Too large for exact arithmetic');
+    for (let i = Math.floor(Math.sqrt(n)); i > 1; i--) {
+        if (n % (i * i) === 0) return { k: i, m: n / (i * i) };
+    }
+    return { k: 1, m: n };
+};
+
+// Internal Helper: Real roots of the polynomial [c, b, a] in increasing order (none if it is constant)
+const polynomialRoots = ([c, b, a]: Fraction[]): Surd[] => {
+    if (a.n === 0) return b.n === 0 ? [] : [rational(frac(-c.n * b.d, c.d * b.n))];
+    const p = div(frac(-b.n, b.d), mul(frac(2), a));
+    // (x - p)^2 = (b² - 4ac) / 4a²
+    const q = div(sub(mul(b, b), mul(frac(4), mul(a, c))), mul(frac(4), mul(a, a)));
+    if (q.n < 0) return [];
+    if (q.n === 0) return [rational(p)];
+    const { k, m } = extractSquare(q.n * q.d);
+    const offset = frac(k, q.d);
+    if (m === 1) return [rational(sub(p, offset)), rational(add(p, offset))];
+    return [{ a: p, b: frac(-offset.n, offset.d), m }, { a: p, b: offset, m }];
+};
+
+// Internal Helper: Key points of polynomial graphs in exact form
+const exactKeyPoints = (kind: KeyPointKind, poly: Fraction[], other: Fraction[] | null): KeyPoint[] => {
+    const at = (x: Surd, y: Surd): KeyPoint => ({ x: surdValue(x), y: surdValue(y), label: `(${formatSurd(x)}, ${formatSurd(y)})` });
+    const [c, b, a] = poly;
+    if (kind === 'root') return polynomialRoots(poly).map(x => at(x, rational(ZERO)));
+    if (kind === 'y_intercept') return [at(rational(ZERO), rational(c))];
+    if (kind === 'vertex') {
+        if (a.n === 0) return [];
+        const x = rational(div(frac(-b.n, b.d), mul(frac(2), a)));
+        return [at(x, polynomialAt(poly, x))];
+    }
+    if (!other) return [];
+    const difference = poly.map((coeff, i) => sub(coeff, other[i]));
+    return polynomialRoots(difference).map(x => at(x, polynomialAt(poly, x)));
+};
+
+// --- Numeric search for other graphs ---
+
+const SEARCH_STEPS = 600;
+
+// Internal Helper: Zeros of f between `from` and `to`, refined by bisection (a sign change across a pole is not one)
+const numericRoots = (f: (x: number) => number, from: number, to: number): number[] => {
+    const roots: number[] = [];
+    const dx = (to - from) / SEARCH_STEPS;
+    let xa = from, fa = f(from);
+    for (let i = 1; i <= SEARCH_STEPS; i++) {
+        const xb = from + i * dx, fb = f(xb);
+        if (fa === 0) {
+            roots.push(xa);
+        } else if (!isNaN(fa) && !isNaN(fb) && fb !== 0 && (fa > 0) !== (fb > 0)) {
+            let lo = xa, hi = xb;
+            for (let k = 0; k < 60; k++) {
+                const mid = (lo + hi) / 2;
+                if ((f(mid) > 0) === (fa > 0)) lo = mid; else hi = mid;
+            }
+            const root = (lo + hi) / 2;
+            if (Math.abs(f(root)) <= Math.max(Math.abs(fa), Math.abs(fb))) roots.push(root);
+        }
+        xa = xb;
+        fa = fb;
+    }
+    if (fa === 0) roots.push(xa);
+    return roots;
+};
+
+// Internal Helper: Local maxima and minima of f between `from` and `to`, refined by golden-section search
+const numericExtrema = (f: (x: number) => number, from: number, to: number): number[] => {
+    const dx = (to - from) / SEARCH_STEPS;
+    const values = Array.from({ length: SEARCH_STEPS + 1 }, (_, i) => f(from + i * dx));
+    const extrema: number[] = [];
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    for (let i = 1; i < SEARCH_STEPS; i++) {
+        const [v0, v1, v2] = [values[i - 1], values[i], values[i + 1]];
+        if (isNaN(v0) || isNaN(v1) || isNaN(v2) || (v1 - v0) * (v2 - v1) >= 0) continue;
+        // Search for the maximum of f, or of -f for a minimum
+        const sign = v1 > v0 ? 1 : -1;
+        let lo = from + (i - 1) * dx, hi = from + (i + 1) * dx;
+        for (let k = 0; k < 60; k++) {
+            const m1 = hi - ratio * (hi - lo), m2 = lo + ratio * (hi - lo);
+            if (sign * f(m1) < sign * f(m2)) lo = m1; else hi = m2;
+        }
+        extrema.push((lo + hi) / 2);
+    }
+    return extrema;
+};
+
+/**
+ * Key points of one kind on a graph, in order of increasing x (math units). `other` is the second
+ * graph of an intersection; `width` and `ppu` give the visible x range searched for non-polynomials.
+ */
+export const findKeyPoints = (kind: KeyPointKind, graph: Shape, other: Shape | undefined, width: number, ppu: PixelsPerUnit): KeyPoint[] => {
+    if (!isPlottableGraph(graph) || (kind === 'intersection' && (!other || !isPlottableGraph(other)))) return [];
+    const poly = graphPolynomial(graph);
+    const otherPoly = other ? graphPolynomial(other) : null;
+    if (poly && (kind !== 'intersection' || otherPoly)) {
+        try {
+            return exactKeyPoints(kind, poly, otherPoly);
+        } catch (e) {
+            // Coefficients too fine for exact arithmetic are searched for like any other graph
+            if (!(e instanceof RangeError)) throw e;
+        }
+    }
+
+    // A hyperbola y = k/x meets neither axis and has no turning point
+    if (graph.functionType === 'inverse' && kind !== 'intersection') return [];
+    const f = (x: number) => evaluateFunctionGraph(graph, x);
+    const point = (x: number, y: number): KeyPoint => ({ x, y, label: `(${formatNumber(x)}, ${formatNumber(y)})` });
+    const [from, to] = getVisibleXRange(width, ppu);
+    if (kind === 'y_intercept') return isNaN(f(0)) ? [] : [point(0, f(0))];
+    if (kind === 'root') return numericRoots(f, from, to).map(x => point(x, 0));
+    if (kind === 'vertex') return numericExtrema(f, from, to).map(x => point(x, f(x)));
+    return numericRoots(x => f(x) - evaluateFunctionGraph(other!, x), from, to).map(x => point(x, f(x)));
+};
+
+// Internal Helper: Graph ids a key point reads from (the second one only for intersections)
+const keyPointGraphIds = (constraint: Constraint): string[] =>
+    (constraint.parents || [constraint.parentId]).filter((id): id is string => !!id);
+
+/**
+ * Moves a key point to where it now is on its graph(s) and rewrites its coordinate label. A key point
+ * that no longer exists (the roots of a parabola lifted off the x-axis) keeps its place, flagged undefined.
+ */
+export const evaluateKeyPoint = (
+    shape: Shape,
+    getShape: (id: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    const config = shape.constraint?.keyPoint;
+    if (!config) return null;
+    const [graph, other] = keyPointGraphIds(shape.constraint!).map(id => getShape(id));
+    if (!graph || (config.kind === 'intersection' && !other)) return null;
+    const point = findKeyPoints(config.kind, graph, other, canvasWidth, pixelsPerUnit)[config.index];
+    if (!point) return shape.isUndefined ? null : { ...shape, isUndefined: true };
+    return { ...shape, points: [mathToScreen(point, canvasWidth, canvasHeight, pixelsPerUnit, originY)], labels: [point.label], isUndefined: undefined };
+};
+
+// Internal Helper: Do both constraints describe the same key point?
+const isSameKeyPoint = (a: Constraint | undefined, b: Constraint) =>
+    a?.type === 'key_point' && a.keyPoint?.kind === b.keyPoint?.kind && a.keyPoint?.index === b.keyPoint?.index &&
+    keyPointGraphIds(a).join() === keyPointGraphIds(b).join();
+
+/**
+ * Creates the labelled key points of a graph that are on the canvas: its intercepts, its vertex (or turning
+ * points) and its intersections with the other graphs. Key points already shown, or falling on another
+ * point (a root at the origin is also the y-intercept), are skipped.
+ */
+export const createKeyPoints = (
+    graph: Shape,
+    shapes: Shape[],
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY: number | undefined,
+    makeId: () => string
+): Shape[] => {
+    const constraints: Constraint[] = [];
+    KEY_POINT_KINDS.forEach(kind => {
+        findKeyPoints(kind, graph, undefined, canvasWidth, pixelsPerUnit).forEach((_, index) => {
+            constraints.push({ type: 'key_point', parentId: graph.id, keyPoint: { kind, index } });
+        });
+    });
+    shapes.filter(s => s.id !== graph.id && isPlottableGraph(s)).forEach(other => {
+        findKeyPoints('intersection', graph, other, canvasWidth, pixelsPerUnit).forEach((_, index) => {
+            constraints.push({ type: 'key_point', parents: [graph.id, other.id], keyPoint: { kind: 'intersection', index } });
+        });
+    });
+
+    const getShape = (id: string) => shapes.find(s => s.id === id);
+    const created: Shape[] = [];
+    constraints.forEach(constraint => {
+        if (shapes.some(s => isSameKeyPoint(s.constraint, constraint))) return;
+        const base: Shape = { id: makeId(), type: ShapeType.POINT, points: [{ x: 0, y: 0 }], fill: graph.stroke, stroke: graph.stroke, strokeWidth: 2, rotation: 0, constraint };
+        const point = evaluateKeyPoint(base, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+        if (!point || point.isUndefined) return;
+        const p = point.points[0];
+        if (p.x < 0 || p.x > canvasWidth || p.y < 0 || p.y > canvasHeight) return;
+        if ([...shapes, ...created].some(s => s.type === ShapeType.POINT && s.points[0] && distance(s.points[0], p) < 1)) return;
+        created.push(point);
+    });
+    return created;
+};
@@ -0,0 +1,107 @@
+import { Shape, ShapeType } from '../types';
+import { distance } from './mathUtils';
+import { generateId } from './ids';
+
+/**
+ * Locus tracing: a point with `isTracing` leaves a trail (a PATH shape linked back to it through
+ * `traceSourceId`) whenever the constraint solver moves it.
+ */
+
+// Minimum distance in px between two recorded trail samples
+const TRACE_MIN_STEP = 2;
+// Oldest samples are dropped beyond this, so very long animations stay cheap to render
+const TRACE_MAX_POINTS = 5000;
+
+export const findTrail = (shapes: Shape[], sourceId: string): Shape | undefined =>
+    shapes.find(s => s.type === ShapeType.PATH && s.traceSourceId === sourceId);
+
+const createTrail = (source: Shape): Shape => ({
+    id: generateId(),
+    type: ShapeType.PATH,
+    points: [{ x: source.points[0].x, y: source.points[0].y }],
+    fill: 'none',
+    stroke: source.stroke && source.stroke !== 'none' ? source.stroke : '#8b5cf6',
+    strokeWidth: 2,
+    strokeType: 'dotted',
+    rotation: 0,
+    traceSourceId: source.id
+});
+
+/**
+ * Appends the current position of every traced point among `movedIds` to its trail.
+ * Points without a trail yet (e.g. after the trail was deleted) start a new one.
+ */
+export const recordTraces = (shapes: Shape[], movedIds: Iterable<string>): Shape[] => {
+    const traced = new Set<string>();
+    for (const id of movedIds) traced.add(id);
+    const sources = shapes.filter(s => traced.has(s.id) && s.isTracing && !s.isUndefined && s.type === ShapeType.POINT);
+    if (sources.length === 0) return shapes;
+
+    let result = shapes;
+    sources.forEach(source => {
+        const pos = source.points[0];
+        const trail = findTrail(result, source.id);
+        if (!trail) {
+            result = [...result, createTrail(source)];
+            return;
+        }
+        const last = trail.points[trail.points.length - 1];
+        if (last && distance(last, pos) < TRACE_MIN_STEP) return;
+        const points = [...trail.points, { x: pos.x, y: pos.y }];
+        const updated = { ...trail, points: points.length > TRACE_MAX_POINTS ? points.slice(-TRACE_MAX_POINTS) : points };
+        result = result.map(s => s.id === trail.id ? updated : s);
+    });
+    return result;
+};
+
+/**
+ * `shapes` with the trails recorded in `preview`, a moved copy of the same document. Used while a drag
+ * is only previewed, so the trails keep growing without committing the move itself.
+ */
+export const mergeTrails = (shapes: Shape[], preview: Shape[]): Shape[] => {
+    const trails = new Map(preview.filter(s => s.type === ShapeType.PATH && s.traceSourceId).map(s => [s.id, s]));
+    let changed = false;
+    const next = shapes.map(s => {
+        const trail = trails.get(s.id);
+        trails.delete(s.id);
+        if (!trail || trail === s) return s;
+        changed = true;
+        return trail;
+    });
+    if (!changed && trails.size === 0) return shapes;
+    return [...next, ...trails.values()];
+};
+
+/**
+ * Turns tracing on or off for a point. Turning it on starts a trail at the current position.
+ */
+export const setTracing = (shapes: Shape[], pointId: string, enabled: boolean): Shape[] => {
+    const next = shapes.map(s => s.id === pointId ? { ...s, isTracing: enabled || undefined } : s);
+    const point = next.find(s => s.id === pointId);
+    if (!enabled || !point || findTrail(next, pointId)) return next;
+    return [...next, createTrail(point)];
+};
+
+/**
+ * Empties the trail of a point, keeping only its current position.
+ */
+export const clearTrail = (shapes: Shape[], pointId: string): Shape[] => {
+    const point = shapes.find(s => s.id === pointId);
+    const trail = findTrail(shapes, pointId);
+    if (!point || !trail) return shapes;
+    return shapes.map(s => s.id === trail.id ? { ...s, points: [{ x: point.points[0].x, y: point.points[0].y }] } : s);
+};
+
+/**
+ * Detaches the trail from its point so it becomes an ordinary, permanent curve.
+ * Tracing is switched off; turning it on again starts a fresh trail.
+ */
+export const convertTrailToCurve = (shapes: Shape[], pointId: string): Shape[] => {
+    const trail = findTrail(shapes, pointId);
+    if (!trail || trail.points.length < 2) return shapes;
+    return shapes.map(s => {
+        if (s.id === trail.id) return { ...s, traceSourceId: undefined, strokeType: 'solid' as const };
+        if (s.id === pointId) return { ...s, isTracing: undefined };
+        return s;
+    });
+};
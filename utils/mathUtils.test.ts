@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { generateFunctionPath, sampleFunctionPath, generateCurvePath, evaluateCurve, getImplicitContours, isPointInShape, isInRegion, redrawFormulaShape, getGraphHandlePoints, dragGraphHandle, evaluateFunctionGraph, getGraphSlope, intersectSegmentGraph } from './mathUtils';
+import { createTestShape } from './testShapes';
+import { ShapeType } from '../types';
+
+describe('Math Utils', () => {
+    it('should plot expression graphs in pieces split at their asymptotes', () => {
+        const graph = createTestShape('f', { functionType: 'expression', expression: 'a/x', expressionScope: { a: 1 } });
+        expect(generateFunctionPath(graph, 1000, 1000, 20).match(/M/g)!.length).toBeGreaterThan(1);
+    });
+
+    it('should break sampled curves at asymptotes and domain edges and clip them to the page', () => {
+        const parsePath = (d: string) => d.split(/(?=[ML])/).map(cmd => {
+            const [op, x, y] = cmd.trim().split(' ');
+            return { op, x: parseFloat(x), y: parseFloat(y) };
+        });
+
+        // y = 1/x: no stroke runs across x = 0 (screen x = 500)
+        const hyperbola = parsePath(sampleFunctionPath(x => 1 / x, 1000, 1000, 20));
+        hyperbola.forEach((p, i) => {
+            if (i > 0 && p.op === 'L') expect((hyperbola[i - 1].x - 500) * (p.x - 500)).toBeGreaterThanOrEqual(0);
+        });
+
+        // y = sqrt(x - 2) starts right at its domain edge (screen x = 540)
+        const root = parsePath(sampleFunctionPath(x => Math.sqrt(x - 2), 1000, 1000, 20));
+        expect(root[0].op).toBe('M');
+        expect(root[0].x).toBeCloseTo(540, 0);
+
+        // On a tall canvas the graph stays on the page the axes sit on (origin at 700 of a 1400px page)
+        const tall = parsePath(sampleFunctionPath(x => -x * x, 1000, 14000, { x: 20, y: 20, pageHeight: 1400 }, 700));
+        expect(tall.length).toBeGreaterThan(0);
+        tall.forEach(p => { expect(p.y).toBeGreaterThanOrEqual(-20); expect(p.y).toBeLessThanOrEqual(1420); });
+    });
+
+    it('should draw parametric curves from the start of their parameter range', () => {
+        const circle = createTestShape('c', { type: ShapeType.PARAMETRIC_CURVE, curve: { kind: 'parametric', x: 'r cos(t)', y: 'r sin(t)', tMin: 0, tMax: 2 * Math.PI }, expressionScope: { r: 1 } });
+        expect(generateCurvePath(circle, 1000, 1000, 20)).toMatch(/^M 520\.0 500\.0/);
+    });
+
+    it('should evaluate polar curves as (r cos θ, r sin θ), negative r included', () => {
+        // Polar rose r = 2cos(2θ): at θ = π/2, r = -2, i.e. the point (0, -2)
+        const rose = createTestShape('rose', { type: ShapeType.PARAMETRIC_CURVE, curve: { kind: 'polar', r: '2cos(2θ)', tMin: 0, tMax: 2 * Math.PI } });
+        const q = evaluateCurve(rose, Math.PI / 2)!;
+        expect(q.x).toBeCloseTo(0);
+        expect(q.y).toBeCloseTo(-2);
+    });
+
+    it('should trace implicit equations as closed contours and hit-test them', () => {
+        // Ellipse x^2/9 + y^2/4 = 1: one closed contour through (±3, 0) and (0, ±2)
+        const ellipse = createTestShape('e', { type: ShapeType.IMPLICIT_CURVE, equation: 'x^2/9 + y^2/4 = 1', expressionScope: {} });
+        const { polylines, closed } = getImplicitContours(ellipse, 1000, 1000, 20);
+        expect(polylines).toHaveLength(1);
+        expect(closed[0]).toBe(true);
+        expect(isPointInShape({ x: 560, y: 500 }, ellipse, 1000, 1000, 20)).toBe(true);
+        expect(isPointInShape({ x: 530, y: 500 }, ellipse, 1000, 1000, 20)).toBe(false);
+    });
+
+    it('should not trace the pole of an implicit equation as part of the curve', () => {
+        const implicit = (id: string, equation: string) => createTestShape(id, { type: ShapeType.IMPLICIT_CURVE, equation, expressionScope: {} });
+        const hyperbola = getImplicitContours(implicit('h', 'xy = 1'), 1000, 1000, 20).polylines;
+        expect(hyperbola.length).toBe(2);
+        const pole = getImplicitContours(implicit('p', 'y = 1/x'), 1000, 1000, 20).polylines;
+        pole.flat().forEach(p => expect(Math.abs(p.x - 500)).toBeGreaterThan(0.5));
+    });
+
+    it('should shade inequality regions within the axis page, dashing strict boundaries', () => {
+        // y > 2x + 1 and y <= -x^2 + 4 on the first page of a two-page canvas (origin at screen 500, 500)
+        const scale = { x: 20, y: 20, pageHeight: 1000 };
+        const base = createTestShape('r', { type: ShapeType.INEQUALITY_REGION, inequalities: ['y > 2x + 1', 'y ≤ -x^2 + 4'], expressionScope: {} });
+        const region = redrawFormulaShape(base, 1000, 2000, scale, 500);
+        expect(region.boundaryPaths!.map(b => b.strict)).toEqual([true, false]);
+        expect(isInRegion(region, { x: 0, y: 2 })).toBe(true);
+        expect(isInRegion(region, { x: 0, y: 0 })).toBe(false); // Below the line
+        expect(isInRegion(region, { x: 0, y: 5 })).toBe(false); // Above the parabola
+
+        // Only the boundaries are hit, so clicks inside the fill reach the canvas
+        expect(isPointInShape({ x: 500, y: 460 }, region, 1000, 2000, scale, 500)).toBe(false); // (0, 2)
+        expect(isPointInShape({ x: 500, y: 483 }, region, 1000, 2000, scale, 500)).toBe(true); // Near (0, 1) on the line
+        expect(isPointInShape({ x: 500, y: 418 }, region, 1000, 2000, scale, 500)).toBe(true); // Near (0, 4) on the parabola
+
+        // The fill is one piece between x = -3 and x = 1 (where the line meets the parabola), inside the page
+        const coords = region.pathData!.match(/-?\d+(\.\d+)?/g)!.map(Number);
+        const xs = coords.filter((_, i) => i % 2 === 0), ys = coords.filter((_, i) => i % 2 === 1);
+        expect(region.pathData!.match(/Z/g)).toHaveLength(1);
+        expect(Math.min(...xs)).toBeGreaterThanOrEqual(440 - 3);
+        expect(Math.max(...xs)).toBeLessThanOrEqual(520 + 3);
+        expect(Math.max(...ys)).toBeLessThanOrEqual(1000);
+
+        // Without a bound above, the fill stops at the page edge instead of running onto the next page
+        const above = redrawFormulaShape({ ...base, inequalities: ['y >= -10'] }, 1000, 2000, scale, 500);
+        const aboveYs = above.pathData!.match(/-?\d+(\.\d+)?/g)!.map(Number).filter((_, i) => i % 2 === 1);
+        expect(Math.min(...aboveYs)).toBe(0);
+        expect(Math.max(...aboveYs)).toBeCloseTo(700, 0);
+        const below = redrawFormulaShape({ ...base, inequalities: ['y <= 10'] }, 1000, 2000, scale, 500);
+        expect(Math.max(...below.pathData!.match(/-?\d+(\.\d+)?/g)!.map(Number).filter((_, i) => i % 2 === 1))).toBe(1000);
+    });
+
+    it('should rewrite graph coefficients in both forms when a vertex or intercept handle is dragged', () => {
+        const parabola = createTestShape('f', { functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 2, b: 4, c: 1, h: -1, k: -1 } });
+        expect(getGraphHandlePoints(parabola)).toEqual([{ x: -1, y: -1 }]);
+
+        // Dropped near (1, -3): snapped to the grid step, then b and c follow from the vertex
+        const dragged = dragGraphHandle(parabola, 0, { x: 520.6, y: 559.2 }, 1000, 1000, 20);
+        expect(dragged.formulaParams).toEqual({ a: 2, b: -4, c: -1, h: 1, k: -3 });
+        expect(dragged.pathData).toBe(generateFunctionPath(dragged, 1000, 1000, 20));
+        expect(getGraphHandlePoints({ ...dragged, functionForm: 'vertex' })).toEqual([{ x: 1, y: -3 }]);
+
+        // Lines: the intercept handle moves b, the second handle sets the slope through it
+        const line = createTestShape('l', { functionType: 'linear', formulaParams: { k: 1, b: 0 } });
+        expect(getGraphHandlePoints(line)).toEqual([{ x: 0, y: 0 }, { x: 1, y: 1 }]);
+        const lifted = dragGraphHandle(line, 0, { x: 530, y: 480 }, 1000, 1000, 20);
+        expect(lifted.formulaParams).toEqual({ k: 1, b: 1 });
+        expect(dragGraphHandle(lifted, 1, { x: 540, y: 380 }, 1000, 1000, 20).formulaParams).toEqual({ k: 2.5, b: 1 });
+        expect(dragGraphHandle(lifted, 1, { x: 500, y: 380 }, 1000, 1000, 20)).toBe(lifted);
+    });
+
+    it('should evaluate and plot inverse proportional graphs y = k/x', () => {
+        const hyperbola = createTestShape('h', { functionType: 'inverse', formulaParams: { k: 2 } });
+        expect(evaluateFunctionGraph(hyperbola, 4)).toBe(0.5);
+        expect(evaluateFunctionGraph(hyperbola, 0)).toBeNaN();
+        expect(getGraphSlope(hyperbola, 1)).toBe(-2);
+
+        // One piece per branch, never joined across the asymptote
+        const path = generateFunctionPath(hyperbola, 1000, 1000, 20);
+        const pieces = path.split('M').filter(Boolean).map(piece => piece.trim().split(/ L /).map(c => Number(c.split(' ')[0])));
+        expect(pieces).toHaveLength(2);
+        expect(pieces[0].every(x => x < 500)).toBe(true);
+        expect(pieces[1].every(x => x > 500)).toBe(true);
+
+        // A horizontal line only meets the branch it crosses, not the jump at x = 0
+        const crossings = intersectSegmentGraph({ x: 400, y: 480 }, { x: 600, y: 480 }, hyperbola, { width: 1000, height: 1000, ppu: 20 });
+        expect(crossings).toHaveLength(1);
+        expect(crossings[0].x).toBeCloseTo(540);
+    });
+
+    it('should pass an inverse proportional graph through its dragged handle', () => {
+        const hyperbola = createTestShape('h', { functionType: 'inverse', formulaParams: { k: 2 } });
+        expect(getGraphHandlePoints(hyperbola)).toEqual([{ x: 1, y: 2 }]);
+        expect(dragGraphHandle(hyperbola, 0, { x: 540, y: 440 }, 1000, 1000, 20).formulaParams).toEqual({ k: 6 });
+    });
+});
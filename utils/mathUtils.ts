@@ -1,5 +1,6 @@
 
-import { Point, Shape, ShapeType, Constraint } from '../types';
+import { Point, Shape, ShapeType, Constraint, CurveConfig, AxisScale, PixelsPerUnit } from '../types';
+import { compileExpression, compileEquation, compileInequality, CompiledExpression, CompiledEquation, CompiledInequality, InequalityCondition } from './expressionParser';
 
 export interface RecognizedShape {
     type: ShapeType;
@@ -100,22 +101,51 @@ export const getPixelsPerUnit = (width: number, height: number, ticks: number) =
     return Math.min(Math.max(targetPPU, minPPU), Math.max(minPPU, maxPPU));
 };
 
-export const screenToMath = (p: Point, width: number, height: number, ppu: number, originY?: number): Point => {
-    if (ppu <= 0) return { x: 0, y: 0 };
-    const centerX = width / 2;
+/**
+ * Scales of both axes (and the screen x of the origin) from a uniform scale or an AxisScale.
+ */
+export const getAxisScale = (ppu: PixelsPerUnit, width: number): Required<Omit<AxisScale, 'pageHeight'>> =>
+    typeof ppu === 'number'
+        ? { x: ppu, y: ppu, originX: width / 2 }
+        : { x: ppu.x, y: ppu.y, originX: ppu.originX ?? width / 2 };
+
+/**
+ * Pixels per unit of length, for figures measured on the page (lengths, areas, rulers): the x scale.
+ */
+export const getLengthScale = (ppu: PixelsPerUnit): number => typeof ppu === 'number' ? ppu : ppu.x;
+
+/**
+ * x range (math units) from the left to the right edge of the canvas.
+ */
+export const getVisibleXRange = (width: number, ppu: PixelsPerUnit): [number, number] => {
+    if (!isValidScale(ppu)) return [0, 0];
+    const scale = getAxisScale(ppu, width);
+    return [-scale.originX / scale.x, (width - scale.originX) / scale.x];
+};
+
+// Internal Helper: Can the scale map anything (both axes a positive size)?
+const isValidScale = (ppu: PixelsPerUnit): boolean =>
+    typeof ppu === 'number' ? ppu > 0 : ppu.x > 0 && ppu.y > 0;
+
+// Internal Helper: Text identifying a scale in cache keys
+const scaleKey = (ppu: PixelsPerUnit) => typeof ppu === 'number' ? String(ppu) : `${ppu.x},${ppu.y},${ppu.originX},${ppu.pageHeight}`;
+
+export const screenToMath = (p: Point, width: number, height: number, ppu: PixelsPerUnit, originY?: number): Point => {
+    if (!isValidScale(ppu)) return { x: 0, y: 0 };
+    const scale = getAxisScale(ppu, width);
     const centerY = originY ?? (height / 2);
     return {
-        x: (p.x - centerX) / ppu,
-        y: -(p.y - centerY) / ppu 
+        x: (p.x - scale.originX) / scale.x,
+        y: -(p.y - centerY) / scale.y 
     };
 };
 
-export const mathToScreen = (p: Point, width: number, height: number, ppu: number, originY?: number): Point => {
-    const centerX = width / 2;
+export const mathToScreen = (p: Point, width: number, height: number, ppu: PixelsPerUnit, originY?: number): Point => {
+    const scale = getAxisScale(ppu, width);
     const centerY = originY ?? (height / 2);
     return {
-        x: centerX + p.x * ppu,
-        y: centerY - p.y * ppu
+        x: scale.originX + p.x * scale.x,
+        y: centerY - p.y * scale.y
     };
 };
 
@@ -123,9 +153,13 @@ export const evaluateQuadratic = (
     x: number, 
     params: { a?: number; b?: number; c?: number; h?: number; k?: number }, 
     form: 'standard' | 'vertex' = 'standard',
-    type: 'quadratic' | 'linear' = 'quadratic'
+    type: 'quadratic' | 'linear' | 'inverse' = 'quadratic'
 ): number => {
     if (!params) return 0;
+    if (type === 'inverse') {
+        // y = k/x has no value at the asymptote x = 0
+        return x === 0 ? NaN : (params.k ?? 1) / x;
+    }
     if (type === 'linear') {
         const slope = params.k ?? 1;
         const intercept = params.b ?? 0;
@@ -149,52 +183,695 @@ export const generateQuadraticPath = (
     form: 'standard' | 'vertex',
     width: number, 
     height: number, 
-    ppu: number,
-    type: 'quadratic' | 'linear' = 'quadratic',
+    ppu: PixelsPerUnit,
+    type: 'quadratic' | 'linear' | 'inverse' = 'quadratic',
     originY?: number
 ): string => {
-    if (!ppu || ppu <= 0) return "";
+    if (!ppu || !isValidScale(ppu)) return "";
     if (!params) params = { a: 1, b: 0, c: 0, k: 1 };
 
-    const centerY = originY ?? (height / 2);
-
     if (type === 'linear') {
         const minScreenX = -50;
         const maxScreenX = width + 50;
-        const mx1 = (minScreenX - (width / 2)) / ppu;
-        const my1 = evaluateQuadratic(mx1, params, form, 'linear');
-        const sy1 = centerY - my1 * ppu;
-        const mx2 = (maxScreenX - (width / 2)) / ppu;
-        const my2 = evaluateQuadratic(mx2, params, form, 'linear');
-        const sy2 = centerY - my2 * ppu;
+        const screenY = (sx: number) => {
+            const mx = screenToMath({ x: sx, y: 0 }, width, height, ppu, originY).x;
+            return mathToScreen({ x: mx, y: evaluateQuadratic(mx, params, form, 'linear') }, width, height, ppu, originY).y;
+        };
+        const sy1 = screenY(minScreenX);
+        const sy2 = screenY(maxScreenX);
         if (!isFinite(sy1) || !isFinite(sy2)) return "";
         return `M ${minScreenX} ${sy1} L ${maxScreenX} ${sy2}`;
     }
 
-    const minScreenX = -50;
-    const maxScreenX = width + 50;
-    const pixelStep = 4; 
+    return sampleFunctionPath(mx => evaluateQuadratic(mx, params, form, type), width, height, ppu, originY);
+};
+
+// --- Adaptive Curve Sampling ---
+
+const CURVE_COARSE_STEP = 8; // px between the initial samples of a function graph
+const CURVE_SEGMENTS = 256; // initial samples over the parameter range of a parametric/polar curve
+const CURVE_MAX_DEPTH = 10; // halvings of a coarse step
+const CURVE_TOLERANCE = 0.5; // px the chord may stray from the curve before the step is halved
+const CURVE_JUMP = 20; // px moved over the finest step that means a jump rather than a steep curve
+const CURVE_CLIP_MARGIN = 20;
+
+// Internal Helper: Vertical extent of the page the origin is on (each further page has its own axes);
+// the whole height when the scale does not give the page height
+const getAxisBand = (height: number, ppu: PixelsPerUnit, originY?: number, margin: number = CURVE_CLIP_MARGIN) => {
+    const pageHeight = typeof ppu !== 'number' && ppu.pageHeight && ppu.pageHeight > 0 ? ppu.pageHeight : height;
+    const pageTop = Math.floor((originY ?? (height / 2)) / pageHeight) * pageHeight;
+    return { top: pageTop - margin, bottom: pageTop + pageHeight + margin };
+};
+
+// Internal Helper: Samples the screen curve `at(u)` (null where undefined) for u in [from, to] into an SVG path.
+// Steps are halved where the chord strays from the curve; the path is broken where the curve is undefined
+// or jumps, and clipped to the band between `top` and `bottom`.
+const sampleScreenCurve = (at: (u: number) => Point | null, from: number, to: number, segments: number, top: number, bottom: number): string => {
     let d = "";
-    let first = true;
-
-    for (let sx = minScreenX; sx <= maxScreenX; sx += pixelStep) {
-        const mx = (sx - (width / 2)) / ppu;
-        const my = evaluateQuadratic(mx, params, form, 'quadratic');
-        const sy = centerY - my * ppu;
-        if (!isFinite(sy) || sy < -height * 5 || sy > height * 5) {
-            first = true;
-            continue;
+    let penDown = false;
+    let lastCoords = "";
+    let prev: Point | null = null;
+    const lineTo = (p: Point) => {
+        const coords = `${p.x.toFixed(1)} ${p.y.toFixed(1)}`;
+        if (penDown && coords === lastCoords) return; // Finer than the path precision
+        d += `${d ? ' ' : ''}${penDown ? 'L' : 'M'} ${coords}`;
+        penDown = true;
+        lastCoords = coords;
+    };
+    const breakPath = () => { penDown = false; prev = null; };
+    const crossing = (a: Point, b: Point, edgeY: number): Point => ({ x: a.x + (b.x - a.x) * (edgeY - a.y) / (b.y - a.y), y: edgeY });
+    const isInside = (p: Point) => p.y >= top && p.y <= bottom;
+
+    // Extends the path to p, cutting it where it leaves or re-enters the band
+    const addPoint = (p: Point) => {
+        const inside = isInside(p);
+        if (prev) {
+            const prevInside = isInside(prev);
+            const entryEdge = prev.y < top ? top : bottom;
+            const exitEdge = p.y < top ? top : bottom;
+            if (!prevInside && inside) {
+                lineTo(crossing(prev, p, entryEdge));
+            } else if (prevInside && !inside) {
+                lineTo(crossing(prev, p, exitEdge));
+                penDown = false;
+            } else if (!prevInside && !inside && entryEdge !== exitEdge) {
+                lineTo(crossing(prev, p, entryEdge));
+                lineTo(crossing(prev, p, exitEdge));
+                penDown = false;
+            }
         }
-        if (first) {
-            d += `M ${sx.toFixed(1)} ${sy.toFixed(1)}`;
-            first = false;
-        } else {
-            d += ` L ${sx.toFixed(1)} ${sy.toFixed(1)}`;
+        if (inside) lineTo(p);
+        prev = p;
+    };
+
+    // Adds the samples in (u0, u1], halving the step where needed
+    const refine = (u0: number, p0: Point | null, u1: number, p1: Point | null, depth: number) => {
+        if (depth < CURVE_MAX_DEPTH) {
+            const um = (u0 + u1) / 2;
+            const pm = at(um);
+            let split: boolean;
+            if (!p0 || !p1) {
+                // Narrow down a domain edge, or catch a defined stretch between undefined samples
+                split = !p0 !== !p1 || !!pm;
+            } else if (!pm) {
+                split = true;
+            } else {
+                const offBand = (p0.y < top && pm.y < top && p1.y < top) || (p0.y > bottom && pm.y > bottom && p1.y > bottom);
+                split = !offBand && distance(pm, { x: (p0.x + p1.x) / 2, y: (p0.y + p1.y) / 2 }) > CURVE_TOLERANCE;
+            }
+            if (split) {
+                refine(u0, p0, um, pm, depth + 1);
+                refine(um, pm, u1, p1, depth + 1);
+                return;
+            }
+        }
+        if (!p1) { breakPath(); return; }
+        if (depth >= CURVE_MAX_DEPTH && p0 && distance(p0, p1) > CURVE_JUMP) breakPath();
+        addPoint(p1);
+    };
+
+    let u0 = from;
+    let p0 = at(u0);
+    if (p0) addPoint(p0);
+    for (let i = 1; i <= segments; i++) {
+        const u1 = from + (to - from) * (i / segments);
+        const p1 = at(u1);
+        refine(u0, p0, u1, p1, 0);
+        u0 = u1;
+        p0 = p1;
+    }
+    return d;
+};
+
+/**
+ * Samples y = f(x) (math units, NaN where undefined) into an SVG path across the canvas width.
+ * Steps are halved where the chord strays from the curve, the path is broken where f is undefined
+ * or jumps (the asymptote of k/x, tan x, floor x), and it is clipped to the page the axes sit on,
+ * so tall multi-page canvases do not produce huge paths.
+ */
+export const sampleFunctionPath = (f: (x: number) => number, width: number, height: number, ppu: PixelsPerUnit, originY?: number): string => {
+    if (!ppu || !isValidScale(ppu)) return "";
+    const { top, bottom } = getAxisBand(height, ppu, originY);
+    const at = (sx: number): Point | null => {
+        const mx = screenToMath({ x: sx, y: 0 }, width, height, ppu, originY).x;
+        const my = f(mx);
+        return isFinite(my) ? { x: sx, y: mathToScreen({ x: mx, y: my }, width, height, ppu, originY).y } : null;
+    };
+    const from = -50;
+    const segments = Math.ceil((width + 100) / CURVE_COARSE_STEP);
+    return sampleScreenCurve(at, from, from + segments * CURVE_COARSE_STEP, segments, top, bottom);
+};
+
+// --- Expression Graphs ---
+
+// Compiled expressions by text, slider names and argument, so plotting does not re-parse at every sample
+const compiledExpressions = new Map<string, CompiledExpression | null>();
+
+// Internal Helper: Compiled expression, or null if the text does not parse
+const compileCached = (text: string, names: string[], argument: string): CompiledExpression | null => {
+    const key = `${text}|${names.join(',')}|${argument}`;
+    if (!compiledExpressions.has(key)) {
+        if (compiledExpressions.size > 500) compiledExpressions.clear();
+        try {
+            compiledExpressions.set(key, compileExpression(text, names, argument));
+        } catch {
+            compiledExpressions.set(key, null);
+        }
+    }
+    return compiledExpressions.get(key)!;
+};
+
+// Internal Helper: Compiled expression of a graph, or null if its text does not parse
+const getGraphExpression = (graph: Shape): CompiledExpression | null =>
+    compileCached(graph.expression || '', Object.keys(graph.expressionScope || {}), 'x');
+
+/**
+ * Does the graph have a formula to evaluate (coefficients, or an expression)?
+ */
+export const isPlottableGraph = (shape: Shape): boolean =>
+    shape.type === ShapeType.FUNCTION_GRAPH && (shape.functionType === 'expression' ? !!shape.expression : !!shape.formulaParams);
+
+/**
+ * y of a function graph at x, in math units. NaN where the function is undefined.
+ */
+export const evaluateFunctionGraph = (graph: Shape, x: number): number => {
+    if (graph.functionType === 'expression') {
+        const compiled = getGraphExpression(graph);
+        if (!compiled) return NaN;
+        if (graph.differentiate) return numericSlope(t => compiled.evaluate(t, graph.expressionScope), x);
+        return compiled.evaluate(x, graph.expressionScope);
+    }
+    if (!graph.formulaParams) return NaN;
+    return evaluateQuadratic(x, graph.formulaParams, graph.functionForm, graph.functionType || 'quadratic');
+};
+
+// Internal Helper: Points of a graph near `m` (math units): straight above or below it, and on a hyperbola
+// also straight beside it, which is much nearer along its steep branches. Undefined values are left out.
+const getGraphPointsNear = (graph: Shape, m: Point): Point[] => {
+    const points = [{ x: m.x, y: evaluateFunctionGraph(graph, m.x) }];
+    if (graph.functionType === 'inverse' && graph.formulaParams && m.y !== 0) {
+        points.push({ x: (graph.formulaParams.k ?? 1) / m.y, y: m.y });
+    }
+    return points.filter(p => isFinite(p.y));
+};
+
+// Internal Helper: Central difference; NaN where f is undefined on either side
+const numericSlope = (f: (x: number) => number, x: number, step: number = 1e-5): number => {
+    const slope = (f(x + step) - f(x - step)) / (2 * step);
+    return isFinite(slope) ? slope : NaN;
+};
+
+/**
+ * Slope (dy/dx) of a function graph at x: exact for linear, quadratic and inverse graphs, numeric for expressions.
+ */
+export const getGraphSlope = (graph: Shape, x: number): number => {
+    if (graph.functionType === 'expression') return numericSlope(t => evaluateFunctionGraph(graph, t), x);
+    const p = graph.formulaParams;
+    if (!p) return NaN;
+    if (graph.functionType === 'linear') return p.k ?? 1;
+    if (graph.functionType === 'inverse') return x === 0 ? NaN : -(p.k ?? 1) / (x * x);
+    const a = p.a ?? 1;
+    return graph.functionForm === 'vertex' ? 2 * a * (x - (p.h || 0)) : 2 * a * x + (p.b || 0);
+};
+
+/**
+ * SVG path of any function graph.
+ */
+export const generateFunctionPath = (graph: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): string => {
+    if (graph.functionType !== 'expression') {
+        if (!graph.formulaParams) return "";
+        return generateQuadraticPath(graph.formulaParams, graph.functionForm || 'standard', width, height, ppu, graph.functionType || 'quadratic', originY);
+    }
+    return sampleFunctionPath(x => evaluateFunctionGraph(graph, x), width, height, ppu, originY);
+};
+
+// --- Parametric & Polar Curves ---
+
+/**
+ * Name of the parameter the formulas of a curve are written in.
+ */
+export const curveArgument = (curve: CurveConfig) => curve.kind === 'polar' ? 'θ' : 't';
+
+/**
+ * Parameter value at a normalised position (0..1) along the range of a curve.
+ */
+export const curveParamAt = (curve: CurveConfig, u: number) => curve.tMin + (curve.tMax - curve.tMin) * u;
+
+/**
+ * Point of a parametric (x(t), y(t)) or polar (r(θ)) curve at parameter t, in math units.
+ * Null where the curve is undefined or its formulas do not parse.
+ */
+export const evaluateCurve = (shape: Shape, t: number): Point | null => {
+    const curve = shape.curve;
+    if (!curve) return null;
+    const names = Object.keys(shape.expressionScope || {});
+    const argument = curveArgument(curve);
+    const formulas = (curve.kind === 'polar' ? [curve.r] : [curve.x, curve.y]).map(text => compileCached(text || '', names, argument));
+    if (formulas.some(f => !f)) return null;
+    let p: Point;
+    if (curve.kind === 'polar') {
+        const r = formulas[0]!.evaluate(t, shape.expressionScope);
+        p = { x: r * Math.cos(t), y: r * Math.sin(t) };
+    } else {
+        p = { x: formulas[0]!.evaluate(t, shape.expressionScope), y: formulas[1]!.evaluate(t, shape.expressionScope) };
+    }
+    return isNaN(p.x) || isNaN(p.y) ? null : p;
+};
+
+export const generateCurvePath = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): string => {
+    const curve = shape.curve;
+    if (!curve || !ppu || !isValidScale(ppu) || !(curve.tMax > curve.tMin)) return "";
+    const { top, bottom } = getAxisBand(height, ppu, originY);
+    const at = (u: number) => {
+        const p = evaluateCurve(shape, curveParamAt(curve, u));
+        return p ? mathToScreen(p, width, height, ppu, originY) : null;
+    };
+    return sampleScreenCurve(at, 0, 1, CURVE_SEGMENTS, top, bottom);
+};
+
+/**
+ * Curve point closest to `pos` (screen), with its normalised parameter (0..1) and distance in pixels.
+ */
+export const findClosestCurvePoint = (
+    shape: Shape, pos: Point, width: number, height: number, ppu: PixelsPerUnit, originY?: number
+): { u: number; point: Point; dist: number } | null => {
+    const curve = shape.curve;
+    if (!curve || !ppu || !isValidScale(ppu) || !(curve.tMax > curve.tMin)) return null;
+    const at = (u: number) => {
+        const p = evaluateCurve(shape, curveParamAt(curve, u));
+        return p ? mathToScreen(p, width, height, ppu, originY) : null;
+    };
+    let best = null as { u: number; point: Point; dist: number } | null;
+    const consider = (u: number) => {
+        const point = at(u);
+        if (!point) return;
+        const dist = distance(point, pos);
+        if (!best || dist < best.dist) best = { u, point, dist };
+    };
+    const samples = CURVE_SEGMENTS * 2;
+    for (let i = 0; i <= samples; i++) consider(i / samples);
+    if (!best) return null;
+    // Narrow down around the best sample
+    let step = 1 / samples;
+    for (let i = 0; i < 20; i++) {
+        step /= 2;
+        const u = best!.u;
+        consider(Math.max(0, u - step));
+        consider(Math.min(1, u + step));
+    }
+    return best;
+};
+
+// --- Implicit Curves ---
+
+const IMPLICIT_CELL = 6; // px per marching-squares cell
+
+// Compiled equations by text and slider names
+const compiledEquations = new Map<string, CompiledEquation | null>();
+// Traced contours by equation, slider values and view: drawing, hit testing and snapping share one trace
+const implicitContours = new Map<string, { polylines: Point[][]; closed: boolean[] }>();
+
+// Internal Helper: F(x, y) of an implicit curve (math units), or null if its equation does not parse
+const getImplicitFunction = (shape: Shape): ((x: number, y: number) => number) | null => {
+    const names = Object.keys(shape.expressionScope || {});
+    const key = `${shape.equation}|${names.join(',')}`;
+    if (!compiledEquations.has(key)) {
+        if (compiledEquations.size > 100) compiledEquations.clear();
+        try {
+            compiledEquations.set(key, compileEquation(shape.equation || '', names));
+        } catch {
+            compiledEquations.set(key, null);
+        }
+    }
+    const compiled = compiledEquations.get(key);
+    return compiled ? (x, y) => compiled.evaluate(x, y, shape.expressionScope) : null;
+};
+
+/**
+ * Traces F(x, y) = 0 over the page the axes sit on with marching squares and returns screen polylines.
+ * Crossings are refined by bisection along the cell edges; sign changes where F blows up instead of
+ * vanishing (the pole of 1/x - y) are skipped, and saddle cells are resolved by their center value.
+ */
+export const getImplicitContours = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): { polylines: Point[][]; closed: boolean[] } => {
+    const empty = { polylines: [], closed: [] };
+    const f = getImplicitFunction(shape);
+    if (!f || !ppu || !isValidScale(ppu)) return empty;
+    const cacheKey = `${shape.equation}|${JSON.stringify(shape.expressionScope || {})}|${width}|${height}|${scaleKey(ppu)}|${originY}`;
+    const cached = implicitContours.get(cacheKey);
+    if (cached) return cached;
+
+    const { top, bottom } = getAxisBand(height, ppu, originY);
+    const left = -IMPLICIT_CELL;
+    const cols = Math.ceil((width + 2 * IMPLICIT_CELL) / IMPLICIT_CELL);
+    const rows = Math.ceil((bottom - top) / IMPLICIT_CELL);
+    const F = (sx: number, sy: number) => {
+        const m = screenToMath({ x: sx, y: sy }, width, height, ppu, originY);
+        const v = f(m.x, m.y);
+        return isFinite(v) ? v : NaN;
+    };
+    const xAt = (i: number) => left + i * IMPLICIT_CELL;
+    const yAt = (j: number) => top + j * IMPLICIT_CELL;
+    const values = new Float64Array((cols + 1) * (rows + 1));
+    for (let j = 0; j <= rows; j++) {
+        for (let i = 0; i <= cols; i++) values[j * (cols + 1) + i] = F(xAt(i), yAt(j));
+    }
+    const valueAt = (i: number, j: number) => values[j * (cols + 1) + i];
+
+    // Zero of F on the edge a-b, or null if there is none (or only a pole)
+    const crossings = new Map<string, Point | null>();
+    const crossingOn = (key: string, a: Point, fa: number, b: Point, fb: number): Point | null => {
+        if (crossings.has(key)) return crossings.get(key)!;
+        let result: Point | null = null;
+        if (!isNaN(fa) && !isNaN(fb) && (fa > 0) !== (fb > 0)) {
+            let lo = a, hi = b;
+            for (let k = 0; k < 12; k++) {
+                const mid = lerp(lo, hi, 0.5);
+                const fm = F(mid.x, mid.y);
+                if (isNaN(fm)) break;
+                if ((fm > 0) === (fa > 0)) lo = mid; else hi = mid;
+            }
+            const root = lerp(lo, hi, 0.5);
+            const fr = Math.abs(F(root.x, root.y));
+            // At a pole F grows towards the sign change instead of vanishing
+            if (fr <= Math.max(Math.abs(fa), Math.abs(fb))) result = root;
+        }
+        crossings.set(key, result);
+        return result;
+    };
+    const horizontal = (i: number, j: number) => crossingOn(`h${i},${j}`, { x: xAt(i), y: yAt(j) }, valueAt(i, j), { x: xAt(i + 1), y: yAt(j) }, valueAt(i + 1, j));
+    const vertical = (i: number, j: number) => crossingOn(`v${i},${j}`, { x: xAt(i), y: yAt(j) }, valueAt(i, j), { x: xAt(i), y: yAt(j + 1) }, valueAt(i, j + 1));
+
+    // Segments between edge crossings, keyed by edge so that neighbouring cells join up
+    const points = new Map<string, Point>();
+    const links = new Map<string, string[]>();
+    const link = (a: string, b: string) => {
+        links.set(a, [...(links.get(a) || []), b]);
+        links.set(b, [...(links.get(b) || []), a]);
+    };
+    for (let j = 0; j < rows; j++) {
+        for (let i = 0; i < cols; i++) {
+            const corners = [valueAt(i, j), valueAt(i + 1, j), valueAt(i + 1, j + 1), valueAt(i, j + 1)];
+            if (corners.some(isNaN)) continue;
+            const edges: [string, Point | null][] = [
+                [`h${i},${j}`, horizontal(i, j)],
+                [`v${i + 1},${j}`, vertical(i + 1, j)],
+                [`h${i},${j + 1}`, horizontal(i, j + 1)],
+                [`v${i},${j}`, vertical(i, j)]
+            ];
+            edges.forEach(([key, p]) => { if (p) points.set(key, p); });
+            const hits = edges.filter(([, p]) => p).map(([key]) => key);
+            if (hits.length === 2) {
+                link(hits[0], hits[1]);
+            } else if (hits.length === 4) {
+                // Saddle: the center decides which opposite corners are connected
+                const center = F(xAt(i) + IMPLICIT_CELL / 2, yAt(j) + IMPLICIT_CELL / 2);
+                const [topEdge, rightEdge, bottomEdge, leftEdge] = hits;
+                if ((center > 0) === (corners[0] > 0)) { link(topEdge, rightEdge); link(bottomEdge, leftEdge); }
+                else { link(leftEdge, topEdge); link(rightEdge, bottomEdge); }
+            }
+        }
+    }
+
+    // Walk the links into polylines: open chains from their ends first, then closed loops
+    const visited = new Set<string>();
+    const polylines: Point[][] = [];
+    const closed: boolean[] = [];
+    const walk = (start: string) => {
+        const keys = [start];
+        visited.add(start);
+        let current = start;
+        while (true) {
+            const nextKey = (links.get(current) || []).find(k => !visited.has(k));
+            if (!nextKey) break;
+            visited.add(nextKey);
+            keys.push(nextKey);
+            current = nextKey;
+        }
+        if (keys.length < 2) return;
+        polylines.push(keys.map(k => points.get(k)!));
+        closed.push(keys.length > 2 && (links.get(current) || []).includes(start));
+    };
+    links.forEach((neighbours, key) => { if (neighbours.length === 1 && !visited.has(key)) walk(key); });
+    links.forEach((_, key) => { if (!visited.has(key)) walk(key); });
+
+    const result = { polylines, closed };
+    if (implicitContours.size > 20) implicitContours.clear();
+    implicitContours.set(cacheKey, result);
+    return result;
+};
+
+export const generateImplicitPath = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): string => {
+    const { polylines, closed } = getImplicitContours(shape, width, height, ppu, originY);
+    return polylines.map((line, k) =>
+        line.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ') + (closed[k] ? ' Z' : '')
+    ).join(' ');
+};
+
+/**
+ * Point of an implicit curve closest to `pos` (screen): the nearest point of the traced contour,
+ * pulled onto F = 0 with Newton steps.
+ */
+export const findClosestImplicitPoint = (
+    shape: Shape, pos: Point, width: number, height: number, ppu: PixelsPerUnit, originY?: number
+): { point: Point; dist: number } | null => {
+    const { polylines, closed } = getImplicitContours(shape, width, height, ppu, originY);
+    let best = null as Point | null;
+    let bestDist = Infinity;
+    polylines.forEach((line, k) => {
+        const count = closed[k] ? line.length : line.length - 1;
+        for (let i = 0; i < count; i++) {
+            const q = getClosestPointOnSegment(pos, line[i], line[(i + 1) % line.length]);
+            const d = distance(pos, q);
+            if (d < bestDist) { bestDist = d; best = q; }
+        }
+    });
+    if (!best) return null;
+
+    const f = getImplicitFunction(shape)!;
+    let m = screenToMath(best, width, height, ppu, originY);
+    const h = 1e-6;
+    for (let k = 0; k < 3; k++) {
+        const v = f(m.x, m.y);
+        const gx = (f(m.x + h, m.y) - f(m.x - h, m.y)) / (2 * h);
+        const gy = (f(m.x, m.y + h) - f(m.x, m.y - h)) / (2 * h);
+        const g2 = gx * gx + gy * gy;
+        if (!isFinite(v) || !isFinite(g2) || g2 === 0) break;
+        const next = { x: m.x - v * gx / g2, y: m.y - v * gy / g2 };
+        // A Newton step larger than a cell means it is chasing something other than this branch
+        if (distance(mathToScreen(next, width, height, ppu, originY), mathToScreen(m, width, height, ppu, originY)) > IMPLICIT_CELL) break;
+        m = next;
+    }
+    const point = mathToScreen(m, width, height, ppu, originY);
+    return { point, dist: distance(pos, point) };
+};
+
+// --- Inequality Regions ---
+
+const REGION_COLUMN = 3; // px between the columns the fill is scanned along
+const REGION_ROW = 6; // px between the samples of a column before its crossings are refined
+
+// Compiled inequalities by text and slider names
+const compiledInequalities = new Map<string, CompiledInequality | null>();
+// Fill paths by inequalities, slider values and view
+const regionFills = new Map<string, string>();
+
+// Internal Helper: Conditions of a region, or null if any of its inequalities does not parse
+const getRegionConditions = (shape: Shape): InequalityCondition[] | null => {
+    const names = Object.keys(shape.expressionScope || {});
+    const conditions: InequalityCondition[] = [];
+    for (const text of shape.inequalities || []) {
+        const key = `${text}|${names.join(',')}`;
+        if (!compiledInequalities.has(key)) {
+            if (compiledInequalities.size > 100) compiledInequalities.clear();
+            try {
+                compiledInequalities.set(key, compileInequality(text, names));
+            } catch {
+                compiledInequalities.set(key, null);
+            }
+        }
+        const compiled = compiledInequalities.get(key);
+        if (!compiled) return null;
+        conditions.push(...compiled.conditions);
+    }
+    return conditions.length > 0 ? conditions : null;
+};
+
+// Internal Helper: Do all conditions hold at the math point? (Nowhere where one is undefined)
+const satisfiesAll = (conditions: InequalityCondition[], p: Point, scope?: Record<string, number>) =>
+    conditions.every(c => {
+        const v = c.evaluate(p.x, p.y, scope);
+        return v < 0 || (v === 0 && !c.strict);
+    });
+
+/**
+ * Does the math point lie in the region, i.e. satisfy every inequality of the shape?
+ */
+export const isInRegion = (shape: Shape, p: Point): boolean => {
+    const conditions = getRegionConditions(shape);
+    return !!conditions && satisfiesAll(conditions, p, shape.expressionScope);
+};
+
+/**
+ * SVG fill path of an inequality region over the page the axes sit on (the band AxisLayer draws).
+ * Each screen column is split into the intervals where the region holds, with the ends refined by
+ * bisection, and neighbouring columns whose intervals match one to one are joined into polygons.
+ */
+export const generateRegionFill = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): string => {
+    const conditions = getRegionConditions(shape);
+    if (!conditions || !ppu || !isValidScale(ppu)) return "";
+    const cacheKey = `${(shape.inequalities || []).join(';')}|${JSON.stringify(shape.expressionScope || {})}|${width}|${height}|${scaleKey(ppu)}|${originY}`;
+    const cached = regionFills.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const { top, bottom } = getAxisBand(height, ppu, originY, 0);
+    const inside = (sx: number, sy: number) =>
+        satisfiesAll(conditions, screenToMath({ x: sx, y: sy }, width, height, ppu, originY), shape.expressionScope);
+    const rows = Math.max(1, Math.ceil((bottom - top) / REGION_ROW));
+
+    // Intervals [from, to] (screen y) of the column at sx that lie in the region
+    const intervalsAt = (sx: number): [number, number][] => {
+        const result: [number, number][] = [];
+        let prevY = top;
+        let prevIn = inside(sx, top);
+        let start = top;
+        for (let j = 1; j <= rows; j++) {
+            const y = Math.min(bottom, top + j * REGION_ROW);
+            const now = inside(sx, y);
+            if (now !== prevIn) {
+                let lo = prevY, hi = y;
+                for (let k = 0; k < 10; k++) {
+                    const mid = (lo + hi) / 2;
+                    if (inside(sx, mid) === prevIn) lo = mid; else hi = mid;
+                }
+                if (now) start = (lo + hi) / 2;
+                else result.push([start, (lo + hi) / 2]);
+            }
+            prevY = y;
+            prevIn = now;
         }
+        if (prevIn) result.push([start, bottom]);
+        return result;
+    };
+
+    type Strip = { tops: Point[]; bottoms: Point[]; last: [number, number] };
+    const overlaps = (a: [number, number], b: [number, number]) => a[0] <= b[1] && b[0] <= a[1];
+    const polygons: Point[][] = [];
+    let active: Strip[] = [];
+    let prevX = 0;
+    const columns = Math.ceil(width / REGION_COLUMN);
+    for (let i = 0; i <= columns; i++) {
+        const sx = Math.min(width, i * REGION_COLUMN);
+        const intervals = intervalsAt(sx);
+        const next = intervals.map((iv): Strip => {
+            const from = active.filter(s => overlaps(s.last, iv));
+            if (from.length === 1 && intervals.filter(o => overlaps(from[0].last, o)).length === 1) {
+                from[0].tops.push({ x: sx, y: iv[0] });
+                from[0].bottoms.push({ x: sx, y: iv[1] });
+                from[0].last = iv;
+                return from[0];
+            }
+            const strip: Strip = { tops: [], bottoms: [], last: iv };
+            // Where pieces split or merge, start from the previous column so no gap is left between them
+            if (from.length > 0) {
+                strip.tops.push({ x: prevX, y: Math.max(iv[0], Math.min(...from.map(s => s.last[0]))) });
+                strip.bottoms.push({ x: prevX, y: Math.min(iv[1], Math.max(...from.map(s => s.last[1]))) });
+            }
+            strip.tops.push({ x: sx, y: iv[0] });
+            strip.bottoms.push({ x: sx, y: iv[1] });
+            return strip;
+        });
+        active.filter(s => !next.includes(s)).forEach(s => polygons.push([...s.tops, ...s.bottoms.reverse()]));
+        active = next;
+        prevX = sx;
     }
+    active.forEach(s => polygons.push([...s.tops, ...s.bottoms.reverse()]));
+
+    const d = polygons.map(pts => pts.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' ') + ' Z').join(' ');
+    if (regionFills.size > 20) regionFills.clear();
+    regionFills.set(cacheKey, d);
     return d;
 };
 
+/**
+ * Boundary curve of each comparison of a region: sampled like a function graph when one side is y alone
+ * (y > 2x + 1), otherwise traced like an implicit curve. Strict comparisons (< and >) are drawn dashed.
+ */
+export const generateRegionBoundaries = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): { pathData: string; strict: boolean }[] => {
+    const names = Object.keys(shape.expressionScope || {});
+    return (getRegionConditions(shape) || []).map(c => {
+        const [left, right] = c.sides;
+        const other = left === 'y' ? right : right === 'y' ? left : null;
+        const f = other !== null ? compileCached(other, names, 'x') : null;
+        const pathData = f
+            ? sampleFunctionPath(x => f.evaluate(x, shape.expressionScope), width, height, ppu, originY)
+            : generateImplicitPath({ ...shape, type: ShapeType.IMPLICIT_CURVE, equation: `${left} = ${right}` }, width, height, ppu, originY);
+        return { pathData, strict: c.strict };
+    });
+};
+
+// --- Areas Between Graphs ---
+
+// Screen distance between the columns an area outline is sampled on
+const AREA_COLUMN = 2;
+
+/**
+ * Screen outline of the area between f and g for x in [from, to] (math units): along f from left to
+ * right, then back along g. Where one of them is undefined the outline closes onto the other (onto the
+ * x-axis where both are). Only the visible part is outlined, clipped to the page the axes sit on.
+ */
+export const generateAreaOutline = (
+    f: (x: number) => number,
+    g: (x: number) => number,
+    from: number,
+    to: number,
+    width: number,
+    height: number,
+    ppu: PixelsPerUnit,
+    originY?: number
+): Point[] => {
+    if (!ppu || !isValidScale(ppu)) return [];
+    const [minX, maxX] = getVisibleXRange(width, ppu);
+    const left = Math.max(Math.min(from, to), minX), right = Math.min(Math.max(from, to), maxX);
+    if (!(right > left)) return [];
+
+    const { top, bottom } = getAxisBand(height, ppu, originY, 0);
+    const toScreen = (x: number, y: number) => {
+        const p = mathToScreen({ x, y }, width, height, ppu, originY);
+        return { x: p.x, y: Math.min(bottom, Math.max(top, p.y)) };
+    };
+    const columns = Math.max(1, Math.ceil(((right - left) * getAxisScale(ppu, width).x) / AREA_COLUMN));
+    const upper: Point[] = [], lower: Point[] = [];
+    for (let i = 0; i <= columns; i++) {
+        const x = left + ((right - left) * i) / columns;
+        let fy = f(x), gy = g(x);
+        if (!isFinite(gy)) gy = isFinite(fy) ? fy : 0;
+        if (!isFinite(fy)) fy = gy;
+        upper.push(toScreen(x, fy));
+        lower.push(toScreen(x, gy));
+    }
+    return [...upper, ...lower.reverse()];
+};
+
+/**
+ * SVG path of a shape drawn from formulas (function graph, parametric/polar curve, implicit curve or
+ * the fill of an inequality region).
+ */
+export const generateFormulaPath = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): string => {
+    if (shape.type === ShapeType.PARAMETRIC_CURVE) return generateCurvePath(shape, width, height, ppu, originY);
+    if (shape.type === ShapeType.IMPLICIT_CURVE) return generateImplicitPath(shape, width, height, ppu, originY);
+    if (shape.type === ShapeType.INEQUALITY_REGION) return generateRegionFill(shape, width, height, ppu, originY);
+    return generateFunctionPath(shape, width, height, ppu, originY);
+};
+
+/**
+ * The shape with its generated paths (and the boundaries of a region) redrawn for the current view.
+ */
+export const redrawFormulaShape = (shape: Shape, width: number, height: number, ppu: PixelsPerUnit, originY?: number): Shape => {
+    const redrawn = { ...shape, pathData: generateFormulaPath(shape, width, height, ppu, originY) };
+    if (shape.type === ShapeType.INEQUALITY_REGION) redrawn.boundaryPaths = generateRegionBoundaries(shape, width, height, ppu, originY);
+    return redrawn;
+};
+
 // --- Function Synchronization Helpers ---
 
 export const standardToVertex = (a: number, b: number, c: number): { h: number, k: number } => {
@@ -215,11 +892,313 @@ export const vertexToStandard = (a: number, h: number, k: number): { b: number,
     return { b, c };
 };
 
+// Dragged graph handles snap to tenths of a grid square on each axis, like getSnapPoint's grid
+// (0.1 units at the default step, as in the coefficient inputs)
+const GRAPH_HANDLE_DIVISIONS = 10;
+
+// Strips float noise from coefficients computed from other ones (snapped handles, derivatives)
+export const cleanCoefficient = (v: number) => Math.round(v * 1e6) / 1e6;
+
+/**
+ * Draggable points of a quadratic, linear or inverse graph, in math units: the vertex of a parabola,
+ * the y-intercept and the point at x = 1 of a line, or the point at x = 1 of a hyperbola y = k/x.
+ * Expression graphs, and graphs derived from another one, have none.
+ */
+export const getGraphHandlePoints = (graph: Shape): Point[] => {
+    const p = graph.formulaParams;
+    if (graph.type !== ShapeType.FUNCTION_GRAPH || graph.functionType === 'expression' || graph.constraint || !p) return [];
+    if (graph.functionType === 'linear') {
+        const slope = p.k ?? 1, intercept = p.b ?? 0;
+        return [{ x: 0, y: intercept }, { x: 1, y: slope + intercept }];
+    }
+    if (graph.functionType === 'inverse') return [{ x: 1, y: p.k ?? 1 }];
+    if (graph.functionForm === 'vertex') return [{ x: p.h || 0, y: p.k || 0 }];
+    const { h, k } = standardToVertex(p.a ?? 1, p.b || 0, p.c || 0);
+    return [{ x: h, y: k }];
+};
+
+/**
+ * Moves handle `index` of a graph (see getGraphHandlePoints) to the screen position `pos`,
+ * snapped to tenths of a grid square (`gridStep`: math units per square on each axis). Rewrites formulaParams
+ * in both standard and vertex form and redraws the path.
+ */
+export const dragGraphHandle = (graph: Shape, index: number, pos: Point, width: number, height: number, ppu: PixelsPerUnit, originY?: number, gridStep: Point = { x: 1, y: 1 }): Shape => {
+    const p = graph.formulaParams;
+    if (!getGraphHandlePoints(graph)[index] || !p) return graph;
+    const m = screenToMath(pos, width, height, ppu, originY);
+    const stepX = gridStep.x / GRAPH_HANDLE_DIVISIONS, stepY = gridStep.y / GRAPH_HANDLE_DIVISIONS;
+    const x = Math.round(m.x / stepX) * stepX;
+    const y = Math.round(m.y / stepY) * stepY;
+
+    let formulaParams = { ...p };
+    if (graph.functionType === 'linear') {
+        const intercept = p.b ?? 0;
+        if (index === 0) {
+            formulaParams.b = cleanCoefficient(y);
+        } else {
+            // The second handle sets the slope through the intercept; it can't sit on the y-axis
+            if (Math.abs(x) < stepX / 2) return graph;
+            formulaParams.k = cleanCoefficient((y - intercept) / x);
+        }
+    } else if (graph.functionType === 'inverse') {
+        // The hyperbola through the dropped point; k = 0 would flatten it onto the x-axis
+        const k = cleanCoefficient(x * y);
+        if (k === 0) return graph;
+        formulaParams.k = k;
+    } else {
+        const h = cleanCoefficient(x), k = cleanCoefficient(y);
+        const { b, c } = vertexToStandard(p.a ?? 1, h, k);
+        formulaParams = { ...p, h, k, b: cleanCoefficient(b), c: cleanCoefficient(c) };
+    }
+    const updated = { ...graph, formulaParams };
+    return { ...updated, pathData: generateFunctionPath(updated, width, height, ppu, originY) };
+};
+
 // --- Basic Geometry ---
 export const distance = (p1: Point, p2: Point) => {
   return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 };
 
+// --- Intersection Helpers ---
+
+/**
+ * Intersection of two finite segments. A small parametric tolerance keeps
+ * crossings exactly at an endpoint (e.g. two lines meeting at a vertex) stable.
+ */
+export const intersectSegments = (a1: Point, a2: Point, b1: Point, b2: Point, tolerance: number = 1e-6): Point | null => {
+    const r = { x: a2.x - a1.x, y: a2.y - a1.y };
+    const s = { x: b2.x - b1.x, y: b2.y - b1.y };
+    const denom = crossProduct(r, s);
+    if (Math.abs(denom) < 1e-9) return null; // Parallel or collinear
+
+    const qp = { x: b1.x - a1.x, y: b1.y - a1.y };
+    const t = crossProduct(qp, s) / denom;
+    const u = crossProduct(qp, r) / denom;
+    if (t < -tolerance || t > 1 + tolerance || u < -tolerance || u > 1 + tolerance) return null;
+    return { x: a1.x + t * r.x, y: a1.y + t * r.y };
+};
+
+export const intersectSegmentCircle = (p1: Point, p2: Point, center: Point, radius: number, tolerance: number = 1e-6): Point[] => {
+    const d = { x: p2.x - p1.x, y: p2.y - p1.y };
+    const f = { x: p1.x - center.x, y: p1.y - center.y };
+    const a = dotProduct(d, d);
+    if (a === 0) return [];
+    const b = 2 * dotProduct(f, d);
+    const c = dotProduct(f, f) - radius * radius;
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return [];
+
+    const sqrtDisc = Math.sqrt(disc);
+    const ts = disc === 0 ? [-b / (2 * a)] : [(-b - sqrtDisc) / (2 * a), (-b + sqrtDisc) / (2 * a)];
+    return ts
+        .filter(t => t >= -tolerance && t <= 1 + tolerance)
+        .map(t => lerp(p1, p2, t));
+};
+
+export const intersectCircles = (c1: Point, r1: number, c2: Point, r2: number): Point[] => {
+    const d = distance(c1, c2);
+    if (d === 0 || d > r1 + r2 || d < Math.abs(r1 - r2)) return [];
+
+    // Distance from c1 to the chord joining the two intersections
+    const a = (r1 * r1 - r2 * r2 + d * d) / (2 * d);
+    const h = Math.sqrt(Math.max(0, r1 * r1 - a * a));
+    const mid = { x: c1.x + (a * (c2.x - c1.x)) / d, y: c1.y + (a * (c2.y - c1.y)) / d };
+    if (h === 0) return [mid];
+
+    const ox = (h * (c2.y - c1.y)) / d;
+    const oy = (h * (c2.x - c1.x)) / d;
+    return [
+        { x: mid.x + ox, y: mid.y - oy },
+        { x: mid.x - ox, y: mid.y + oy }
+    ];
+};
+
+// Screen mapping needed to intersect function graphs (and for getSnapPoint to snap onto graphs and curves)
+export interface IntersectionGridConfig {
+    width: number;
+    height: number;
+    ppu: PixelsPerUnit;
+    originY?: number;
+}
+
+/**
+ * Intersection of a segment with a (possibly rotated) ellipse.
+ * The segment is mapped into the ellipse's local frame, where the ellipse becomes a unit circle.
+ */
+export const intersectSegmentEllipse = (p1: Point, p2: Point, center: Point, rx: number, ry: number, rotation: number = 0): Point[] => {
+    if (rx === 0 || ry === 0) return [];
+    const toLocal = (p: Point): Point => {
+        const r = rotation ? rotatePoint(p, center, -rotation) : p;
+        return { x: (r.x - center.x) / rx, y: (r.y - center.y) / ry };
+    };
+    const toWorld = (p: Point): Point => {
+        const w = { x: center.x + p.x * rx, y: center.y + p.y * ry };
+        return rotation ? rotatePoint(w, center, rotation) : w;
+    };
+    return intersectSegmentCircle(toLocal(p1), toLocal(p2), { x: 0, y: 0 }, 1).map(toWorld);
+};
+
+/**
+ * Intersection of a segment with a function graph (screen space).
+ * Samples the vertical gap between graph and segment and refines sign changes by bisection.
+ * A sign change that does not close the gap is the graph jumping across an asymptote, not a crossing.
+ */
+export const intersectSegmentGraph = (p1: Point, p2: Point, graph: Shape, grid: IntersectionGridConfig, samples: number = 200): Point[] => {
+    if (!isPlottableGraph(graph)) return [];
+    const originY = grid.originY ?? (grid.height / 2);
+    const pointAt = (t: number) => lerp(p1, p2, t);
+    const gap = (t: number) => {
+        const p = pointAt(t);
+        const mx = screenToMath(p, grid.width, grid.height, grid.ppu, originY).x;
+        const my = evaluateFunctionGraph(graph, mx);
+        return mathToScreen({ x: mx, y: my }, grid.width, grid.height, grid.ppu, originY).y - p.y;
+    };
+
+    const result: Point[] = [];
+    let prevT = 0;
+    let prevGap = gap(0);
+    if (Math.abs(prevGap) < 1e-6) result.push(pointAt(0));
+    for (let i = 1; i <= samples; i++) {
+        const t = i / samples;
+        const g = gap(t);
+        if (Math.abs(g) < 1e-6) {
+            result.push(pointAt(t));
+        } else if (prevGap * g < 0 && Math.abs(prevGap) >= 1e-6) {
+            let lo = prevT, hi = t, gLo = prevGap;
+            for (let k = 0; k < 40; k++) {
+                const mid = (lo + hi) / 2;
+                const gMid = gap(mid);
+                if (gLo * gMid <= 0) { hi = mid; } else { lo = mid; gLo = gMid; }
+            }
+            if (Math.abs(gap((lo + hi) / 2)) < 1) result.push(pointAt((lo + hi) / 2));
+        }
+        prevT = t;
+        prevGap = g;
+    }
+    return result;
+};
+
+interface CurvePrimitives {
+    segments: [Point, Point][];
+    circles: { center: Point; radius: number }[];
+    ellipses: { center: Point; rx: number; ry: number; rotation: number }[];
+    graphs: Shape[];
+}
+
+// Internal Helper: Decomposes a shape into the primitives used for intersection tests (visual space)
+const getCurvePrimitives = (shape: Shape): CurvePrimitives => {
+    const primitives: CurvePrimitives = { segments: [], circles: [], ellipses: [], graphs: [] };
+    if (shape.type === ShapeType.FUNCTION_GRAPH) {
+        if (isPlottableGraph(shape)) primitives.graphs.push(shape);
+        return primitives;
+    }
+    if (!shape.points || shape.points.length < 2) return primitives;
+
+    if (shape.type === ShapeType.CIRCLE) {
+        primitives.circles.push({
+            center: getShapeCenter(shape.points, shape.type),
+            radius: Math.abs(shape.points[1].x - shape.points[0].x) / 2
+        });
+    } else if (shape.type === ShapeType.ELLIPSE) {
+        primitives.ellipses.push({
+            center: getShapeCenter(shape.points, shape.type),
+            rx: Math.abs(shape.points[0].x - shape.points[1].x) / 2,
+            ry: Math.abs(shape.points[0].y - shape.points[1].y) / 2,
+            rotation: shape.rotation || 0
+        });
+    } else if ([ShapeType.LINE, ShapeType.TRIANGLE, ShapeType.POLYGON, ShapeType.RECTANGLE, ShapeType.SQUARE].includes(shape.type)) {
+        const corners = getRotatedCorners(shape);
+        const isClosed = shape.type !== ShapeType.LINE;
+        const count = isClosed ? corners.length : corners.length - 1;
+        for (let i = 0; i < count; i++) {
+            primitives.segments.push([corners[i], corners[(i + 1) % corners.length]]);
+        }
+    }
+    return primitives;
+};
+
+/**
+ * Returns every point where the outlines of two shapes cross.
+ * Supports lines/polygon edges, circles, ellipses (against segments) and
+ * function graphs (against segments, requires `grid` to map math to screen space).
+ */
+export const getShapeIntersections = (a: Shape, b: Shape, grid?: IntersectionGridConfig): Point[] => {
+    const pa = getCurvePrimitives(a);
+    const pb = getCurvePrimitives(b);
+    const result: Point[] = [];
+
+    const segmentHits = (s1: Point, s2: Point, other: CurvePrimitives) => {
+        other.circles.forEach(c => result.push(...intersectSegmentCircle(s1, s2, c.center, c.radius)));
+        other.ellipses.forEach(e => result.push(...intersectSegmentEllipse(s1, s2, e.center, e.rx, e.ry, e.rotation)));
+        if (grid) other.graphs.forEach(g => result.push(...intersectSegmentGraph(s1, s2, g, grid)));
+    };
+
+    pa.segments.forEach(([a1, a2]) => {
+        pb.segments.forEach(([b1, b2]) => {
+            const p = intersectSegments(a1, a2, b1, b2);
+            if (p) result.push(p);
+        });
+        segmentHits(a1, a2, pb);
+    });
+    pb.segments.forEach(([b1, b2]) => segmentHits(b1, b2, { ...pa, segments: [] }));
+    pa.circles.forEach(ca => {
+        pb.circles.forEach(cb => result.push(...intersectCircles(ca.center, ca.radius, cb.center, cb.radius)));
+    });
+
+    // Deduplicate (shared polygon vertices produce the same crossing twice)
+    return result.filter((p, i) => result.findIndex(q => distance(p, q) < 0.5) === i);
+};
+
+// Internal Helper: Is `pos` within `tolerance` of any primitive of the shape?
+const isNearPrimitives = (pos: Point, prims: CurvePrimitives, tolerance: number, grid?: IntersectionGridConfig): boolean => {
+    if (prims.segments.some(([p1, p2]) => distance(pos, getClosestPointOnSegment(pos, p1, p2)) < tolerance)) return true;
+    if (prims.circles.some(c => Math.abs(distance(pos, c.center) - c.radius) < tolerance)) return true;
+    if (prims.ellipses.some(e => {
+        const local = e.rotation ? rotatePoint(pos, e.center, -e.rotation) : pos;
+        const angle = Math.atan2(local.y - e.center.y, local.x - e.center.x);
+        const onCurve = { x: e.center.x + e.rx * Math.cos(angle), y: e.center.y + e.ry * Math.sin(angle) };
+        return distance(local, onCurve) < tolerance;
+    })) return true;
+    if (grid) {
+        const originY = grid.originY ?? (grid.height / 2);
+        return prims.graphs.some(g => {
+            const mx = screenToMath(pos, grid.width, grid.height, grid.ppu, originY).x;
+            const my = evaluateFunctionGraph(g, mx);
+            // Vertical gap overestimates the true distance on steep graphs, so be generous here
+            return Math.abs(mathToScreen({ x: mx, y: my }, grid.width, grid.height, grid.ppu, originY).y - pos.y) < tolerance * 3;
+        });
+    }
+    return false;
+};
+
+/**
+ * Finds the crossing of two shapes closest to `pos` within `tolerance`.
+ * Used to bind a dropped point to both parents of an intersection.
+ */
+export const findIntersectionNear = (
+    pos: Point,
+    shapes: Shape[],
+    tolerance: number = 10,
+    grid?: IntersectionGridConfig
+): { point: Point; parents: [string, string] } | null => {
+    const candidates = shapes.filter(s => s.type !== ShapeType.POINT && isNearPrimitives(pos, getCurvePrimitives(s), tolerance, grid));
+
+    let best: { point: Point; parents: [string, string] } | null = null;
+    let bestDist = tolerance;
+    for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+            getShapeIntersections(candidates[i], candidates[j], grid).forEach(p => {
+                const d = distance(pos, p);
+                if (d < bestDist) {
+                    bestDist = d;
+                    best = { point: p, parents: [candidates[i].id, candidates[j].id] };
+                }
+            });
+        }
+    }
+    return best;
+};
+
 export const sub = (p1: Point, p2: Point): Point => ({ x: p1.x - p2.x, y: p1.y - p2.y });
 export const add = (p1: Point, p2: Point): Point => ({ x: p1.x + p2.x, y: p1.y + p2.y });
 export const lerp = (p1: Point, p2: Point, t: number): Point => ({
@@ -367,7 +1346,7 @@ export const isPointInShape = (
     shape: Shape, 
     canvasWidth?: number, 
     canvasHeight?: number, 
-    ppu?: number, 
+    ppu?: PixelsPerUnit, 
     originY?: number,
     hitTolerance?: number
 ): boolean => {
@@ -380,18 +1359,56 @@ export const isPointInShape = (
         if (!shape.points || shape.points.length === 0) return false;
         const v = shape.points[0];
         const d = distance(p, v);
+        // Side markers are anchored at the middle of their side
+        if (shape.markerConfig?.type === 'equal_tick' || shape.markerConfig?.type === 'parallel_arrow') return d <= 12;
         return d >= 15 && d <= 35; 
     }
+    if (shape.type === ShapeType.SLIDER) {
+        if (shape.points.length < 2) return false;
+        // The track, or the "name = value" label above its start
+        const a = shape.points[0];
+        const onTrack = distance(p, getClosestPointOnShape(p, { ...shape, type: ShapeType.LINE })) <= 10;
+        const onLabel = p.x >= a.x - 4 && p.x <= a.x + 90 && p.y >= a.y - 30 && p.y <= a.y - 6;
+        return onTrack || onLabel;
+    }
+    if (shape.type === ShapeType.DIMENSION) {
+        // Dimension labels are small text glyphs at their anchor points
+        return shape.points.some(anchor => distance(p, anchor) <= 12);
+    }
+    if (shape.type === ShapeType.MEASUREMENT) {
+        // Text centred on its anchor, roughly 7px per character
+        if (shape.points.length === 0) return false;
+        const halfWidth = (shape.text || '').length * 3.5 + 4;
+        return Math.abs(p.x - shape.points[0].x) <= halfWidth && Math.abs(p.y - shape.points[0].y) <= 10;
+    }
     if (shape.type === ShapeType.FUNCTION_GRAPH) {
-        if (!shape.formulaParams || !canvasWidth || !canvasHeight || !ppu) return false;
-        if (ppu <= 0) return false;
+        if (!isPlottableGraph(shape) || !canvasWidth || !canvasHeight || !ppu) return false;
+        if (!isValidScale(ppu)) return false;
         const mPos = screenToMath(p, canvasWidth, canvasHeight, ppu, originY);
-        const fType = shape.functionType || 'quadratic';
-        const expectedMY = evaluateQuadratic(mPos.x, shape.formulaParams, shape.functionForm, fType);
-        const expectedSP = mathToScreen({ x: mPos.x, y: expectedMY }, canvasWidth, canvasHeight, ppu, originY);
-        if (!isFinite(expectedSP.y)) return false;
         // Reduced tolerance for function graphs to avoid interfering with nearby shapes
-        return Math.abs(expectedSP.y - p.y) < Math.min(threshold, 8);
+        return getGraphPointsNear(shape, mPos).some(m => distance(mathToScreen(m, canvasWidth, canvasHeight, ppu, originY), p) < Math.min(threshold, 8));
+    }
+    if (shape.type === ShapeType.IMPLICIT_CURVE) {
+        if (!canvasWidth || !canvasHeight || !ppu) return false;
+        const closest = findClosestImplicitPoint(shape, p, canvasWidth, canvasHeight, ppu, originY);
+        return !!closest && closest.dist < Math.min(threshold, 8);
+    }
+    if (shape.type === ShapeType.PARAMETRIC_CURVE) {
+        if (!canvasWidth || !canvasHeight || !ppu) return false;
+        const closest = findClosestCurvePoint(shape, p, canvasWidth, canvasHeight, ppu, originY);
+        return !!closest && closest.dist < Math.min(threshold, 8);
+    }
+    if (shape.type === ShapeType.INEQUALITY_REGION) {
+        // Only the boundaries are hit: the fill covers much of the page and would swallow clicks on empty canvas
+        if (!canvasWidth || !canvasHeight || !ppu) return false;
+        return (getRegionConditions(shape) || []).some(({ sides: [left, right] }) => {
+            const boundary = { ...shape, type: ShapeType.IMPLICIT_CURVE, equation: `${left} = ${right}` };
+            const closest = findClosestImplicitPoint(boundary, p, canvasWidth, canvasHeight, ppu, originY);
+            return !!closest && closest.dist < Math.min(threshold, 8);
+        });
+    }
+    if (shape.type === ShapeType.AREA_REGION) {
+        return isPointInPolygon(p, shape.points);
     }
     if (shape.type === ShapeType.POINT) {
          return distance(p, shape.points[0]) < Math.max(10, shape.strokeWidth + 5 + (hitTolerance || 0));
@@ -818,16 +1835,40 @@ export const recognizeFreehandShape = (points: Point[]): { type: ShapeType, poin
     return { type: ShapeType.ELLIPSE, points: [{x: minX, y: minY}, {x: maxX, y: maxY}] };
 };
 
+// Spacing between the repeated ticks, arrowheads or arcs of one marker (double/triple marks)
+const MARKER_REPEAT_GAP = 5;
+
 export const recalculateMarker = (marker: Shape, allShapes: Shape[]): Shape | null => {
     if (!marker.markerConfig) return marker;
     const config = marker.markerConfig;
     const target = allShapes.find(s => s.id === config.targets[0].shapeId);
     if (!target) return null;
     const indices = config.targets[0].pointIndices;
+    const corners = getRotatedCorners(target);
+    const count = config.count || 1;
+
+    // Side markers: ticks across the middle of the side, or arrowheads pointing along it
+    if (config.type === 'equal_tick' || config.type === 'parallel_arrow') {
+        if (!indices || indices.length < 2) return marker;
+        const a = corners[indices[0]], b = corners[indices[1]];
+        if (!a || !b) return null;
+        const mid = lerp(a, b, 0.5);
+        const dir = normalize(sub(b, a));
+        const n = { x: -dir.y, y: dir.x };
+        const marks = Array.from({ length: count }, (_, i) => {
+            const offset = (i - (count - 1) / 2) * MARKER_REPEAT_GAP;
+            const c = { x: mid.x + dir.x * offset, y: mid.y + dir.y * offset };
+            if (config.type === 'equal_tick') return `M ${c.x + n.x * 6} ${c.y + n.y * 6} L ${c.x - n.x * 6} ${c.y - n.y * 6}`;
+            const back = { x: c.x - dir.x * 5, y: c.y - dir.y * 5 };
+            return `M ${back.x + n.x * 5} ${back.y + n.y * 5} L ${c.x} ${c.y} L ${back.x - n.x * 5} ${back.y - n.y * 5}`;
+        });
+        return { ...marker, points: [mid], pathData: marks.join(' ') };
+    }
+
     if (!indices || indices.length < 3) return marker;
-    const p1 = target.points[indices[0]];
-    const p2 = target.points[indices[1]]; 
-    const p3 = target.points[indices[2]];
+    const p1 = corners[indices[0]];
+    const p2 = corners[indices[1]]; 
+    const p3 = corners[indices[2]];
     if (!p1 || !p2 || !p3) return null;
     const len = 20; 
     const v1 = normalize(sub(p1, p2));
@@ -842,32 +1883,37 @@ export const recalculateMarker = (marker: Shape, allShapes: Shape[]): Shape | nu
     } else {
         const a1 = getAngleDegrees(p2, p1);
         const a2 = getAngleDegrees(p2, p3);
-        const path = getAngleArcPath(p2, p1, p3, len, a1, a2);
+        // Equal angles: one, two or three concentric arcs
+        const path = Array.from({ length: count }, (_, i) => getAngleArcPath(p2, p1, p3, len + i * MARKER_REPEAT_GAP, a1, a2)).join(' ');
         return { ...marker, points: [start], pathData: path };
     }
 };
 
+// Shapes that annotate the figure rather than being part of it; never snapped to
+const ANNOTATION_TYPES = [ShapeType.MARKER, ShapeType.DIMENSION, ShapeType.SLIDER, ShapeType.MEASUREMENT];
+
 export const getSnapPoint = (
     pos: Point, 
     shapes: Shape[], 
     excludeIds: string[] = [], 
-    gridConfig?: { width: number, height: number, ppu: number, originY?: number }
-): { point: Point, snapped: boolean, constraint?: Constraint, type?: 'endpoint' | 'midpoint' | 'center' | 'on_edge' } => {
+    gridConfig?: IntersectionGridConfig,
+    gridStep?: Point // Math units per grid square; snaps to tenths of a square when given (the grid is shown)
+): { point: Point, snapped: boolean, constraint?: Constraint, type?: 'endpoint' | 'midpoint' | 'center' | 'on_edge' | 'intersection' } => {
     let closestDist = 10; 
     let snapPt = pos;
     let snapped = false;
     let constraint: Constraint | undefined = undefined;
-    let snapType: 'endpoint' | 'midpoint' | 'center' | 'on_edge' | undefined = undefined;
+    let snapType: 'endpoint' | 'midpoint' | 'center' | 'on_edge' | 'intersection' | undefined = undefined;
 
-    if (gridConfig) {
-        const { ppu } = gridConfig;
-        // SNAPPING IMPROVED: Snap to 0.1 unit increments (ppu / 10)
+    if (gridConfig && gridStep) {
+        const { width, height, ppu, originY } = gridConfig;
+        // SNAPPING IMPROVED: Snap to tenths of a grid square (0.1 unit increments at the default step)
         // This matches the ruler's sub-ticks.
-        const step = ppu / 10;
-        const gx = Math.round(pos.x / step) * step;
-        const gy = Math.round(pos.y / step) * step;
-        if (Math.abs(gx - pos.x) < 5 && Math.abs(gy - pos.y) < 5) {
-             snapPt = { x: gx, y: gy };
+        const stepX = gridStep.x / 10, stepY = gridStep.y / 10;
+        const m = screenToMath(pos, width, height, ppu, originY);
+        const g = mathToScreen({ x: Math.round(m.x / stepX) * stepX, y: Math.round(m.y / stepY) * stepY }, width, height, ppu, originY);
+        if (Math.abs(g.x - pos.x) < 5 && Math.abs(g.y - pos.y) < 5) {
+             snapPt = g;
              closestDist = 5; 
              snapped = true;
         }
@@ -875,6 +1921,10 @@ export const getSnapPoint = (
 
     for (const shape of shapes) {
         if (excludeIds.includes(shape.id)) continue;
+        // Annotations (labels, sliders) are not geometry
+        if (ANNOTATION_TYPES.includes(shape.type)) continue;
+        // Areas are shading: nothing on their outline to snap to
+        if (shape.type === ShapeType.AREA_REGION) continue;
         
         // 1. POINT PRIORITY: We check points first
         if (shape.type === ShapeType.POINT) {
@@ -959,17 +2009,44 @@ export const getSnapPoint = (
         }
 
         if (shape.type === ShapeType.FUNCTION_GRAPH) {
-             if (shape.formulaParams && gridConfig) {
+             if (isPlottableGraph(shape) && gridConfig) {
                  const originY = gridConfig.originY ?? (gridConfig.height / 2);
                  const mp = screenToMath(pos, gridConfig.width, gridConfig.height, gridConfig.ppu, originY);
-                 const fType = shape.functionType || 'quadratic';
-                 const my = evaluateQuadratic(mp.x, shape.formulaParams, shape.functionForm, fType);
-                 const sp = mathToScreen({ x: mp.x, y: my }, gridConfig.width, gridConfig.height, gridConfig.ppu, originY);
-                 if (distance(pos, sp) < closestDist) {
-                     snapPt = sp;
-                     closestDist = distance(pos, sp);
+                 getGraphPointsNear(shape, mp).forEach(m => {
+                     const sp = mathToScreen(m, gridConfig.width, gridConfig.height, gridConfig.ppu, originY);
+                     if (distance(pos, sp) < closestDist) {
+                         snapPt = sp;
+                         closestDist = distance(pos, sp);
+                         snapped = true;
+                         constraint = { type: 'on_path', parentId: shape.id, paramX: m.x };
+                     }
+                 });
+             }
+             continue;
+        }
+
+        if (shape.type === ShapeType.IMPLICIT_CURVE) {
+             // There is no parameter to bind a point to, so this only snaps the position
+             if (gridConfig) {
+                 const closest = findClosestImplicitPoint(shape, pos, gridConfig.width, gridConfig.height, gridConfig.ppu, gridConfig.originY);
+                 if (closest && closest.dist < closestDist) {
+                     snapPt = closest.point;
+                     closestDist = closest.dist;
+                     snapped = true;
+                     constraint = undefined;
+                 }
+             }
+             continue;
+        }
+
+        if (shape.type === ShapeType.PARAMETRIC_CURVE) {
+             if (gridConfig) {
+                 const closest = findClosestCurvePoint(shape, pos, gridConfig.width, gridConfig.height, gridConfig.ppu, gridConfig.originY);
+                 if (closest && closest.dist < closestDist) {
+                     snapPt = closest.point;
+                     closestDist = closest.dist;
                      snapped = true;
-                     constraint = { type: 'on_path', parentId: shape.id, paramX: mp.x };
+                     constraint = { type: 'on_path', parentId: shape.id, paramT: closest.u };
                  }
              }
              continue;
@@ -1040,6 +2117,23 @@ export const getSnapPoint = (
             }
         }
     }
+
+    // 4. INTERSECTIONS: A crossing beats edges/midpoints/grid, but an existing point or vertex
+    // sitting on it keeps priority so we don't create a duplicate point there.
+    const crossing = findIntersectionNear(pos, shapes.filter(s => !excludeIds.includes(s.id)), 10, gridConfig);
+    const occupant = crossing && shapes.find(s => s.type === ShapeType.POINT && !excludeIds.includes(s.id) && distance(s.points[0], crossing.point) < 1);
+    if (occupant) {
+        snapPt = occupant.points[0];
+        snapped = true;
+        snapType = 'endpoint';
+        constraint = { type: 'points_link', parentId: occupant.id };
+    } else if (crossing && (snapType !== 'endpoint' || distance(pos, crossing.point) < closestDist)) {
+        snapPt = crossing.point;
+        snapped = true;
+        snapType = 'intersection';
+        constraint = { type: 'intersection', parents: crossing.parents };
+    }
+
     return { point: snapPt, snapped, constraint, type: snapType };
 };
 
@@ -0,0 +1,190 @@
+import { Shape, ShapeType, Point, MeasurementConfig } from '../types';
+import { getRotatedCorners, getShapeCenter, distance } from './mathUtils';
+
+/**
+ * Live measurement annotations (length, perimeter, area, angle). A measurement is a text shape
+ * whose constraint lists its targets, so the solver re-evaluates it whenever they change.
+ */
+
+const POLYGON_TYPES = [ShapeType.TRIANGLE, ShapeType.POLYGON, ShapeType.RECTANGLE, ShapeType.SQUARE];
+const ROUND_TYPES = [ShapeType.CIRCLE, ShapeType.ELLIPSE];
+
+export const MEASUREMENT_PRECISIONS = [0, 1, 2, 3];
+
+export const canMeasureArea = (s: Shape) => POLYGON_TYPES.includes(s.type) || ROUND_TYPES.includes(s.type);
+
+// Internal Helper: Name of a point shape, or of vertex `i` of a labelled shape
+const vertexLabel = (s: Shape | undefined, i: number = 0) => s?.labels?.[i] || '';
+
+// Internal Helper: Names of both ends of a segment (a labelled line, or the points it is glued to)
+const segmentName = (line: Shape, getShape: (id: string) => Shape | undefined) => {
+    const ends = [0, 1].map(i => {
+        const pid = line.constraint?.type === 'points_link' ? line.constraint.parents?.[i] : undefined;
+        return vertexLabel(line, i) || vertexLabel(pid ? getShape(pid) : undefined);
+    });
+    return ends.every(Boolean) ? ends.join('') : '';
+};
+
+const polygonArea = (pts: Point[]) => {
+    let sum = 0;
+    for (let i = 0; i < pts.length; i++) {
+        const a = pts[i], b = pts[(i + 1) % pts.length];
+        sum += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(sum) / 2;
+};
+
+const polygonPerimeter = (pts: Point[]) => pts.reduce((sum, p, i) => sum + distance(p, pts[(i + 1) % pts.length]), 0);
+
+const angleAt = (a: Point, v: Point, c: Point) => {
+    const u = { x: a.x - v.x, y: a.y - v.y }, w = { x: c.x - v.x, y: c.y - v.y };
+    const lu = Math.hypot(u.x, u.y), lw = Math.hypot(w.x, w.y);
+    if (lu === 0 || lw === 0) return 0;
+    return Math.acos(Math.max(-1, Math.min(1, (u.x * w.x + u.y * w.y) / (lu * lw)))) * 180 / Math.PI;
+};
+
+// Internal Helper: Label position inside an angle, along its bisector
+const insideAngle = (a: Point, v: Point, c: Point, offset: number): Point => {
+    const lu = distance(a, v) || 1, lw = distance(c, v) || 1;
+    const bis = { x: (a.x - v.x) / lu + (c.x - v.x) / lw, y: (a.y - v.y) / lu + (c.y - v.y) / lw };
+    const lb = Math.hypot(bis.x, bis.y) || 1;
+    return { x: v.x + (bis.x / lb) * offset, y: v.y + (bis.y / lb) * offset };
+};
+
+// Internal Helper: Label position beside a segment, on the side away from `away`
+const besideSegment = (p: Point, q: Point, away?: Point): Point => {
+    const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+    const len = distance(p, q) || 1;
+    let n = { x: -(q.y - p.y) / len, y: (q.x - p.x) / len };
+    if (away && (away.x - mid.x) * n.x + (away.y - mid.y) * n.y > 0) n = { x: -n.x, y: -n.y };
+    return { x: mid.x + n.x * 16, y: mid.y + n.y * 16 };
+};
+
+/**
+ * Current value (grid units, square units or degrees), label name and default anchor of a measurement.
+ */
+export const computeMeasurement = (
+    config: MeasurementConfig,
+    getShape: (id: string) => Shape | undefined,
+    pixelsPerUnit: number
+): { value: number; name: string; anchor: Point } | null => {
+    const target = config.targetId ? getShape(config.targetId) : undefined;
+
+    if (config.type === 'angle') {
+        let pts: Point[] | null = null;
+        let name = '';
+        if (target && POLYGON_TYPES.includes(target.type) && config.index !== undefined) {
+            const corners = getRotatedCorners(target);
+            const n = corners.length, i = config.index;
+            if (i >= n) return null;
+            pts = [corners[(i - 1 + n) % n], corners[i], corners[(i + 1) % n]];
+            name = vertexLabel(target, i);
+        } else if (config.pointIds && config.pointIds.length === 3) {
+            const shapes = config.pointIds.map(id => getShape(id));
+            if (shapes.some(s => !s || s.points.length === 0)) return null;
+            pts = shapes.map(s => s!.points[0]);
+            name = shapes.map(s => vertexLabel(s)).every(Boolean) ? shapes.map(s => vertexLabel(s)).join('') : vertexLabel(shapes[1]);
+        }
+        if (!pts) return null;
+        return { value: angleAt(pts[0], pts[1], pts[2]), name: `∠${name}`, anchor: insideAngle(pts[0], pts[1], pts[2], 36) };
+    }
+
+    if (!target) return null;
+    const center = getShapeCenter(target.points, target.type);
+
+    if (config.type === 'length') {
+        if (target.type === ShapeType.LINE && target.points.length >= 2) {
+            const [p, q] = target.rotation ? getRotatedCorners(target) : target.points;
+            return { value: distance(p, q) / pixelsPerUnit, name: segmentName(target, getShape) || 'd', anchor: besideSegment(p, q) };
+        }
+        if (POLYGON_TYPES.includes(target.type) && config.index !== undefined) {
+            const corners = getRotatedCorners(target);
+            const i = config.index, j = (i + 1) % corners.length;
+            if (i >= corners.length) return null;
+            const name = vertexLabel(target, i) && vertexLabel(target, j) ? vertexLabel(target, i) + vertexLabel(target, j) : 'd';
+            return { value: distance(corners[i], corners[j]) / pixelsPerUnit, name, anchor: besideSegment(corners[i], corners[j], center) };
+        }
+        return null;
+    }
+
+    // Perimeter and area of a closed shape; the label sits at its center
+    if (ROUND_TYPES.includes(target.type)) {
+        const rx = Math.abs(target.points[1].x - target.points[0].x) / 2 / pixelsPerUnit;
+        const ry = target.type === ShapeType.CIRCLE ? rx : Math.abs(target.points[1].y - target.points[0].y) / 2 / pixelsPerUnit;
+        const value = config.type === 'area'
+            ? Math.PI * rx * ry
+            // Ramanujan's approximation (exact for circles)
+            : Math.PI * (3 * (rx + ry) - Math.sqrt((3 * rx + ry) * (rx + 3 * ry)));
+        return { value, name: config.type === 'area' ? 'S⊙' : 'C⊙', anchor: center };
+    }
+    if (POLYGON_TYPES.includes(target.type)) {
+        const corners = getRotatedCorners(target);
+        if (corners.length < 3) return null;
+        const names = corners.map((_, i) => vertexLabel(target, i));
+        const symbol = target.type === ShapeType.TRIANGLE ? '△' : '';
+        const name = names.every(Boolean) ? `${symbol}${names.join('')}` : symbol;
+        const value = config.type === 'area'
+            ? polygonArea(corners) / (pixelsPerUnit * pixelsPerUnit)
+            : polygonPerimeter(corners) / pixelsPerUnit;
+        const centroid = { x: corners.reduce((s, p) => s + p.x, 0) / corners.length, y: corners.reduce((s, p) => s + p.y, 0) / corners.length };
+        return { value, name: `${config.type === 'area' ? 'S' : 'C'}${name}`, anchor: centroid };
+    }
+    return null;
+};
+
+export const formatMeasurement = (name: string, value: number, config: MeasurementConfig) => {
+    const factor = Math.pow(10, config.precision);
+    const rounded = Math.round(value * factor) / factor;
+    return `${name} = ${rounded}${config.type === 'angle' ? '°' : ''}`;
+};
+
+/**
+ * Recomputes the text and position of a measurement shape. Returns null if nothing changed
+ * (or the target is gone, in which case the last value is kept).
+ */
+export const evaluateMeasurement = (shape: Shape, getShape: (id: string) => Shape | undefined, pixelsPerUnit: number): Shape | null => {
+    if (!shape.measurement) return null;
+    const result = computeMeasurement(shape.measurement, getShape, pixelsPerUnit);
+    if (!result) return null;
+    const offset = shape.measurement.offset || { x: 0, y: 0 };
+    const pos = { x: result.anchor.x + offset.x, y: result.anchor.y + offset.y };
+    const text = formatMeasurement(result.name, result.value, shape.measurement);
+    if (text === shape.text && shape.points[0] && distance(pos, shape.points[0]) < 0.01) return null;
+    return { ...shape, points: [pos], text };
+};
+
+export const createMeasurementShape = (
+    id: string,
+    config: MeasurementConfig,
+    getShape: (id: string) => Shape | undefined,
+    pixelsPerUnit: number,
+    stroke: string
+): Shape | null => {
+    const parents = config.targetId ? [config.targetId] : (config.pointIds || []);
+    const base: Shape = {
+        id,
+        type: ShapeType.MEASUREMENT,
+        points: [],
+        text: '',
+        fill: 'none',
+        stroke,
+        strokeWidth: 1,
+        rotation: 0,
+        measurement: config,
+        constraint: { type: 'measurement', parents }
+    };
+    return evaluateMeasurement(base, getShape, pixelsPerUnit);
+};
+
+/**
+ * Keeps a dragged label where the user dropped it, relative to its default anchor.
+ */
+export const moveMeasurementLabel = (shape: Shape, dx: number, dy: number): Shape => {
+    if (!shape.measurement) return shape;
+    const offset = shape.measurement.offset || { x: 0, y: 0 };
+    return {
+        ...shape,
+        points: shape.points.map(p => ({ x: p.x + dx, y: p.y + dy })),
+        measurement: { ...shape.measurement, offset: { x: offset.x + dx, y: offset.y + dy } }
+    };
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { tabulateGraph, fitRegression, createTablePoints, createRegressionGraph } from './regression';
+import { evaluateFunctionGraph } from './mathUtils';
+import { createTestShape } from './testShapes';
+import { ShapeType } from '../types';
+
+describe('Regression', () => {
+    const sqrt = createTestShape('g', { functionType: 'expression', expression: 'sqrt(x)', expressionScope: {} });
+
+    it('should tabulate graphs, leaving undefined values as NaN', () => {
+        const parabola = createTestShape('f', { functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: 0, c: -1 } });
+        expect(tabulateGraph(parabola, [-1, 0, 2]).map(p => p.y)).toEqual([0, -1, 3]);
+        expect(tabulateGraph(sqrt, [-1])[0].y).toBeNaN();
+    });
+
+    it('should bind table points to the graph by x and skip undefined rows', () => {
+        let ids = 0;
+        const points = createTablePoints(sqrt, [-1, 4], 1000, 1000, 20, undefined, () => `t${ids++}`);
+        expect(points).toHaveLength(1);
+        expect(points[0].constraint).toEqual({ type: 'on_path', parentId: 'g', paramX: 4 });
+        expect(points[0].points[0]).toEqual({ x: 580, y: 460 });
+    });
+
+    it('should fit exact data', () => {
+        const line = fitRegression([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }], 'linear')!;
+        expect(line.formulaParams.k).toBeCloseTo(2, 10);
+        expect(line.formulaParams.b).toBeCloseTo(1, 10);
+        expect(line.r2).toBeCloseTo(1);
+        const quad = fitRegression([-2, -1, 0, 1, 3].map(x => ({ x, y: x * x - 1 })), 'quadratic')!;
+        expect(quad.formulaParams.a).toBeCloseTo(1, 10);
+        expect(quad.formulaParams.b).toBeCloseTo(0, 10);
+        expect(quad.formulaParams.c).toBeCloseTo(-1, 10);
+        expect(quad.formulaParams.k).toBeCloseTo(-1, 10);
+    });
+
+    it('should fit noisy data by least squares and refuse too few distinct x values', () => {
+        const noisy = fitRegression([{ x: 0, y: 0 }, { x: 1, y: 2 }, { x: 2, y: 1 }, { x: 3, y: 3 }], 'linear')!;
+        expect(noisy.formulaParams.k).toBeCloseTo(0.8, 10);
+        expect(noisy.formulaParams.b).toBeCloseTo(0.3, 10);
+        expect(noisy.r2).toBeCloseTo(0.64);
+        expect(fitRegression([{ x: 1, y: 1 }, { x: 1, y: 2 }, { x: 2, y: 0 }], 'quadratic')).toBeNull();
+    });
+
+    it('should fit data at large x, like years, as well as the same data near zero', () => {
+        const data = [{ x: 2000, y: 1 }, { x: 2001, y: 3 }, { x: 2002, y: 5 }, { x: 2003, y: 6 }];
+        const years = fitRegression(data, 'quadratic')!;
+        const shifted = fitRegression(data.map(p => ({ x: p.x - 2000, y: p.y })), 'quadratic')!;
+        expect(years.formulaParams.a).toBeCloseTo(-0.25, 8);
+        expect(years.formulaParams.h! - 2000).toBeCloseTo(shifted.formulaParams.h!, 6);
+        expect(years.formulaParams.k).toBeCloseTo(shifted.formulaParams.k!, 6);
+        expect(years.r2).toBeCloseTo(shifted.r2, 8);
+        expect(years.r2).toBeGreaterThan(0.98);
+        const graph = createRegressionGraph('r', years, '#000', 1000, 1000, 20);
+        data.forEach(p => expect(evaluateFunctionGraph(graph, p.x)).toBeCloseTo(p.y, 0));
+    });
+
+    it('should keep small coefficients instead of rounding them away', () => {
+        const line = fitRegression([{ x: 0, y: 0 }, { x: 1, y: 1e-5 }, { x: 2, y: 2e-5 }], 'linear')!;
+        expect(line.formulaParams.k).toBeCloseTo(1e-5, 12);
+        expect(line.formulaParams.b).toBeCloseTo(0, 12);
+        expect(line.r2).toBeCloseTo(1, 8);
+    });
+
+    it('should build a function graph from a fit', () => {
+        const line = fitRegression([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }], 'linear')!;
+        const graph = createRegressionGraph('r', line, '#000', 1000, 1000, 20);
+        expect(graph.type).toBe(ShapeType.FUNCTION_GRAPH);
+        expect(evaluateFunctionGraph(graph, 2)).toBeCloseTo(5, 10);
+        expect(graph.pathData).toBeTruthy();
+    });
+});
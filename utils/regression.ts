@@ -0,0 +1,150 @@
+import { Shape, ShapeType, Point, PixelsPerUnit } from '../types';
+import { evaluateFunctionGraph, mathToScreen, generateFunctionPath, standardToVertex } from './mathUtils';
+
+/**
+ * Tables of values and regression. A graph is tabulated in math units at chosen x values, and its rows
+ * can be plotted as points bound to the graph. A table of (x, y) data is plotted as free points and
+ * fitted by least squares with a line or a parabola, which becomes an ordinary function graph with the
+ * fitted coefficients.
+ */
+
+export type RegressionKind = 'linear' | 'quadratic';
+
+export interface RegressionFit {
+    kind: RegressionKind;
+    formulaParams: NonNullable<Shape['formulaParams']>;
+    r2: number; // Coefficient of determination: 1 when the curve passes through every point
+}
+
+/**
+ * y (math units) of a graph at each x; NaN where the function is undefined.
+ */
+export const tabulateGraph = (graph: Shape, xs: number[]): Point[] => xs.map(x => ({ x, y: evaluateFunctionGraph(graph, x) }));
+
+// Internal Helper: Solves m·v = rhs by Gaussian elimination with partial pivoting; null if m is singular
+const solveLinearSystem = (m: number[][], rhs: number[]): number[] | null => {
+    const n = rhs.length;
+    const rows = m.map((row, i) => [...row, rhs[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+        if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const factor = rows[r][col] / rows[col][col];
+            for (let c = col; c <= n; c++) rows[r][c] -= factor * rows[col][c];
+        }
+    }
+    return rows.map((row, i) => row[n] / row[i]);
+};
+
+/**
+ * Least-squares line (y = kx + b) or parabola (y = ax² + bx + c) through the data, with both forms
+ * of a parabola filled in. Null without enough distinct x values to determine the curve.
+ */
+export const fitRegression = (data: Point[], kind: RegressionKind): RegressionFit | null => {
+    const points = data.filter(p => isFinite(p.x) && isFinite(p.y));
+    const degree = kind === 'linear' ? 1 : 2;
+    if (new Set(points.map(p => p.x)).size <= degree) return null;
+
+    // Normal equations in u = (x − mean) / spread, which stay well conditioned for x like years:
+    // Σ u^(i+j) · d_j = Σ u^i · y
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const spread = Math.max(...points.map(p => Math.abs(p.x - meanX)));
+    const us = points.map(p => (p.x - meanX) / spread);
+    const powers = Array.from({ length: degree + 1 }, (_, i) => i);
+    const m = powers.map(i => powers.map(j => us.reduce((sum, u) => sum + u ** (i + j), 0)));
+    const rhs = powers.map(i => points.reduce((sum, p, n) => sum + us[n] ** i * p.y, 0));
+    const d = solveLinearSystem(m, rhs);
+    if (!d) return null;
+
+    // Back to powers of x: y = d0 + d1·u + d2·u² with u = (x − mean) / spread
+    const d2 = d[2] ?? 0;
+    const a = d2 / spread ** 2;
+    const b = d[1] / spread - 2 * a * meanX;
+    const c = d[0] - (d[1] / spread) * meanX + a * meanX ** 2;
+
+    const predict = (x: number) => (a * x + b) * x + c;
+    const mean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const ssTotal = points.reduce((sum, p) => sum + (p.y - mean) ** 2, 0);
+    const ssResidual = points.reduce((sum, p) => sum + (p.y - predict(p.x)) ** 2, 0);
+    const r2 = ssTotal === 0 ? (ssResidual < 1e-12 ? 1 : 0) : 1 - ssResidual / ssTotal;
+
+    if (kind === 'linear') return { kind, formulaParams: { k: b, b: c }, r2 };
+    const { h, k } = standardToVertex(a, b, c);
+    return { kind, formulaParams: { a, b, c, h, k }, r2 };
+};
+
+/**
+ * Points on a graph at the x values of its table, bound to it by x so they follow coefficient changes.
+ * x values where the graph is undefined are skipped.
+ */
+export const createTablePoints = (
+    graph: Shape,
+    xs: number[],
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY: number | undefined,
+    makeId: () => string
+): Shape[] =>
+    tabulateGraph(graph, xs).filter(p => isFinite(p.y)).map(p => ({
+        id: makeId(),
+        type: ShapeType.POINT,
+        points: [mathToScreen(p, canvasWidth, canvasHeight, pixelsPerUnit, originY)],
+        fill: graph.stroke,
+        stroke: graph.stroke,
+        strokeWidth: 2,
+        rotation: 0,
+        constraint: { type: 'on_path', parentId: graph.id, paramX: p.x }
+    }));
+
+/**
+ * Free points at the (x, y) data, in math units.
+ */
+export const createDataPoints = (
+    data: Point[],
+    stroke: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY: number | undefined,
+    makeId: () => string
+): Shape[] =>
+    data.filter(p => isFinite(p.x) && isFinite(p.y)).map(p => ({
+        id: makeId(),
+        type: ShapeType.POINT,
+        points: [mathToScreen(p, canvasWidth, canvasHeight, pixelsPerUnit, originY)],
+        fill: stroke,
+        stroke,
+        strokeWidth: 2,
+        rotation: 0
+    }));
+
+/**
+ * The fitted curve (see fitRegression) as a function graph in standard form.
+ */
+export const createRegressionGraph = (
+    id: string,
+    fit: RegressionFit,
+    stroke: string,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape => {
+    const graph: Shape = {
+        id,
+        type: ShapeType.FUNCTION_GRAPH,
+        points: [],
+        functionType: fit.kind,
+        functionForm: 'standard',
+        formulaParams: fit.formulaParams,
+        fill: 'none',
+        stroke,
+        strokeWidth: 2,
+        rotation: 0
+    };
+    return { ...graph, pathData: generateFunctionPath(graph, canvasWidth, canvasHeight, pixelsPerUnit, originY) };
+};
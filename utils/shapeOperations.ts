@@ -1,9 +1,9 @@
 
-import { Shape, ShapeType, Point } from '../types';
+import { Shape, ShapeType, Point, PixelsPerUnit } from '../types';
 import { 
     isPointInShape, distance, getClosestPointOnShape, getRotatedCorners, 
-    rotatePoint, getShapeCenter, generateQuadraticPath,
-    vertexToStandard
+    rotatePoint, getShapeCenter, generateFunctionPath,
+    vertexToStandard, getAxisScale
 } from './mathUtils';
 
 /**
@@ -14,12 +14,12 @@ export const getHitShape = (
     shapesList: Shape[], 
     canvasWidth: number, 
     canvasHeight: number, 
-    pixelsPerUnit: number,
+    pixelsPerUnit: PixelsPerUnit,
     originY?: number,
     hitTolerance?: number
 ): Shape | null => {
     const preFiltered = shapesList.filter(s => {
-        if ([ShapeType.POINT, ShapeType.MARKER, ShapeType.RULER, ShapeType.PROTRACTOR, ShapeType.FUNCTION_GRAPH, ShapeType.TEXT].includes(s.type)) return true;
+        if ([ShapeType.POINT, ShapeType.MARKER, ShapeType.DIMENSION, ShapeType.SLIDER, ShapeType.MEASUREMENT, ShapeType.RULER, ShapeType.PROTRACTOR, ShapeType.FUNCTION_GRAPH, ShapeType.PARAMETRIC_CURVE, ShapeType.IMPLICIT_CURVE, ShapeType.INEQUALITY_REGION, ShapeType.AREA_REGION, ShapeType.TEXT].includes(s.type)) return true;
         
         // FIX: Use getRotatedCorners to calculate the actual visual Axis-Aligned Bounding Box (AABB)
         // This solves the issue where Text shapes (defined by 1 point) or Rotated shapes
@@ -66,12 +66,13 @@ export const getHitShape = (
 
     return hits.sort((a, b) => {
         const getPriority = (s: Shape) => {
-             if (s.type === ShapeType.POINT || s.type === ShapeType.MARKER) return 0;
+             if (s.type === ShapeType.POINT || s.type === ShapeType.MARKER || s.type === ShapeType.DIMENSION || s.type === ShapeType.SLIDER || s.type === ShapeType.MEASUREMENT) return 0;
              if (s.type === ShapeType.RULER || s.type === ShapeType.PROTRACTOR) return 1;
-             if (s.type === ShapeType.LINE || s.type === ShapeType.PATH || s.type === ShapeType.FUNCTION_GRAPH || s.type === ShapeType.FREEHAND) return 2;
+             if (s.type === ShapeType.LINE || s.type === ShapeType.PATH || s.type === ShapeType.FUNCTION_GRAPH || s.type === ShapeType.PARAMETRIC_CURVE || s.type === ShapeType.IMPLICIT_CURVE || s.type === ShapeType.FREEHAND) return 2;
              if (s.type === ShapeType.TEXT) return 3;
              if ([ShapeType.RECTANGLE, ShapeType.SQUARE, ShapeType.CIRCLE, ShapeType.ELLIPSE, ShapeType.TRIANGLE, ShapeType.POLYGON].includes(s.type)) return 4;
-             if (s.type === ShapeType.IMAGE) return 5;
+             // Regions cover large areas, so anything drawn on them wins
+             if (s.type === ShapeType.IMAGE || s.type === ShapeType.INEQUALITY_REGION || s.type === ShapeType.AREA_REGION) return 5;
              return 4;
         };
 
@@ -145,7 +146,7 @@ export const calculateResizedShape = (
     // and reset rotation to 0.
     const isVertexShape = !groupBounds && (
         shape.type === ShapeType.TRIANGLE || 
-        [ShapeType.POLYGON, ShapeType.LINE, ShapeType.PATH, ShapeType.FREEHAND, ShapeType.POINT].includes(shape.type)
+        [ShapeType.POLYGON, ShapeType.LINE, ShapeType.PATH, ShapeType.FREEHAND, ShapeType.POINT, ShapeType.SLIDER].includes(shape.type)
     );
 
     if (isVertexShape) {
@@ -316,15 +317,19 @@ export const calculateMovedShape = (
     shape: Shape,
     dx: number,
     dy: number,
-    pixelsPerUnit: number,
+    pixelsPerUnit: PixelsPerUnit,
     drivingPoints: Point[] = [],
     canvasWidth?: number,
     canvasHeight?: number,
     originY?: number
 ): Shape => {
+    // An expression graph is defined by its text alone, and y = k/x keeps its asymptotes on the axes
+    // (its handle changes k), so there is nothing to drag
+    if (shape.type === ShapeType.FUNCTION_GRAPH && (shape.functionType === 'expression' || shape.functionType === 'inverse')) return shape;
     if (shape.type === ShapeType.FUNCTION_GRAPH && shape.formulaParams) {
-        const dmx = dx / pixelsPerUnit;
-        const dmy = -dy / pixelsPerUnit;
+        const scale = getAxisScale(pixelsPerUnit, canvasWidth ?? 0);
+        const dmx = dx / scale.x;
+        const dmy = -dy / scale.y;
         const params = { ...shape.formulaParams };
         
         if (shape.functionType === 'linear') { 
@@ -349,15 +354,7 @@ export const calculateMovedShape = (
         
         let pathData = shape.pathData;
         if (canvasWidth && canvasHeight) {
-             pathData = generateQuadraticPath(
-                 params, 
-                 shape.functionForm || 'standard', 
-                 canvasWidth, 
-                 canvasHeight, 
-                 pixelsPerUnit, 
-                 shape.functionType || 'quadratic', 
-                 originY
-             );
+             pathData = generateFunctionPath({ ...shape, formulaParams: params }, canvasWidth, canvasHeight, pixelsPerUnit, originY);
         }
 
         return { ...shape, formulaParams: params, pathData };
@@ -0,0 +1,212 @@
+import { Shape, ShapeType, Point, SliderConfig, FormulaParamKey, ConstraintParamKey, PixelsPerUnit } from '../types';
+import { generateFunctionPath, redrawFormulaShape, curveArgument, standardToVertex, vertexToStandard, lerp } from './mathUtils';
+import { renameExpressionVariable } from './expressionParser';
+
+/**
+ * Slider parameters: named numbers drawn on the canvas. Function coefficients (`sliderBindings`)
+ * and constraint parameters (`constraint.sliderBindings`) reference them by name, and the
+ * dependency graph links each slider to the shapes that use it.
+ */
+
+export const SLIDER_TRACK_LENGTH = 200;
+export const SLIDER_KNOB_RADIUS = 7;
+
+const SLIDER_NAMES = ['a', 'b', 'c', 'k', 'm', 'n', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w'];
+
+export const getSliders = (shapes: Shape[]): Shape[] =>
+    shapes.filter(s => s.type === ShapeType.SLIDER && s.slider);
+
+export const findSliderByName = (shapes: Shape[], name: string): Shape | undefined =>
+    shapes.find(s => s.type === ShapeType.SLIDER && s.slider?.name === name);
+
+export const getNextSliderName = (shapes: Shape[]): string => {
+    const used = new Set(getSliders(shapes).map(s => s.slider!.name));
+    const free = SLIDER_NAMES.find(n => !used.has(n));
+    if (free) return free;
+    let i = 1;
+    while (used.has(`s${i}`)) i++;
+    return `s${i}`;
+};
+
+export const createSlider = (id: string, name: string, start: Point, stroke: string): Shape => ({
+    id,
+    type: ShapeType.SLIDER,
+    points: [start, { x: start.x + SLIDER_TRACK_LENGTH, y: start.y }],
+    slider: { name, min: -5, max: 5, step: 0.1, value: 1 },
+    fill: 'none',
+    stroke,
+    strokeWidth: 2,
+    rotation: 0
+});
+
+// Number of decimals of the step, so values do not accumulate float noise (0.30000000000000004)
+const stepDecimals = (step: number) => {
+    const text = step.toString();
+    return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+/**
+ * Clamps a value into the slider range and snaps it to the step grid.
+ */
+export const snapSliderValue = (config: SliderConfig, value: number): number => {
+    const lo = Math.min(config.min, config.max), hi = Math.max(config.min, config.max);
+    let v = Math.max(lo, Math.min(hi, value));
+    if (config.step > 0) v = lo + Math.round((v - lo) / config.step) * config.step;
+    const factor = Math.pow(10, stepDecimals(config.step));
+    return Math.round(Math.min(hi, v) * factor) / factor;
+};
+
+export const getSliderKnob = (shape: Shape): Point => {
+    const { min, max, value } = shape.slider!;
+    const t = max === min ? 0 : Math.max(0, Math.min(1, (value - min) / (max - min)));
+    return lerp(shape.points[0], shape.points[1], t);
+};
+
+/**
+ * Value under the cursor when the knob is dragged (projected onto the track).
+ */
+export const getSliderValueAt = (shape: Shape, pos: Point): number => {
+    const [a, b] = shape.points;
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((pos.x - a.x) * dx + (pos.y - a.y) * dy) / lenSq));
+    const { min, max } = shape.slider!;
+    return snapSliderValue(shape.slider!, min + t * (max - min));
+};
+
+/**
+ * Slider names a shape reads from (function coefficients, expression variables and constraint parameters).
+ */
+export const getBoundSliderNames = (shape: Shape): string[] => {
+    const names = [
+        ...Object.values(shape.sliderBindings || {}),
+        ...Object.values(shape.constraint?.sliderBindings || {}),
+        ...Object.keys(shape.expressionScope || {})
+    ].filter((n): n is string => !!n);
+    return Array.from(new Set(names));
+};
+
+/**
+ * Copies the current slider values into the bound coefficients / constraint parameters.
+ * The other form of a quadratic is kept in sync like a manual edit would.
+ * Returns null when nothing is bound or nothing changed.
+ */
+export const applySliderBindings = (
+    shape: Shape,
+    getSlider: (name: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    const valueOf = (name?: string) => name ? getSlider(name)?.slider?.value : undefined;
+    let next = shape;
+
+    if (shape.type === ShapeType.FUNCTION_GRAPH && shape.formulaParams && shape.sliderBindings) {
+        const params = { ...shape.formulaParams };
+        const bound = (Object.keys(shape.sliderBindings) as FormulaParamKey[]).filter(key => valueOf(shape.sliderBindings![key]) !== undefined);
+        bound.forEach(key => { params[key] = valueOf(shape.sliderBindings![key]); });
+
+        const changed = bound.some(key => params[key] !== shape.formulaParams![key]);
+        if (changed) {
+            const fType = shape.functionType || 'quadratic';
+            if (fType === 'quadratic') {
+                const a = params.a ?? 1;
+                const vertexDriven = bound.includes('h') || bound.includes('k') || (!bound.includes('b') && !bound.includes('c') && shape.functionForm === 'vertex');
+                if (vertexDriven) {
+                    const { b, c } = vertexToStandard(a, params.h ?? 0, params.k ?? 0);
+                    params.b = Math.round(b * 100) / 100;
+                    params.c = Math.round(c * 100) / 100;
+                } else {
+                    const { h, k } = standardToVertex(a, params.b ?? 0, params.c ?? 0);
+                    params.h = Math.round(h * 100) / 100;
+                    params.k = Math.round(k * 100) / 100;
+                }
+            }
+            const pathData = generateFunctionPath({ ...shape, formulaParams: params }, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+            next = { ...next, formulaParams: params, pathData };
+        }
+    }
+
+    // Expression graphs and curves read sliders by name; their scope caches the values used for the path
+    if (shape.expressionScope) {
+        const scope = { ...shape.expressionScope };
+        let changed = false;
+        Object.keys(scope).forEach(name => {
+            const v = valueOf(name);
+            if (v !== undefined && v !== scope[name]) { scope[name] = v; changed = true; }
+        });
+        if (changed) {
+            const updated = { ...next, expressionScope: scope };
+            next = redrawFormulaShape(updated, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+        }
+    }
+
+    const bindings = shape.constraint?.sliderBindings;
+    if (bindings) {
+        const constraint = { ...shape.constraint! };
+        let changed = false;
+        (Object.keys(bindings) as ConstraintParamKey[]).forEach(key => {
+            let v = valueOf(bindings[key]);
+            if (v === undefined) return;
+            if (key === 'paramT') v = Math.max(0, Math.min(1, v));
+            if (constraint[key] !== v) { constraint[key] = v; changed = true; }
+        });
+        if (changed) next = { ...next, constraint };
+    }
+
+    return next === shape ? null : next;
+};
+
+/**
+ * Rewrites a slider name in the formulas of an expression graph, curve, equation or inequality region: renamed to `newName`, or
+ * replaced by the slider's current value when `newName` is null (the shape stops reading it).
+ */
+export const replaceExpressionVariable = (shape: Shape, oldName: string, newName: string | null): Shape => {
+    if (!shape.expressionScope || !(oldName in shape.expressionScope)) return shape;
+    const names = Object.keys(shape.expressionScope);
+    const value = shape.expressionScope[oldName];
+    const expressionScope: Record<string, number> = {};
+    names.forEach(n => {
+        if (n !== oldName) expressionScope[n] = shape.expressionScope![n];
+        else if (newName) expressionScope[newName] = value;
+    });
+    const rewrite = (text: string | undefined, argument: string) =>
+        text === undefined ? undefined : renameExpressionVariable(text, names, oldName, newName ?? `(${value})`, argument);
+    // An equation reads y like a slider
+    if (shape.equation !== undefined) return { ...shape, expressionScope, equation: renameExpressionVariable(shape.equation, [...names, 'y'], oldName, newName ?? `(${value})`) };
+    if (shape.inequalities) return { ...shape, expressionScope, inequalities: shape.inequalities.map(text => renameExpressionVariable(text, [...names, 'y'], oldName, newName ?? `(${value})`)) };
+    if (shape.curve) {
+        const argument = curveArgument(shape.curve);
+        return { ...shape, expressionScope, curve: { ...shape.curve, x: rewrite(shape.curve.x, argument), y: rewrite(shape.curve.y, argument), r: rewrite(shape.curve.r, argument) } };
+    }
+    return { ...shape, expressionScope, expression: rewrite(shape.expression, 'x') };
+};
+
+/**
+ * Renames a slider and every binding that refers to it. Returns null if the name is taken or invalid.
+ */
+export const renameSlider = (shapes: Shape[], sliderId: string, newName: string): Shape[] | null => {
+    const name = newName.trim();
+    const slider = shapes.find(s => s.id === sliderId);
+    if (!slider?.slider || !/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) return null;
+    const oldName = slider.slider.name;
+    if (name === oldName) return shapes;
+    if (findSliderByName(shapes, name)) return null;
+
+    const rebind = <K extends string>(bindings?: Partial<Record<K, string>>) => {
+        if (!bindings || !Object.values(bindings).includes(oldName)) return bindings;
+        const out: Partial<Record<K, string>> = {};
+        (Object.keys(bindings) as K[]).forEach(key => { out[key] = bindings[key] === oldName ? name : bindings[key]; });
+        return out;
+    };
+
+    return shapes.map(s => {
+        if (s.id === sliderId) return { ...s, slider: { ...s.slider!, name } };
+        s = replaceExpressionVariable(s, oldName, name);
+        const sliderBindings = rebind(s.sliderBindings);
+        const constraintBindings = rebind(s.constraint?.sliderBindings);
+        if (sliderBindings === s.sliderBindings && constraintBindings === s.constraint?.sliderBindings) return s;
+        return { ...s, sliderBindings, constraint: s.constraint ? { ...s.constraint, sliderBindings: constraintBindings } : undefined };
+    });
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createTangentLine, createDerivativeGraph, canDrawTangent } from './tangents';
+import { evaluateFunctionGraph } from './mathUtils';
+import { createTestShape } from './testShapes';
+import { ShapeType } from '../types';
+
+describe('Tangents', () => {
+    const parabola = createTestShape('f', { functionType: 'quadratic', functionForm: 'standard', formulaParams: { a: 1, b: -2, c: 0 } });
+    const sine = createTestShape('s', { functionType: 'expression', expression: 'sin(x)', expressionScope: {} });
+
+    it('should draw a tangent line through a point with the slope of its graph', () => {
+        const point = createTestShape('p', { type: ShapeType.POINT, points: [{ x: 540, y: 500 }], constraint: { type: 'on_path', parentId: 'f', paramX: 2 } });
+        const tangent = createTangentLine('t', point, id => [parabola, point].find(s => s.id === id), 1000, 1000, 20)!;
+        expect(tangent.labels).toEqual(['', 'm = 2']);
+        expect((tangent.points[0].x + tangent.points[1].x) / 2).toBeCloseTo(540, 6);
+        expect((tangent.points[1].y - tangent.points[0].y) / (tangent.points[1].x - tangent.points[0].x)).toBeCloseTo(-2, 6);
+
+        const onSine = createTestShape('q', { type: ShapeType.POINT, points: [], constraint: { type: 'on_path', parentId: 's', paramX: Math.PI } });
+        expect(createTangentLine('ts', onSine, id => [sine, onSine].find(s => s.id === id), 1000, 1000, 20)!.labels).toEqual(['', 'm = −1']);
+    });
+
+    it('should only draw tangents through points bound to a graph by their x', () => {
+        const free = createTestShape('p', { type: ShapeType.POINT, points: [{ x: 540, y: 500 }] });
+        expect(canDrawTangent(free, id => [parabola, free].find(s => s.id === id))).toBe(false);
+    });
+
+    it('should differentiate quadratics exactly', () => {
+        const derivative = createDerivativeGraph('d', parabola, 1000, 1000, 20)!;
+        expect(derivative).toMatchObject({ functionType: 'linear', formulaParams: { k: 2, b: -2 } });
+    });
+
+    it('should differentiate expressions numerically, but only once', () => {
+        const cosine = createDerivativeGraph('c', sine, 1000, 1000, 20)!;
+        expect(evaluateFunctionGraph(cosine, 1)).toBeCloseTo(Math.cos(1), 6);
+        expect(createDerivativeGraph('cc', cosine, 1000, 1000, 20)).toBeNull();
+    });
+
+    it('should differentiate y = k/x exactly', () => {
+        const hyperbola = createTestShape('h', { functionType: 'inverse', formulaParams: { k: 2 } });
+        expect(createDerivativeGraph('d', hyperbola, 1000, 1000, 20)!.expression).toBe('-2/x^2');
+    });
+});
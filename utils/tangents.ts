@@ -0,0 +1,148 @@
+import { Shape, ShapeType, PixelsPerUnit } from '../types';
+import { evaluateFunctionGraph, getGraphSlope, isPlottableGraph, mathToScreen, generateFunctionPath, cleanCoefficient } from './mathUtils';
+
+/**
+ * Tangent lines and derivative graphs of function graphs. A tangent is a LINE whose constraint names a
+ * point bound to a graph by its x (on_path with paramX); the solver redraws it through the point with
+ * the slope of the graph there, and rewrites its slope label, whenever the point is dragged or animated
+ * or the graph changes. A derivative graph is rebuilt from its graph the same way: exactly for linear and
+ * quadratic graphs (the derivative is linear) and for y = k/x (y = −k/x²), as the numeric slope of the
+ * expression otherwise.
+ */
+
+// Half the length of a tangent line, in grid units along the line
+const TANGENT_HALF_LENGTH = 3;
+
+// Internal Helper: Graph a point is bound to by its x, if any
+const getPointGraph = (point: Shape | undefined, getShape: (id: string) => Shape | undefined): Shape | undefined => {
+    const c = point?.type === ShapeType.POINT ? point.constraint : undefined;
+    if (c?.type !== 'on_path' || c.paramX === undefined || !c.parentId) return undefined;
+    const graph = getShape(c.parentId);
+    return graph && isPlottableGraph(graph) ? graph : undefined;
+};
+
+export const canDrawTangent = (point: Shape, getShape: (id: string) => Shape | undefined) => !!getPointGraph(point, getShape);
+
+// Internal Helper: `m = 1.5`, `m = −0.33`
+const formatSlope = (m: number) => {
+    const rounded = Math.round(Math.abs(m) * 100) / 100;
+    return `m = ${m < 0 && rounded !== 0 ? '−' : ''}${rounded}`;
+};
+
+/**
+ * Redraws a tangent line through its point. Where the graph has no slope (outside its domain, at a
+ * corner or a pole) the line keeps its place, flagged undefined.
+ */
+export const evaluateTangent = (
+    shape: Shape,
+    getShape: (id: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    const point = shape.constraint?.parentId ? getShape(shape.constraint.parentId) : undefined;
+    const graph = getPointGraph(point, getShape);
+    if (!point || !graph) return null;
+    const x = point.constraint!.paramX!;
+    const y = evaluateFunctionGraph(graph, x);
+    const m = getGraphSlope(graph, x);
+    if (isNaN(y) || isNaN(m)) return shape.isUndefined ? null : { ...shape, isUndefined: true };
+
+    const len = Math.hypot(1, m);
+    const dx = TANGENT_HALF_LENGTH / len, dy = (TANGENT_HALF_LENGTH * m) / len;
+    const ends = [{ x: x - dx, y: y - dy }, { x: x + dx, y: y + dy }];
+    return {
+        ...shape,
+        points: ends.map(p => mathToScreen(p, canvasWidth, canvasHeight, pixelsPerUnit, originY)),
+        labels: ['', formatSlope(m)],
+        rotation: 0,
+        isUndefined: undefined
+    };
+};
+
+export const createTangentLine = (
+    id: string,
+    point: Shape,
+    getShape: (id: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    const graph = getPointGraph(point, getShape);
+    if (!graph) return null;
+    const base: Shape = {
+        id,
+        type: ShapeType.LINE,
+        points: [point.points[0], point.points[0]],
+        fill: 'none',
+        stroke: graph.stroke,
+        strokeWidth: 2,
+        rotation: 0,
+        constraint: { type: 'tangent', parentId: point.id }
+    };
+    return evaluateTangent(base, getShape, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+};
+
+/**
+ * Any graph can be differentiated except the derivative of an expression, whose slope would be a
+ * difference of differences (too noisy to plot).
+ */
+export const canDifferentiate = (graph: Shape) => isPlottableGraph(graph) && !graph.differentiate;
+
+/**
+ * Rebuilds a derivative graph from its graph: a line for linear and quadratic graphs, the expression
+ * −k/x^2 for y = k/x, else the graph's expression plotted as its slope.
+ */
+export const evaluateDerivative = (
+    shape: Shape,
+    getShape: (id: string) => Shape | undefined,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    const graph = shape.constraint?.parentId ? getShape(shape.constraint.parentId) : undefined;
+    if (!graph || !canDifferentiate(graph)) return null;
+
+    let derived: Shape;
+    if (graph.functionType === 'expression') {
+        derived = { ...shape, functionType: 'expression', expression: graph.expression, expressionScope: graph.expressionScope, differentiate: true, formulaParams: undefined };
+    } else if (graph.functionType === 'inverse') {
+        const expression = `${cleanCoefficient(-(graph.formulaParams!.k ?? 1))}/x^2`;
+        derived = { ...shape, functionType: 'expression', expression, expressionScope: {}, differentiate: undefined, formulaParams: undefined };
+    } else {
+        const p = graph.formulaParams!;
+        const a = p.a ?? 1;
+        // (ax² + bx + c)' = 2ax + b, with b = -2ah in vertex form; (kx + b)' = k
+        const formulaParams = graph.functionType === 'linear'
+            ? { k: 0, b: p.k ?? 1 }
+            : { k: cleanCoefficient(2 * a), b: cleanCoefficient(graph.functionForm === 'vertex' ? -2 * a * (p.h || 0) : (p.b || 0)) };
+        derived = { ...shape, functionType: 'linear', functionForm: 'standard', formulaParams, expression: undefined, expressionScope: undefined, differentiate: undefined };
+    }
+    return { ...derived, pathData: generateFunctionPath(derived, canvasWidth, canvasHeight, pixelsPerUnit, originY) };
+};
+
+export const createDerivativeGraph = (
+    id: string,
+    graph: Shape,
+    canvasWidth: number,
+    canvasHeight: number,
+    pixelsPerUnit: PixelsPerUnit,
+    originY?: number
+): Shape | null => {
+    if (!canDifferentiate(graph)) return null;
+    const base: Shape = {
+        id,
+        type: ShapeType.FUNCTION_GRAPH,
+        points: [],
+        fill: 'none',
+        stroke: graph.stroke,
+        strokeWidth: graph.strokeWidth,
+        strokeType: 'dashed',
+        rotation: 0,
+        constraint: { type: 'derivative', parentId: graph.id }
+    };
+    return evaluateDerivative(base, id => id === graph.id ? graph : undefined, canvasWidth, canvasHeight, pixelsPerUnit, originY);
+};
@@ -0,0 +1,6 @@
+import { Shape, ShapeType } from '../types';
+
+// Test fixture: a function graph unless props give another type
+export const createTestShape = (id: string, props: Partial<Shape>): Shape => ({
+    id, type: ShapeType.FUNCTION_GRAPH, points: [], fill: 'none', stroke: 'black', strokeWidth: 1, rotation: 0, ...props
+});